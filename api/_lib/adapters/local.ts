@@ -0,0 +1,151 @@
+import { appendCsvRow, appendJsonl, newId, readJson, readJsonl, safeSegment, tenantFile, updateJson } from '../store.js';
+import type {
+  AdapterContext, CalendarAdapter, CrmAdapter, MessagingAdapter, PaymentsAdapter, SupportDeskAdapter, TicketingAdapter,
+  Activity, CalendarEvent, SentMessage, SheetRow
+} from './types.js';
+
+/**
+ * File-backed "local" adapters: real, persistent per-tenant state under
+ * AGENT_DATA_DIR/tenants/<tenant_id>/local/, no external services needed.
+ */
+
+type Row = { id: string; created_at: string; updated_at: string };
+
+function fileFor(ctx: AdapterContext, collection: string) {
+  return tenantFile(ctx.tenant_id, `local/${collection}.json`);
+}
+
+/** Keyed JSON collection with stamped rows. */
+function collection<T extends Row>(name: string, idPrefix: string) {
+  return {
+    async list(ctx: AdapterContext): Promise<T[]> {
+      return Object.values(await readJson<Record<string, T>>(fileFor(ctx, name), {}));
+    },
+    async get(ctx: AdapterContext, id: string): Promise<T | undefined> {
+      return (await readJson<Record<string, T>>(fileFor(ctx, name), {}))[id];
+    },
+    async create(ctx: AdapterContext, data: Omit<T, keyof Row> & { id?: string }): Promise<T> {
+      const now = new Date().toISOString();
+      const row = { ...data, id: data.id || newId(idPrefix), created_at: now, updated_at: now } as T;
+      await updateJson<Record<string, T>>(fileFor(ctx, name), {}, rows => ({ ...rows, [row.id]: row }));
+      return row;
+    },
+    async update(ctx: AdapterContext, id: string, patch: Partial<T>): Promise<T> {
+      let out: T | undefined;
+      await updateJson<Record<string, T>>(fileFor(ctx, name), {}, rows => {
+        const cur = rows[id];
+        if (!cur) throw new Error(`${name} not found: ${id}`);
+        out = { ...cur, ...patch, id, created_at: cur.created_at, updated_at: new Date().toISOString() };
+        return { ...rows, [id]: out };
+      });
+      return out!;
+    }
+  };
+}
+
+// --- CRM ------------------------------------------------------------------------
+const leads = collection<any>('crm_leads', 'lead');
+const opportunities = collection<any>('crm_opportunities', 'opp');
+
+export const localCrm: CrmAdapter = {
+  name: 'local',
+  listLeads: ctx => leads.list(ctx),
+  getLead: (ctx, id) => leads.get(ctx, id),
+  createLead: (ctx, lead) => leads.create(ctx, lead),
+  updateLead: (ctx, id, patch) => leads.update(ctx, id, patch),
+  createOpportunity: (ctx, opp) => opportunities.create(ctx, opp),
+  updateOpportunity: (ctx, id, patch) => opportunities.update(ctx, id, patch),
+  async listOpportunities(ctx, lead_id) {
+    const all = await opportunities.list(ctx);
+    return lead_id ? all.filter(o => o.lead_id === lead_id) : all;
+  },
+  async appendActivity(ctx, activity) {
+    const row: Activity = { ...activity, id: newId('act') };
+    await updateJson<Record<string, Activity[]>>(fileFor(ctx, 'crm_activities'), {}, all => ({
+      ...all,
+      [row.lead_id]: [...(all[row.lead_id] || []), row]
+    }));
+    return row;
+  },
+  async listActivities(ctx, lead_id) {
+    return (await readJson<Record<string, Activity[]>>(fileFor(ctx, 'crm_activities'), {}))[lead_id] || [];
+  }
+};
+
+// --- CALENDAR ---------------------------------------------------------------------
+const events = collection<CalendarEvent>('calendar_events', 'evt');
+
+export const localCalendar: CalendarAdapter = {
+  name: 'local',
+  async listEvents(ctx, range = {}) {
+    return (await events.list(ctx))
+      .filter(e => !range.calendar || e.calendar === range.calendar)
+      .filter(e => !range.from || e.end > range.from)
+      .filter(e => !range.to || e.start < range.to)
+      .sort((a, b) => a.start.localeCompare(b.start));
+  },
+  async getEvent(ctx, uid) {
+    return (await events.list(ctx)).find(e => e.uid === uid);
+  },
+  async createEvent(ctx, ev) {
+    const id = newId('evt');
+    const uid = ev.uid || `${id}@${ctx.tenant_id}.agentkit`;
+    return events.create(ctx, { ...ev, id, uid, status: 'confirmed', sequence: 0 } as any);
+  },
+  async updateEvent(ctx, uid, patch) {
+    const cur = await this.getEvent(ctx, uid);
+    if (!cur) throw new Error(`event not found: ${uid}`);
+    return events.update(ctx, cur.id, { ...patch, uid, sequence: cur.sequence + 1 });
+  }
+};
+
+// --- PAYMENTS ---------------------------------------------------------------------
+const documents = collection<any>('payments_documents', 'doc');
+
+export const localPayments: PaymentsAdapter = {
+  name: 'local',
+  createDocument: (ctx, doc) => documents.create(ctx, doc),
+  getDocument: (ctx, id) => documents.get(ctx, id),
+  updateDocument: (ctx, id, patch) => documents.update(ctx, id, patch),
+  async listDocuments(ctx, kind) {
+    const all = await documents.list(ctx);
+    return kind ? all.filter(d => d.kind === kind) : all;
+  }
+};
+
+// --- SUPPORT DESK -----------------------------------------------------------------
+const cases = collection<any>('support_cases', 'case');
+
+export const localSupportDesk: SupportDeskAdapter = {
+  name: 'local',
+  createCase: (ctx, c) => cases.create(ctx, c),
+  getCase: (ctx, id) => cases.get(ctx, id),
+  updateCase: (ctx, id, patch) => cases.update(ctx, id, patch),
+  listCases: ctx => cases.list(ctx)
+};
+
+// --- MESSAGING (outbox) -----------------------------------------------------------
+export const localMessaging: MessagingAdapter = {
+  name: 'local',
+  async send(ctx, msg) {
+    const sent: SentMessage = { ...msg, id: newId('msg'), status: 'queued', at: new Date().toISOString() };
+    await updateJson<SentMessage[]>(fileFor(ctx, 'messaging_outbox'), [], rows => [...rows, sent]);
+    return sent;
+  },
+  listSent: ctx => readJson<SentMessage[]>(fileFor(ctx, 'messaging_outbox'), [])
+};
+
+// --- GENERIC TICKETING (CSV for people, JSONL for machines) -----------------------
+function sheetFile(ctx: AdapterContext, sheet: string, ext: 'csv' | 'jsonl') {
+  return tenantFile(ctx.tenant_id, `local/sheets/${safeSegment(sheet)}.${ext}`);
+}
+
+export const localTicketing: TicketingAdapter = {
+  name: 'local',
+  async appendRow(ctx, sheet, columns, row) {
+    const row_number = await appendCsvRow(sheetFile(ctx, sheet, 'csv'), columns, row);
+    await appendJsonl(sheetFile(ctx, sheet, 'jsonl'), { row_number, ...row });
+    return { sheet, row_number };
+  },
+  listRows: (ctx, sheet) => readJsonl<SheetRow>(sheetFile(ctx, sheet, 'jsonl'))
+};
@@ -0,0 +1,72 @@
+import { localCalendar, localCrm, localMessaging, localPayments, localSupportDesk, localTicketing } from './local.js';
+import type { AdapterContext, AdapterFor, Capability, MessageChannel } from './types.js';
+
+/**
+ * Adapter registry: (capability, provider name) → adapter.
+ *
+ * Resolution for a tenant:
+ *  - provider 'none' / missing        → no adapter (caller decides the fallback)
+ *  - provider registered              → that adapter
+ *  - provider named but unregistered  → the local file-backed adapter, with a note
+ *
+ * Register your own adapters at module load, e.g.
+ *   registerAdapter('crm', 'hubspot', myHubspotAdapter);
+ */
+
+export type Resolved<C extends Capability> = {
+  capability: C;
+  provider: string;
+  adapter: AdapterFor<C> | null;
+  ctx: AdapterContext;
+  notes?: string;
+};
+
+const registry = new Map<string, unknown>();
+
+export function registerAdapter<C extends Capability>(capability: C, provider: string, adapter: AdapterFor<C>) {
+  registry.set(`${capability}:${provider}`, adapter);
+}
+
+export function registeredProviders(capability?: Capability) {
+  return Array.from(registry.keys()).filter(k => !capability || k.startsWith(`${capability}:`));
+}
+
+registerAdapter('crm', 'local', localCrm);
+registerAdapter('calendar', 'local', localCalendar);
+registerAdapter('payments', 'local', localPayments);
+registerAdapter('support_desk', 'local', localSupportDesk);
+registerAdapter('messaging', 'local', localMessaging);
+registerAdapter('ticketing', 'local', localTicketing);
+
+/** Provider name the tenant configured for a capability ('none' when absent). */
+export function providerName(capability: Capability, capabilities: Record<string, unknown> = {}, channel: MessageChannel = 'email') {
+  const caps = capabilities as any;
+  const name = capability === 'messaging' ? caps?.messaging?.[channel]
+    : capability === 'ticketing' ? caps?.fallbacks?.generic_ticketing
+    : caps?.[capability]?.provider;
+  return typeof name === 'string' && name.trim() ? name.trim() : 'none';
+}
+
+export function resolveAdapter<C extends Capability>(
+  capability: C,
+  tenant_id: string,
+  capabilities: Record<string, unknown> = {},
+  channel?: MessageChannel
+): Resolved<C> {
+  const provider = providerName(capability, capabilities, channel);
+  const ctx: AdapterContext = { tenant_id, provider, capabilities };
+
+  if (provider === 'none') {
+    return { capability, provider, adapter: null, ctx, notes: `no ${capability} provider configured` };
+  }
+  const exact = registry.get(`${capability}:${provider}`) as AdapterFor<C> | undefined;
+  if (exact) return { capability, provider, adapter: exact, ctx };
+
+  return {
+    capability,
+    provider,
+    adapter: registry.get(`${capability}:local`) as AdapterFor<C>,
+    ctx,
+    notes: `no adapter registered for ${capability}:${provider}; using local store`
+  };
+}
@@ -0,0 +1,155 @@
+/**
+ * Provider adapter contracts, one per tenant capability.
+ *
+ * A tenant's `context.capabilities` names the provider per capability
+ * (crm.provider, calendar.provider, payments.provider, support_desk.provider,
+ * messaging.{email,sms,chat}, fallbacks.generic_ticketing); the registry maps
+ * that name to an adapter.
+ */
+
+export type Capability = 'crm' | 'calendar' | 'payments' | 'support_desk' | 'messaging' | 'ticketing';
+
+export type AdapterContext = {
+  tenant_id: string;
+  provider: string;
+  capabilities: Record<string, unknown>;
+};
+
+type Stamped = { id: string; created_at: string; updated_at: string };
+
+// --- CRM ------------------------------------------------------------------------
+export type Lead = Stamped & {
+  name: string;
+  email?: string;
+  phone?: string;
+  company?: string;
+  source?: string;
+  stage?: string;
+  [k: string]: unknown;
+};
+
+export type Opportunity = Stamped & {
+  lead_id: string;
+  name: string;
+  amount?: number;
+  currency?: string;
+  stage: string;
+  close_date?: string;
+};
+
+export type Activity = {
+  id: string;
+  lead_id: string;
+  type: string;
+  at: string;
+  summary: string;
+  data?: Record<string, unknown>;
+};
+
+export interface CrmAdapter {
+  name: string;
+  listLeads(ctx: AdapterContext): Promise<Lead[]>;
+  getLead(ctx: AdapterContext, id: string): Promise<Lead | undefined>;
+  createLead(ctx: AdapterContext, lead: Omit<Lead, keyof Stamped>): Promise<Lead>;
+  updateLead(ctx: AdapterContext, id: string, patch: Partial<Lead>): Promise<Lead>;
+  createOpportunity(ctx: AdapterContext, opp: Omit<Opportunity, keyof Stamped>): Promise<Opportunity>;
+  updateOpportunity(ctx: AdapterContext, id: string, patch: Partial<Opportunity>): Promise<Opportunity>;
+  listOpportunities(ctx: AdapterContext, lead_id?: string): Promise<Opportunity[]>;
+  appendActivity(ctx: AdapterContext, activity: Omit<Activity, 'id'>): Promise<Activity>;
+  listActivities(ctx: AdapterContext, lead_id: string): Promise<Activity[]>;
+}
+
+// --- CALENDAR ---------------------------------------------------------------------
+export type CalendarEvent = Stamped & {
+  uid: string;
+  calendar: string;
+  title: string;
+  start: string;       // ISO instant
+  end: string;         // ISO instant
+  attendees: Array<{ name?: string; email?: string }>;
+  status: 'confirmed' | 'cancelled';
+  sequence: number;
+  [k: string]: unknown;
+};
+
+export interface CalendarAdapter {
+  name: string;
+  listEvents(ctx: AdapterContext, range?: { from?: string; to?: string; calendar?: string }): Promise<CalendarEvent[]>;
+  getEvent(ctx: AdapterContext, uid: string): Promise<CalendarEvent | undefined>;
+  createEvent(ctx: AdapterContext, ev: Omit<CalendarEvent, keyof Stamped | 'uid' | 'sequence' | 'status'> & { uid?: string }): Promise<CalendarEvent>;
+  updateEvent(ctx: AdapterContext, uid: string, patch: Partial<CalendarEvent>): Promise<CalendarEvent>;
+}
+
+// --- PAYMENTS ---------------------------------------------------------------------
+export type BillingDocument = Stamped & {
+  kind: 'quote' | 'invoice';
+  number?: string;
+  customer: string;
+  currency: string;
+  total?: number;
+  status: string;
+  [k: string]: unknown;
+};
+
+export interface PaymentsAdapter {
+  name: string;
+  createDocument(ctx: AdapterContext, doc: Omit<BillingDocument, keyof Stamped>): Promise<BillingDocument>;
+  getDocument(ctx: AdapterContext, id: string): Promise<BillingDocument | undefined>;
+  updateDocument(ctx: AdapterContext, id: string, patch: Partial<BillingDocument>): Promise<BillingDocument>;
+  listDocuments(ctx: AdapterContext, kind?: BillingDocument['kind']): Promise<BillingDocument[]>;
+}
+
+// --- SUPPORT DESK -----------------------------------------------------------------
+export type SupportCase = Stamped & {
+  subject: string;
+  status: string;
+  priority: string;
+  customer?: string;
+  customer_email?: string;
+  [k: string]: unknown;
+};
+
+export interface SupportDeskAdapter {
+  name: string;
+  createCase(ctx: AdapterContext, c: Omit<SupportCase, keyof Stamped>): Promise<SupportCase>;
+  getCase(ctx: AdapterContext, id: string): Promise<SupportCase | undefined>;
+  updateCase(ctx: AdapterContext, id: string, patch: Partial<SupportCase>): Promise<SupportCase>;
+  listCases(ctx: AdapterContext): Promise<SupportCase[]>;
+}
+
+// --- MESSAGING ----------------------------------------------------------------------
+export type MessageChannel = 'email' | 'sms' | 'chat';
+
+export type OutboundMessage = {
+  channel: MessageChannel;
+  to: string;
+  subject?: string;
+  body: string;
+  meta?: Record<string, unknown>;
+};
+
+export type SentMessage = OutboundMessage & { id: string; status: 'queued' | 'sent'; at: string };
+
+export interface MessagingAdapter {
+  name: string;
+  send(ctx: AdapterContext, msg: OutboundMessage): Promise<SentMessage>;
+  listSent(ctx: AdapterContext): Promise<SentMessage[]>;
+}
+
+// --- GENERIC TICKETING (fallback sheet) ---------------------------------------------
+export type SheetRow = Record<string, string>;
+
+export interface TicketingAdapter {
+  name: string;
+  /** Append a row; `columns` is the sheet's layout when the sheet is new. */
+  appendRow(ctx: AdapterContext, sheet: string, columns: string[], row: SheetRow): Promise<{ sheet: string; row_number: number }>;
+  listRows(ctx: AdapterContext, sheet: string): Promise<SheetRow[]>;
+}
+
+export type AdapterFor<C extends Capability> =
+  C extends 'crm' ? CrmAdapter
+  : C extends 'calendar' ? CalendarAdapter
+  : C extends 'payments' ? PaymentsAdapter
+  : C extends 'support_desk' ? SupportDeskAdapter
+  : C extends 'ticketing' ? TicketingAdapter
+  : MessagingAdapter;
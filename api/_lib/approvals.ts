@@ -0,0 +1,185 @@
+import type { DeptResult, DeptTicket } from './departments.js';
+import { newId, readJson, updateJson } from './store.js';
+
+/**
+ * Human-in-the-loop approval queue for high-risk actions.
+ *
+ * Which actions need a reviewer (first match wins):
+ *  1. ticket.context.capabilities.approvals.actions   ['FIN.invoice_issue', ...] ([] disables)
+ *  2. env APPROVAL_ACTIONS                              "FIN.invoice_issue,PROCUREMENT.create_po"
+ *  3. DEFAULT_APPROVAL_ACTIONS
+ *
+ * Parked tickets are stored untouched (same id + idempotency_key) so an approved
+ * ticket resumes exactly as it was requested, plus any reviewer edits.
+ *
+ * pending → executing (approved, running) → executed | failed. A run that threw
+ * goes back to `approved` and can be approved again; one that died with the
+ * process stays `executing` and can be taken over once it is stale.
+ *
+ * Env:
+ * - APPROVAL_WEBHOOK_URL   optional; receives { text, approval } when a ticket is parked
+ */
+
+export type ApprovalStatus = 'pending' | 'approved' | 'executing' | 'rejected' | 'executed' | 'failed';
+
+export type ApprovalEdit = {
+  at: string;
+  reviewer: string;
+  before: Record<string, unknown>;
+  after: Record<string, unknown>;
+};
+
+export type ApprovalRecord = {
+  id: string;
+  tenant_id: string;
+  status: ApprovalStatus;
+  ticket: DeptTicket;
+  channel: string;
+  requested_at: string;
+  decided_at?: string;
+  /** Start of the current run (status executing). */
+  executing_since?: string;
+  /** Runs started; more than 1 after a failed or abandoned run was approved again. */
+  runs?: number;
+  /** Why the last run did not record a result. */
+  last_error?: string;
+  reviewer?: string;
+  note?: string;
+  edits: ApprovalEdit[];
+  result?: DeptResult;
+};
+
+export const DEFAULT_APPROVAL_ACTIONS = [
+  'FIN.expense_approve',
+  'FIN.invoice_issue',
+  'PROCUREMENT.create_po',
+  'LEGAL.generate_msa',
+  'IT.provision_access'
+];
+
+const FILE = 'approvals.json';
+/** An `executing` run older than this is assumed dead and may be started again. */
+const EXECUTING_STALE_MS = 10 * 60_000;
+
+type ApprovalBook = Record<string, ApprovalRecord>;
+
+export class ApprovalError extends Error {
+  constructor(message: string, public code: 404 | 409) {
+    super(message);
+  }
+}
+
+// --- RULES --------------------------------------------------------------------
+function approvalActions(ticket: DeptTicket): string[] {
+  const fromCaps = (ticket.context?.capabilities as any)?.approvals?.actions;
+  if (Array.isArray(fromCaps)) return fromCaps.map(String);
+  const fromEnv = process.env.APPROVAL_ACTIONS;
+  if (fromEnv !== undefined) return fromEnv.split(',').map(s => s.trim()).filter(Boolean);
+  return DEFAULT_APPROVAL_ACTIONS;
+}
+
+export function requiresApproval(ticket: DeptTicket) {
+  return approvalActions(ticket).includes(`${ticket.dept}.${ticket.action}`);
+}
+
+export function reviewChannelFor(ticket: DeptTicket): string {
+  const caps = (ticket.context?.capabilities || {}) as any;
+  return caps?.approvals?.channel || caps?.fallbacks?.manual_review_channel || 'manual-review';
+}
+
+// --- QUEUE --------------------------------------------------------------------
+async function notifyReviewers(rec: ApprovalRecord) {
+  const url = process.env.APPROVAL_WEBHOOK_URL;
+  if (!url) return;
+  const text = `[approval] ${rec.ticket.dept}.${rec.ticket.action} for ${rec.tenant_id} needs review (${rec.id}) → ${rec.channel}`;
+  try {
+    await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text, approval: { id: rec.id, channel: rec.channel, ticket: rec.ticket } })
+    });
+  } catch { /* best effort: the queue is the source of truth */ }
+}
+
+export async function parkTicket(ticket: DeptTicket): Promise<ApprovalRecord> {
+  const rec: ApprovalRecord = {
+    id: newId('apr'),
+    tenant_id: ticket.context.tenant_id,
+    status: 'pending',
+    ticket,
+    channel: reviewChannelFor(ticket),
+    requested_at: new Date().toISOString(),
+    edits: []
+  };
+  await updateJson<ApprovalBook>(FILE, {}, book => ({ ...book, [rec.id]: rec }));
+  await notifyReviewers(rec);
+  return rec;
+}
+
+export async function getApproval(id: string) {
+  const book = await readJson<ApprovalBook>(FILE, {});
+  return book[id];
+}
+
+export async function listApprovals(filter: { tenant_id?: string; status?: string } = {}) {
+  const book = await readJson<ApprovalBook>(FILE, {});
+  return Object.values(book)
+    .filter(r => !filter.tenant_id || r.tenant_id === filter.tenant_id)
+    .filter(r => !filter.status || r.status === filter.status)
+    .sort((a, b) => a.requested_at.localeCompare(b.requested_at));
+}
+
+/** Apply `fn` to a record that must currently be in one of `from` states. */
+async function transition(id: string, from: ApprovalStatus[], fn: (rec: ApprovalRecord) => ApprovalRecord) {
+  let out: ApprovalRecord | undefined;
+  await updateJson<ApprovalBook>(FILE, {}, book => {
+    const rec = book[id];
+    if (!rec) throw new ApprovalError(`Approval not found: ${id}`, 404);
+    if (!from.includes(rec.status)) throw new ApprovalError(`Approval ${id} is ${rec.status}, expected ${from.join('|')}`, 409);
+    out = fn(rec);
+    return { ...book, [id]: out };
+  });
+  return out!;
+}
+
+export function editApproval(id: string, reviewer: string, inputs: Record<string, unknown>) {
+  return transition(id, ['pending'], rec => {
+    const after = { ...rec.ticket.inputs, ...inputs };
+    return {
+      ...rec,
+      ticket: { ...rec.ticket, inputs: after },
+      edits: [...rec.edits, { at: new Date().toISOString(), reviewer, before: rec.ticket.inputs, after }]
+    };
+  });
+}
+
+export function rejectApproval(id: string, reviewer: string, note?: string) {
+  return transition(id, ['pending'], rec => ({ ...rec, status: 'rejected', reviewer, note, decided_at: new Date().toISOString() }));
+}
+
+/**
+ * Approve a pending ticket and claim it for running. An approved one without a
+ * result (its run threw) or a stale `executing` one is claimed again; the
+ * first reviewer's decision is kept.
+ */
+export function startApproval(id: string, reviewer: string, note?: string) {
+  const now = new Date();
+  return transition(id, ['pending', 'approved', 'executing'], rec => {
+    if (rec.status === 'executing' && now.getTime() - Date.parse(rec.executing_since || rec.decided_at || '') < EXECUTING_STALE_MS) {
+      throw new ApprovalError(`Approval ${id} is already executing (since ${rec.executing_since})`, 409);
+    }
+    const decision = rec.status === 'pending' ? { reviewer, note, decided_at: now.toISOString() } : {};
+    return { ...rec, ...decision, status: 'executing', executing_since: now.toISOString(), runs: (rec.runs || 0) + 1 };
+  });
+}
+
+/** The run threw before it produced a result: back to `approved` so it can be run again. */
+export function releaseApproval(id: string, error: string) {
+  return transition(id, ['executing'], rec => ({ ...rec, status: 'approved', executing_since: undefined, last_error: error }));
+}
+
+export function recordApprovalResult(id: string, result: DeptResult) {
+  return transition(id, ['executing'], rec => ({
+    ...rec, status: result.ok ? 'executed' : 'failed', executing_since: undefined, last_error: undefined, result
+  }));
+}
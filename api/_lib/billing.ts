@@ -0,0 +1,277 @@
+import { tenantFile, updateJson } from './store.js';
+import { zonedParts } from './time.js';
+
+/**
+ * Quote / invoice math, numbering and rendering.
+ *
+ * Money is computed in integer minor units (cents, or the currency's own
+ * exponent) so totals never drift. Rounding is half away from zero and happens
+ * once per step on each line: line net = round(qty × unit) − round(line ×
+ * discount%), line tax = round(net × tax%), all in minor units (the unit price
+ * itself is not rounded first). Document totals are plain sums of the rounded lines.
+ */
+
+export type LineInput = {
+  sku?: string;
+  description: string;
+  quantity?: number;
+  unit_price: number;
+  discount_pct?: number;
+  tax_rate?: number;
+};
+
+export type PricedLine = {
+  sku?: string;
+  description: string;
+  quantity: number;
+  unit_price: number;
+  discount_pct: number;
+  tax_rate: number;
+  subtotal: number;
+  discount: number;
+  net: number;
+  tax: number;
+  total: number;
+};
+
+export type Totals = {
+  currency: string;
+  subtotal: number;
+  discount: number;
+  net: number;
+  tax: number;
+  total: number;
+  tax_breakdown: Array<{ rate: number; base: number; tax: number }>;
+};
+
+// ISO 4217 exponents that are not 2
+const EXPONENT: Record<string, number> = {
+  BIF: 0, CLP: 0, DJF: 0, GNF: 0, ISK: 0, JPY: 0, KMF: 0, KRW: 0, PYG: 0, RWF: 0,
+  UGX: 0, VND: 0, VUV: 0, XAF: 0, XOF: 0, XPF: 0,
+  BHD: 3, IQD: 3, JOD: 3, KWD: 3, LYD: 3, OMR: 3, TND: 3
+};
+
+export function currencyExponent(currency: string) {
+  return EXPONENT[currency.toUpperCase()] ?? 2;
+}
+
+function roundHalfAway(x: number) {
+  // the epsilon nudge keeps 1.005 × 100 = 100.49999… rounding to 101
+  return Math.sign(x) * Math.round(Math.abs(x) * (1 + Number.EPSILON) + Number.EPSILON);
+}
+
+const toMinor = (major: number, exp: number) => roundHalfAway(major * 10 ** exp);
+const toMajor = (minor: number, exp: number) => Number((minor / 10 ** exp).toFixed(exp));
+
+export function priceLines(lines: LineInput[], opts: { currency: string; tax_rate?: number }): { lines: PricedLine[]; totals: Totals } {
+  const exp = currencyExponent(opts.currency);
+  const priced = lines.map(l => {
+    const quantity = l.quantity ?? 1;
+    const discount_pct = l.discount_pct ?? 0;
+    const tax_rate = l.tax_rate ?? opts.tax_rate ?? 0;
+    // one rounding on the product, so sub-cent unit prices (0.125 × 8) are not rounded first
+    const subtotal = toMinor(quantity * l.unit_price, exp);
+    const discount = roundHalfAway(subtotal * discount_pct / 100);
+    const net = subtotal - discount;
+    const tax = roundHalfAway(net * tax_rate / 100);
+    return { l, quantity, discount_pct, tax_rate, subtotal, discount, net, tax };
+  });
+
+  const sum = (k: 'subtotal' | 'discount' | 'net' | 'tax') => priced.reduce((a, p) => a + p[k], 0);
+  const byRate = new Map<number, { base: number; tax: number }>();
+  for (const p of priced) {
+    const r = byRate.get(p.tax_rate) || { base: 0, tax: 0 };
+    byRate.set(p.tax_rate, { base: r.base + p.net, tax: r.tax + p.tax });
+  }
+
+  return {
+    lines: priced.map(p => ({
+      ...(p.l.sku ? { sku: p.l.sku } : {}),
+      description: p.l.description,
+      quantity: p.quantity,
+      unit_price: p.l.unit_price,
+      discount_pct: p.discount_pct,
+      tax_rate: p.tax_rate,
+      subtotal: toMajor(p.subtotal, exp),
+      discount: toMajor(p.discount, exp),
+      net: toMajor(p.net, exp),
+      tax: toMajor(p.tax, exp),
+      total: toMajor(p.net + p.tax, exp)
+    })),
+    totals: {
+      currency: opts.currency,
+      subtotal: toMajor(sum('subtotal'), exp),
+      discount: toMajor(sum('discount'), exp),
+      net: toMajor(sum('net'), exp),
+      tax: toMajor(sum('tax'), exp),
+      total: toMajor(sum('net') + sum('tax'), exp),
+      tax_breakdown: [...byRate.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([rate, r]) => ({ rate, base: toMajor(r.base, exp), tax: toMajor(r.tax, exp) }))
+    }
+  };
+}
+
+// --- TERMS ------------------------------------------------------------------------
+export type ParsedTerms = { net_days: number; end_of_month: boolean; recognized: boolean };
+
+/** "NET 30", "Net15", "NET 30 EOM", "Due on receipt" / "COD" / "immediate" (0 days). */
+export function parseTerms(terms: string | undefined): ParsedTerms {
+  const t = String(terms || '').trim();
+  const eom = /\bEOM\b|end of month/i.test(t);
+  const net = t.match(/\bnet\s*-?\s*(\d{1,3})\b/i);
+  if (net) return { net_days: Number(net[1]), end_of_month: eom, recognized: true };
+  if (/receipt|immediate|\bCOD\b|\bCIA\b/i.test(t)) return { net_days: 0, end_of_month: eom, recognized: true };
+  if (eom) return { net_days: 0, end_of_month: true, recognized: true };
+  return { net_days: 30, end_of_month: false, recognized: false };
+}
+
+/** YYYY-MM-DD + terms → due date (EOM terms count from the last day of the issue month). */
+export function dueDateFor(issue_date: string, terms: string | undefined) {
+  const p = parseTerms(terms);
+  const [y, m, d] = issue_date.split('-').map(Number);
+  const base = p.end_of_month ? new Date(Date.UTC(y, m, 0)) : new Date(Date.UTC(y, m - 1, d));
+  base.setUTCDate(base.getUTCDate() + p.net_days);
+  return { due_date: base.toISOString().slice(0, 10), terms: p };
+}
+
+export function addDays(date: string, days: number) {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export type Period = 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+/**
+ * The calendar period containing `date` as [from, to) YYYY-MM-DD bounds;
+ * weeks start on Monday.
+ */
+export function periodRange(period: Period, date: string) {
+  const [y, m, d] = date.split('-').map(Number);
+  const iso = (dt: Date) => dt.toISOString().slice(0, 10);
+  switch (period) {
+    case 'day': return { from: date, to: addDays(date, 1) };
+    case 'week': {
+      const from = addDays(date, -((new Date(Date.UTC(y, m - 1, d)).getUTCDay() + 6) % 7));
+      return { from, to: addDays(from, 7) };
+    }
+    case 'month': return { from: iso(new Date(Date.UTC(y, m - 1, 1))), to: iso(new Date(Date.UTC(y, m, 1))) };
+    case 'quarter': {
+      const q = Math.floor((m - 1) / 3) * 3;
+      return { from: iso(new Date(Date.UTC(y, q, 1))), to: iso(new Date(Date.UTC(y, q + 3, 1))) };
+    }
+    case 'year': return { from: `${y}-01-01`, to: `${y + 1}-01-01` };
+  }
+}
+
+/** Today's date in the tenant's time zone. */
+export function todayIn(timeZone: string, now = new Date()) {
+  const p = zonedParts(now, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+// --- NUMBERING ----------------------------------------------------------------------
+const PREFIX = { quote: 'Q', invoice: 'INV', po: 'PO' } as const;
+
+/** Next gap-free number per tenant and kind: Q-00001, INV-00001, PO-00001, ... */
+export async function nextNumber(tenant_id: string, kind: keyof typeof PREFIX) {
+  const seq = await updateJson<Record<string, number>>(tenantFile(tenant_id, 'fin/sequences.json'), {}, s => ({ ...s, [kind]: (s[kind] || 0) + 1 }));
+  return `${PREFIX[kind]}-${String(seq[kind]).padStart(5, '0')}`;
+}
+
+// --- RENDERING ----------------------------------------------------------------------
+export type BillingDoc = {
+  kind: 'quote' | 'invoice';
+  number: string;
+  customer: string;
+  customer_email?: string;
+  issue_date: string;
+  valid_until?: string;
+  due_date?: string;
+  terms?: string;
+  quote_number?: string;
+  lines: PricedLine[];
+  totals: Totals;
+  notes?: string;
+  seller?: { name?: string; address?: string; tax_id?: string };
+};
+
+function esc(v: unknown) {
+  return String(v ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
+
+export function formatMoney(amount: number, currency: string) {
+  const exp = currencyExponent(currency);
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, minimumFractionDigits: exp, maximumFractionDigits: exp }).format(amount);
+  } catch {
+    return `${amount.toFixed(exp)} ${currency}`;
+  }
+}
+
+/** Self-contained printable HTML (no external assets). */
+export function renderHtml(doc: BillingDoc) {
+  const money = (n: number) => esc(formatMoney(n, doc.totals.currency));
+  const title = `${doc.kind === 'quote' ? 'Quote' : 'Invoice'} ${doc.number}`;
+  const rows = doc.lines.map(l => `
+      <tr>
+        <td>${esc(l.sku || '')}</td>
+        <td>${esc(l.description)}</td>
+        <td class="n">${esc(l.quantity)}</td>
+        <td class="n">${money(l.unit_price)}</td>
+        <td class="n">${l.discount_pct ? `${esc(l.discount_pct)}%` : ''}</td>
+        <td class="n">${esc(l.tax_rate)}%</td>
+        <td class="n">${money(l.net)}</td>
+      </tr>`).join('');
+  const taxes = doc.totals.tax_breakdown.filter(t => t.rate > 0).map(t => `
+      <tr><td colspan="6" class="n">Tax ${esc(t.rate)}% on ${money(t.base)}</td><td class="n">${money(t.tax)}</td></tr>`).join('');
+  const meta = [
+    ['Date', doc.issue_date],
+    doc.valid_until ? ['Valid until', doc.valid_until] : undefined,
+    doc.due_date ? ['Due', doc.due_date] : undefined,
+    doc.terms ? ['Terms', doc.terms] : undefined,
+    doc.quote_number ? ['Quote', doc.quote_number] : undefined
+  ].filter(Boolean).map(r => `<div><span>${esc(r![0])}</span> ${esc(r![1])}</div>`).join('');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${esc(title)}</title>
+<style>
+  body { font: 14px/1.4 system-ui, sans-serif; color: #111; margin: 40px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  .meta div span { color: #666; display: inline-block; min-width: 90px; }
+  .parties { display: flex; justify-content: space-between; margin: 24px 0; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #ddd; text-align: left; }
+  th { background: #f5f5f5; }
+  .n { text-align: right; white-space: nowrap; }
+  tfoot td { border: none; }
+  tfoot tr.total td { font-weight: 700; border-top: 2px solid #111; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+  <h1>${esc(title)}</h1>
+  <div class="meta">${meta}</div>
+  <div class="parties">
+    <div><strong>From</strong><br>${esc(doc.seller?.name || '')}${doc.seller?.address ? `<br>${esc(doc.seller.address)}` : ''}${doc.seller?.tax_id ? `<br>Tax ID ${esc(doc.seller.tax_id)}` : ''}</div>
+    <div><strong>To</strong><br>${esc(doc.customer)}${doc.customer_email ? `<br>${esc(doc.customer_email)}` : ''}</div>
+  </div>
+  <table>
+    <thead><tr><th>SKU</th><th>Description</th><th class="n">Qty</th><th class="n">Unit</th><th class="n">Disc.</th><th class="n">Tax</th><th class="n">Net</th></tr></thead>
+    <tbody>${rows}
+    </tbody>
+    <tfoot>
+      <tr><td colspan="6" class="n">Subtotal</td><td class="n">${money(doc.totals.subtotal)}</td></tr>${doc.totals.discount ? `
+      <tr><td colspan="6" class="n">Discounts</td><td class="n">−${money(doc.totals.discount)}</td></tr>` : ''}${taxes}
+      <tr class="total"><td colspan="6" class="n">Total ${esc(doc.totals.currency)}</td><td class="n">${money(doc.totals.total)}</td></tr>
+    </tfoot>
+  </table>${doc.notes ? `
+  <p>${esc(doc.notes)}</p>` : ''}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,240 @@
+import type { ChatRequest, ModelTurn, TokenUsage } from './llm.js';
+import { readJson, tenantFile, updateJson } from './store.js';
+
+/**
+ * Step, token and cost budgets for the model loop in /api/agent/chat.
+ *
+ * Env (0 = no limit):
+ * - AGENT_MAX_STEPS              model calls per request (default 8)
+ * - AGENT_MAX_TOKENS             tokens per request (default 100000)
+ * - AGENT_MAX_COST_USD           estimated cost per request (default 0.25)
+ * - AGENT_TENANT_DAILY_TOKENS    tokens per tenant per UTC day (default 0)
+ * - AGENT_TENANT_DAILY_COST_USD  estimated cost per tenant per UTC day (default 0)
+ * - AGENT_PRICES                 JSON price table, USD per 1M tokens, merged over PRICES:
+ *                                {"gpt-5-mini":{"input":0.25,"output":2}}
+ *
+ * A request may tighten its own limits ({ budget: { max_steps, ... } }), never
+ * raise them. The check runs before each model call with that call's prompt
+ * estimated from the messages, so a run stops before it goes over rather than
+ * after. Turns without billed usage (scripted model, old cassettes) are
+ * estimated at ~4 characters per token and flagged `estimated`.
+ */
+
+// --- TYPES --------------------------------------------------------------------
+export type BudgetLimits = {
+  max_steps: number;
+  max_tokens: number;
+  max_cost_usd: number;
+  tenant_daily_tokens: number;
+  tenant_daily_cost_usd: number;
+};
+
+export type BudgetStop = 'steps' | 'tokens' | 'cost' | 'tenant_tokens' | 'tenant_cost';
+
+export type Usage = TokenUsage & {
+  model: string;
+  steps: number;
+  cost_usd: number;
+  /** False when the model is not in the price table; cost limits do not apply then. */
+  priced: boolean;
+  /** At least one step had no billed usage and was counted from message length. */
+  estimated: boolean;
+};
+
+/** One tenant's spend for one UTC day (tenants/<id>/agent/usage/<day>.json). */
+export type DailyUsage = TokenUsage & { day: string; requests: number; steps: number; cost_usd: number };
+
+// --- PRICES -------------------------------------------------------------------
+type Price = { input: number; output: number };
+
+/** List prices in USD per 1M tokens; AGENT_PRICES overrides or adds models. */
+export const PRICES: Record<string, Price> = {
+  'gpt-5': { input: 1.25, output: 10 },
+  'gpt-5-mini': { input: 0.25, output: 2 },
+  'gpt-5-nano': { input: 0.05, output: 0.4 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 }
+};
+
+function envPrices(): Record<string, Price> {
+  try {
+    const parsed = JSON.parse(process.env.AGENT_PRICES || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Price for a model; a dated snapshot (gpt-4o-2024-08-06) falls back to its base name. */
+export function priceFor(model: string): Price | undefined {
+  const table = { ...PRICES, ...envPrices() };
+  const base = Object.keys(table).filter(k => model === k || model.startsWith(`${k}-2`)).sort((a, b) => b.length - a.length)[0];
+  const p = base ? table[base] : undefined;
+  return p && Number.isFinite(p.input) && Number.isFinite(p.output) ? p : undefined;
+}
+
+export function costOf(model: string, u: Pick<TokenUsage, 'prompt_tokens' | 'completion_tokens'>) {
+  const p = priceFor(model);
+  return p ? (u.prompt_tokens * p.input + u.completion_tokens * p.output) / 1_000_000 : 0;
+}
+
+// --- LIMITS -------------------------------------------------------------------
+const num = (v: unknown, fallback: number) => {
+  const n = Number(v);
+  return v !== undefined && v !== '' && Number.isFinite(n) && n >= 0 ? n : fallback;
+};
+
+/** Limits from env, tightened by the request's own (a 0 there does not lift an env limit). */
+export function budgetLimits(requested: Partial<BudgetLimits> = {}): BudgetLimits {
+  const env: BudgetLimits = {
+    max_steps: num(process.env.AGENT_MAX_STEPS, 8),
+    max_tokens: num(process.env.AGENT_MAX_TOKENS, 100_000),
+    max_cost_usd: num(process.env.AGENT_MAX_COST_USD, 0.25),
+    tenant_daily_tokens: num(process.env.AGENT_TENANT_DAILY_TOKENS, 0),
+    tenant_daily_cost_usd: num(process.env.AGENT_TENANT_DAILY_COST_USD, 0)
+  };
+  const out = { ...env };
+  for (const k of Object.keys(env) as Array<keyof BudgetLimits>) {
+    const r = num(requested?.[k], 0);
+    if (r > 0) out[k] = env[k] > 0 ? Math.min(env[k], r) : r;
+  }
+  return out;
+}
+
+// --- TRACKER ------------------------------------------------------------------
+const estimate = (v: unknown) => Math.ceil(JSON.stringify(v ?? '').length / 4);
+const day = (now = new Date()) => now.toISOString().slice(0, 10);
+const usageFile = (tenant_id: string, d: string) => tenantFile(tenant_id, `agent/usage/${d}.json`);
+
+function emptyDay(d: string): DailyUsage {
+  return { day: d, requests: 0, steps: 0, prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost_usd: 0 };
+}
+
+export async function tenantUsage(tenant_id: string, d = day()): Promise<DailyUsage> {
+  return readJson<DailyUsage>(usageFile(tenant_id, d), emptyDay(d));
+}
+
+/**
+ * Usage of one request against its limits. `check` before a model call, `add`
+ * after it, `charge` once at the end to count the request on the tenant's day.
+ *
+ * With a daily limit set, `check` reads the stored day total under the file
+ * lock and reserves the call's prompt there, and `add` swaps the reservation
+ * for what the call used: concurrent requests for one tenant see each other's
+ * spend before every call instead of all starting from the same snapshot.
+ */
+export async function openBudget(tenant_id: string, model: string, limits: BudgetLimits) {
+  const today = day();
+  const file = usageFile(tenant_id, today);
+  const daily = !!(limits.tenant_daily_tokens || limits.tenant_daily_cost_usd);
+  const usage: Usage = {
+    model, steps: 0, prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost_usd: 0,
+    priced: !!priceFor(model), estimated: false
+  };
+  // held on the day file for the call in flight
+  let reserved = { tokens: 0, cost_usd: 0 };
+  let charged = false;
+
+  const onDay = (fn: (d: DailyUsage) => DailyUsage) => updateJson<DailyUsage>(file, emptyDay(today), fn);
+  const money = (n: number) => Math.round(n * 1e6) / 1e6;
+
+  return {
+    limits,
+    usage,
+    /** Why the next call (with this request) must not happen, or undefined. */
+    async check(next: ChatRequest): Promise<BudgetStop | undefined> {
+      if (limits.max_steps && usage.steps >= limits.max_steps) return 'steps';
+      // at least the prompt is paid for again, so count it before sending
+      const prompt = estimate(next.messages) + estimate(next.tools);
+      const cost = costOf(model, { prompt_tokens: prompt, completion_tokens: 0 });
+      if (limits.max_tokens && usage.total_tokens + prompt > limits.max_tokens) return 'tokens';
+      if (limits.max_cost_usd && usage.priced && usage.cost_usd + cost > limits.max_cost_usd) return 'cost';
+      if (!daily) return undefined;
+
+      let stop: BudgetStop | undefined;
+      await onDay(d => {
+        // the stored total already holds this request's earlier calls
+        if (limits.tenant_daily_tokens && d.total_tokens + prompt > limits.tenant_daily_tokens) stop = 'tenant_tokens';
+        else if (limits.tenant_daily_cost_usd && usage.priced && d.cost_usd + cost > limits.tenant_daily_cost_usd) stop = 'tenant_cost';
+        if (stop) return d;
+        reserved = { tokens: prompt, cost_usd: cost };
+        return { ...d, total_tokens: d.total_tokens + prompt, cost_usd: money(d.cost_usd + cost) };
+      });
+      return stop;
+    },
+    async add(req: ChatRequest, turn: ModelTurn) {
+      const u = turn.usage || {
+        prompt_tokens: estimate(req.messages) + estimate(req.tools),
+        completion_tokens: estimate(turn.content) + estimate(turn.tool_calls),
+        total_tokens: 0
+      };
+      const total = u.total_tokens || u.prompt_tokens + u.completion_tokens;
+      const before = usage.cost_usd;
+      if (!turn.usage) usage.estimated = true;
+      usage.steps++;
+      usage.prompt_tokens += u.prompt_tokens;
+      usage.completion_tokens += u.completion_tokens;
+      usage.total_tokens += total;
+      usage.cost_usd = money(costOf(model, usage));
+
+      const held = reserved;
+      reserved = { tokens: 0, cost_usd: 0 };
+      await onDay(d => ({
+        ...d,
+        steps: d.steps + 1,
+        prompt_tokens: d.prompt_tokens + u.prompt_tokens,
+        completion_tokens: d.completion_tokens + u.completion_tokens,
+        total_tokens: d.total_tokens - held.tokens + total,
+        cost_usd: money(d.cost_usd - held.cost_usd + usage.cost_usd - before)
+      }));
+    },
+    /**
+     * Count this request on the tenant's day and release a reservation whose
+     * call never came back; later calls are no-ops.
+     */
+    async charge() {
+      if (charged) return;
+      charged = true;
+      const held = reserved;
+      reserved = { tokens: 0, cost_usd: 0 };
+      if (!usage.steps && !held.tokens) return;
+      await onDay(d => ({
+        ...d,
+        requests: d.requests + (usage.steps ? 1 : 0),
+        total_tokens: d.total_tokens - held.tokens,
+        cost_usd: money(d.cost_usd - held.cost_usd)
+      }));
+    }
+  };
+}
+
+export type Budget = Awaited<ReturnType<typeof openBudget>>;
+
+// --- PARTIAL REPLY ------------------------------------------------------------
+const STOPS: Record<BudgetStop, (l: BudgetLimits, u: Usage) => string> = {
+  steps: l => `the step limit for one request (${l.max_steps} model calls)`,
+  tokens: (l, u) => `the token budget for one request (${u.total_tokens} of ${l.max_tokens} used)`,
+  cost: (l, u) => `the cost budget for one request ($${u.cost_usd.toFixed(4)} of $${l.max_cost_usd})`,
+  tenant_tokens: l => `today's token budget for this workspace (${l.tenant_daily_tokens})`,
+  tenant_cost: l => `today's cost budget for this workspace ($${l.tenant_daily_cost_usd})`
+};
+
+/**
+ * Reply for a run the budget ended: why it stopped, what the departments did,
+ * and which planned steps did not run.
+ */
+export function stoppedReply(
+  stop: BudgetStop,
+  budget: Budget,
+  done: Array<{ dept: string; status: string; summary: string }>,
+  pending: Array<{ dept: string; action: string }>
+) {
+  const lines = [`I stopped before finishing: this reached ${STOPS[stop](budget.limits, budget.usage)}.`];
+  if (done.length) lines.push('Done so far:', ...done.map(r => `- ${r.dept} (${r.status}): ${r.summary}`));
+  else lines.push('Nothing was carried out yet.');
+  if (pending.length) lines.push(`Not started: ${pending.map(p => `${p.dept}.${p.action}`).join(', ')}.`);
+  lines.push(stop.startsWith('tenant_') ? 'The daily budget resets at 00:00 UTC.' : 'Send another message to continue from here.');
+  return lines.join('\n');
+}
@@ -0,0 +1,161 @@
+import type { SupportCase } from './adapters/types.js';
+
+/**
+ * Support case lifecycle: statuses, SLA clocks and escalation rules.
+ *
+ *   new → open | pending | solved | closed
+ *   open → pending | solved | closed        pending → open | solved | closed
+ *   solved → open (reopen) | closed          closed is final
+ *
+ * Clocks (wall-clock minutes, per priority):
+ *  - first_response  stops at the first public reply
+ *  - resolution      stops at solved; paused while pending (or solved, until reopened)
+ *
+ * Tenant settings (context.capabilities.support):
+ *  - sla         { urgent: { first_response_min, resolution_min }, high: …, normal: …, low: … }
+ *  - escalation  { on: ['first_response', 'resolution'], bump_priority: true, assign_to?: 'tier2' }
+ */
+
+export const CASE_STATUSES = ['new', 'open', 'pending', 'solved', 'closed'] as const;
+export type CaseStatus = typeof CASE_STATUSES[number];
+
+export const SLA_CLOCKS = ['first_response', 'resolution'] as const;
+export type SlaClock = typeof SLA_CLOCKS[number];
+
+export type SlaPolicy = { first_response_min: number; resolution_min: number };
+
+export type CaseSla = {
+  policy: SlaPolicy;
+  first_response_due: string;
+  resolution_due: string;
+  paused_at?: string;
+  paused_min: number;
+  /** Clock → when its breach was recorded (and escalated). */
+  breached: Partial<Record<SlaClock, string>>;
+};
+
+export type ClockState = {
+  clock: SlaClock;
+  due: string;
+  state: 'running' | 'paused' | 'met' | 'breached';
+  /** Minutes left (negative once overdue); absent when met. */
+  remaining_min?: number;
+};
+
+export type EscalationRules = { on: SlaClock[]; bump_priority: boolean; assign_to?: string };
+
+const TRANSITIONS: Record<CaseStatus, CaseStatus[]> = {
+  new: ['open', 'pending', 'solved', 'closed'],
+  open: ['pending', 'solved', 'closed'],
+  pending: ['open', 'solved', 'closed'],
+  solved: ['open', 'closed'],
+  closed: []
+};
+
+const PRIORITY_ORDER = ['low', 'normal', 'high', 'urgent'];
+
+const DEFAULT_SLA: Record<string, SlaPolicy> = {
+  urgent: { first_response_min: 30, resolution_min: 240 },
+  high: { first_response_min: 60, resolution_min: 480 },
+  normal: { first_response_min: 240, resolution_min: 1440 },
+  low: { first_response_min: 480, resolution_min: 4320 }
+};
+
+const MINUTE = 60_000;
+
+const plus = (iso: string, min: number) => new Date(Date.parse(iso) + min * MINUTE).toISOString();
+
+function supportOf(capabilities: Record<string, unknown> = {}) {
+  return ((capabilities as any)?.support || {}) as Record<string, any>;
+}
+
+// --- POLICY -------------------------------------------------------------------
+export function slaPolicy(capabilities: Record<string, unknown> | undefined, priority: string): SlaPolicy {
+  const base = DEFAULT_SLA[priority] || DEFAULT_SLA.normal;
+  const own = supportOf(capabilities).sla?.[priority] || {};
+  return {
+    first_response_min: Number(own.first_response_min) > 0 ? Number(own.first_response_min) : base.first_response_min,
+    resolution_min: Number(own.resolution_min) > 0 ? Number(own.resolution_min) : base.resolution_min
+  };
+}
+
+export function escalationRules(capabilities?: Record<string, unknown>): EscalationRules {
+  const e = supportOf(capabilities).escalation || {};
+  const on = Array.isArray(e.on) ? e.on.filter((c: string) => (SLA_CLOCKS as readonly string[]).includes(c)) : [...SLA_CLOCKS];
+  return { on, bump_priority: e.bump_priority !== false, ...(typeof e.assign_to === 'string' ? { assign_to: e.assign_to } : {}) };
+}
+
+export function newSla(policy: SlaPolicy, opened_at: string): CaseSla {
+  return {
+    policy,
+    first_response_due: plus(opened_at, policy.first_response_min),
+    resolution_due: plus(opened_at, policy.resolution_min),
+    paused_min: 0,
+    breached: {}
+  };
+}
+
+/** Same clocks re-based on a new policy (priority change), keeping pauses. */
+export function reprioritizedSla(sla: CaseSla, policy: SlaPolicy, opened_at: string): CaseSla {
+  return {
+    ...sla,
+    policy,
+    first_response_due: plus(opened_at, policy.first_response_min),
+    resolution_due: plus(opened_at, policy.resolution_min + sla.paused_min)
+  };
+}
+
+export function nextPriority(priority: string) {
+  const i = PRIORITY_ORDER.indexOf(priority);
+  return i < 0 ? 'high' : PRIORITY_ORDER[Math.min(i + 1, PRIORITY_ORDER.length - 1)];
+}
+
+// --- STATUS -------------------------------------------------------------------
+export function canTransition(from: string, to: CaseStatus) {
+  return from === to || (TRANSITIONS[from as CaseStatus] || []).includes(to);
+}
+
+export function allowedFrom(from: string) {
+  return TRANSITIONS[from as CaseStatus] || [];
+}
+
+/** SLA bookkeeping for a status change at `now`: pause on pending/solved, resume otherwise. */
+export function slaOnStatus(sla: CaseSla, to: CaseStatus, now: string): CaseSla {
+  const pausing = to === 'pending' || to === 'solved' || to === 'closed';
+  if (pausing) return sla.paused_at ? sla : { ...sla, paused_at: now };
+  if (!sla.paused_at) return sla;
+  const paused = Math.round((Date.parse(now) - Date.parse(sla.paused_at)) / MINUTE);
+  const { paused_at: _, ...rest } = sla;
+  return { ...rest, paused_min: sla.paused_min + paused, resolution_due: plus(sla.resolution_due, paused) };
+}
+
+// --- CLOCKS -------------------------------------------------------------------
+export function clocks(c: SupportCase, now = new Date()): ClockState[] {
+  const sla = c.sla as CaseSla | undefined;
+  if (!sla) return [];
+  const left = (due: string) => Math.round((Date.parse(due) - now.getTime()) / MINUTE);
+
+  const responded = typeof c.first_response_at === 'string' ? c.first_response_at : undefined;
+  const first: ClockState = responded
+    ? { clock: 'first_response', due: sla.first_response_due, state: responded > sla.first_response_due ? 'breached' : 'met' }
+    : { clock: 'first_response', due: sla.first_response_due, state: left(sla.first_response_due) < 0 ? 'breached' : 'running', remaining_min: left(sla.first_response_due) };
+
+  const stopped = c.status === 'solved' || c.status === 'closed';
+  const solvedLate = stopped && typeof c.solved_at === 'string' && c.solved_at > sla.resolution_due;
+  const resolution: ClockState = stopped
+    ? { clock: 'resolution', due: sla.resolution_due, state: solvedLate || sla.breached.resolution ? 'breached' : 'met' }
+    : sla.paused_at
+      ? { clock: 'resolution', due: sla.resolution_due, state: 'paused', remaining_min: Math.round((Date.parse(sla.resolution_due) - Date.parse(sla.paused_at)) / MINUTE) }
+      : { clock: 'resolution', due: sla.resolution_due, state: left(sla.resolution_due) < 0 ? 'breached' : 'running', remaining_min: left(sla.resolution_due) };
+
+  return [first, resolution];
+}
+
+/** Clocks that are overdue on a live case and have not been escalated yet. */
+export function unescalatedBreaches(c: SupportCase, rules: EscalationRules, now = new Date()): ClockState[] {
+  if (c.status === 'solved' || c.status === 'closed') return [];
+  const sla = c.sla as CaseSla | undefined;
+  return clocks(c, now).filter(k =>
+    k.state === 'breached' && k.remaining_min !== undefined && rules.on.includes(k.clock) && !sla?.breached[k.clock]
+  );
+}
@@ -0,0 +1,993 @@
+import type { EntityName } from './slots.js';
+import { CASE_STATUSES, SLA_CLOCKS } from './cases.js';
+import { TEMPLATE_IDS } from './legal.js';
+
+/**
+ * Department + action catalog shared by every endpoint.
+ * Files under /api/_lib are not deployed as routes (leading underscore).
+ *
+ * Every action declares a typed input schema. The same schema drives:
+ *  - validation + defaults in the department executor (422 on bad input)
+ *  - slot filling from utterances (`slot` = which extracted entity fills it)
+ */
+
+export type Dept =
+  | 'SALES' | 'MARKETING' | 'ANALYTICS' | 'EXEC' | 'PRODUCT' | 'SECURITY'
+  | 'FACILITIES' | 'PROCUREMENT' | 'LEGAL' | 'IT' | 'HR' | 'FIN' | 'OPS' | 'CS' | 'RESEARCH';
+
+export type FieldType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+export type FieldFormat = 'email' | 'date' | 'datetime' | 'currency' | 'url';
+
+export type FieldSpec = {
+  type: FieldType;
+  description?: string;
+  required?: boolean;
+  enum?: readonly string[];
+  default?: unknown;
+  format?: FieldFormat;
+  min?: number;
+  max?: number;
+  items?: FieldSpec;
+  /** Typed members of an object field. */
+  properties?: Record<string, FieldSpec>;
+  /** Entity (or entities, first present wins) that can fill this field from free text. */
+  slot?: EntityName | EntityName[];
+};
+
+export type ActionSchema = {
+  description: string;
+  fields: Record<string, FieldSpec>;
+  /** Alternative field groups; at least one group must be fully present. */
+  anyOf?: string[][];
+  /** Only reads: an attempt that timed out may be run again (./retry.ts). */
+  readOnly?: boolean;
+};
+
+export type ValidationError = {
+  field: string;
+  code: 'unknown_dept' | 'unknown_action' | 'missing' | 'invalid_type' | 'invalid_enum' | 'invalid_format' | 'out_of_range'
+    | 'not_found' | 'invalid_state' | 'conflict';
+  message: string;
+};
+
+export type ValidationResult =
+  | { ok: true; inputs: Record<string, unknown> }
+  | { ok: false; errors: ValidationError[] };
+
+// --- FIELD BUILDERS -----------------------------------------------------------
+const str = (description: string, extra: Partial<FieldSpec> = {}): FieldSpec => ({ type: 'string', description, ...extra });
+const num = (description: string, extra: Partial<FieldSpec> = {}): FieldSpec => ({ type: 'number', description, ...extra });
+const int = (description: string, extra: Partial<FieldSpec> = {}): FieldSpec => ({ type: 'integer', description, ...extra });
+const bool = (description: string, extra: Partial<FieldSpec> = {}): FieldSpec => ({ type: 'boolean', description, ...extra });
+const list = (description: string, items: FieldSpec, extra: Partial<FieldSpec> = {}): FieldSpec => ({ type: 'array', description, items, ...extra });
+const obj = (description: string, extra: Partial<FieldSpec> = {}): FieldSpec => ({ type: 'object', description, ...extra });
+const oneOf = (description: string, values: readonly string[], def?: string): FieldSpec =>
+  ({ type: 'string', description, enum: values, ...(def !== undefined ? { default: def } : {}) });
+
+const email = (description: string, extra: Partial<FieldSpec> = {}) => str(description, { format: 'email', slot: 'email', ...extra });
+const phone = (description: string, extra: Partial<FieldSpec> = {}) => str(description, { slot: 'phone', ...extra });
+const date = (description: string, extra: Partial<FieldSpec> = {}) => str(description, { format: 'date', slot: 'date', ...extra });
+const datetime = (description: string, extra: Partial<FieldSpec> = {}) => str(description, { format: 'datetime', slot: 'datetime', ...extra });
+const currency = () => str('ISO 4217 currency code', { format: 'currency', default: 'USD', slot: 'currency' });
+const amount = (description = 'Amount in major units', extra: Partial<FieldSpec> = {}) => num(description, { min: 0, slot: 'amount', ...extra });
+const website = (extra: Partial<FieldSpec> = {}) => str('Company website URL', { format: 'url', slot: 'url', ...extra });
+
+const PRIORITY = ['low', 'normal', 'high', 'urgent'] as const;
+const SEVERITY = ['low', 'medium', 'high', 'critical'] as const;
+const PERIOD = ['day', 'week', 'month', 'quarter', 'year'] as const;
+const LINE_ITEM = obj('Quote/invoice line', {
+  properties: {
+    sku: str('SKU / product code'),
+    description: str('What is sold', { required: true }),
+    quantity: num('Quantity', { min: 0, default: 1 }),
+    unit_price: num('Unit price in major units', { required: true, min: 0 }),
+    discount_pct: num('Line discount in percent', { min: 0, max: 100, default: 0 }),
+    tax_rate: num('Tax rate in percent (overrides the document rate)', { min: 0, max: 100 })
+  }
+});
+const ATTENDEE = obj('Meeting attendee', {
+  properties: { name: str('Attendee name'), email: str('Attendee email', { format: 'email' }) }
+});
+const ON_CONFLICT = ['propose', 'next_free'] as const;
+export const PIPELINE_STAGES = ['prospecting', 'qualification', 'proposal', 'negotiation', 'closed_won', 'closed_lost'] as const;
+
+const LEAD_ID = str('Lead id (e.g. from create_or_update_lead)');
+const LEAD_REF = [['lead_id'], ['email'], ['lead_name']];
+const ACTIVITY_TYPES = ['call', 'email', 'meeting', 'note'] as const;
+const DISCLOSING_PARTY = ['us', 'counterparty'] as const;
+const DPA_ROLE = ['controller', 'processor'] as const;
+const VENDOR_DECISIONS = ['approve', 'reject'] as const;
+const VENDOR_QUOTE = obj('Vendor quote', {
+  properties: {
+    vendor: str('Vendor name', { required: true }),
+    amount: num('Quoted total in major units', { required: true, min: 0 }),
+    currency: str('ISO 4217 currency code', { format: 'currency' }),
+    lead_time_days: num('Delivery lead time in days', { min: 0 }),
+    payment_terms: str('Payment terms, e.g. NET 45'),
+    reference: str('Vendor quote reference'),
+    notes: str('Notes')
+  }
+});
+
+// --- ACTION SCHEMAS -----------------------------------------------------------
+export const ACTION_SCHEMAS: Record<Dept, Record<string, ActionSchema>> = {
+  SALES: {
+    create_or_update_lead: {
+      description: 'Create a lead in the CRM, or update it if it already exists.',
+      fields: {
+        lead_name: str('Full name of the lead', { required: true, slot: 'person_name' }),
+        email: email('Lead email'),
+        phone: phone('Lead phone number'),
+        company: str('Company the lead works for', { slot: 'organization' }),
+        source: str('Where the lead came from', { default: 'agent' })
+      }
+    },
+    qualify_lead: {
+      description: 'Record qualification (BANT) for an existing lead.',
+      fields: {
+        lead_id: LEAD_ID,
+        lead_name: str('Lead to qualify', { slot: 'person_name' }),
+        email: email('Lead email'),
+        budget: amount('Budget the lead has available', { slot: undefined }),
+        authority: bool('Lead can sign off on the purchase'),
+        need: str('Problem the lead needs solved'),
+        timeline: str('When the lead wants to buy')
+      },
+      anyOf: LEAD_REF
+    },
+    create_opportunity: {
+      description: 'Open a sales opportunity for a lead or account.',
+      fields: {
+        lead_id: LEAD_ID,
+        lead_name: str('Lead or account name', { slot: ['organization', 'person_name'] }),
+        name: str('Opportunity name'),
+        amount: amount('Expected deal value'),
+        currency: currency(),
+        close_date: date('Expected close date'),
+        stage: str(`Initial pipeline stage (default: the start of the tenant pipeline; stock stages: ${PIPELINE_STAGES.join(', ')})`)
+      },
+      anyOf: [['lead_id'], ['lead_name']]
+    },
+    update_pipeline_stage: {
+      description: 'Move a lead or opportunity to another pipeline stage; illegal moves are rejected.',
+      fields: {
+        opportunity_id: str('Opportunity to move (otherwise the lead itself moves)'),
+        lead_id: LEAD_ID,
+        lead_name: str('Lead or account name', { slot: ['person_name', 'organization'] }),
+        email: email('Lead email'),
+        stage: str(`Target pipeline stage (stock stages: ${PIPELINE_STAGES.join(', ')})`, { required: true }),
+        reason: str('Why it moved')
+      },
+      anyOf: [['opportunity_id'], ...LEAD_REF]
+    },
+    log_activity: {
+      description: 'Append a call, email, meeting or note to a lead timeline.',
+      fields: {
+        lead_id: LEAD_ID,
+        lead_name: str('Lead or account name', { slot: ['person_name', 'organization'] }),
+        email: email('Lead email'),
+        type: oneOf('Activity type', ACTIVITY_TYPES, 'note'),
+        occurred_at: datetime('When the activity happened (default: now)'),
+        notes: str('What happened')
+      },
+      anyOf: LEAD_REF
+    },
+    get_timeline: {
+      description: 'Read a lead timeline (activities and stage changes), oldest first.',
+      readOnly: true,
+      fields: {
+        lead_id: LEAD_ID,
+        lead_name: str('Lead or account name', { slot: ['person_name', 'organization'] }),
+        email: email('Lead email'),
+        type: oneOf('Only this activity type', [...ACTIVITY_TYPES, 'stage_change']),
+        since: datetime('Only activities at or after this time'),
+        limit: int('Most recent N entries', { default: 50, min: 1, max: 500 })
+      },
+      anyOf: LEAD_REF
+    }
+  },
+
+  MARKETING: {
+    create_campaign: {
+      description: 'Create a marketing campaign.',
+      fields: {
+        campaign: str('Campaign name', { default: 'Untitled campaign' }),
+        channel: oneOf('Primary channel', ['email', 'social', 'ads', 'multi'], 'email'),
+        budget: amount('Campaign budget', { slot: undefined }),
+        starts_on: date('Campaign start date')
+      }
+    },
+    send_newsletter: {
+      description: 'Send a newsletter to an audience segment.',
+      fields: {
+        segment: str('Audience segment', { default: 'all_subscribers' }),
+        subject: str('Email subject line'),
+        send_at: datetime('When to send')
+      }
+    },
+    segment_audience: {
+      description: 'Build an audience segment from criteria.',
+      fields: {
+        segment: str('Segment name', { default: 'new_segment' }),
+        criteria: str('Plain-language or query criteria')
+      }
+    },
+    sync_ad_platform: {
+      description: 'Sync an audience or campaign to an ad platform.',
+      fields: {
+        platform: oneOf('Ad platform', ['google_ads', 'meta_ads', 'linkedin_ads'], 'google_ads'),
+        segment: str('Audience segment to sync')
+      }
+    },
+    publish_post: {
+      description: 'Publish a blog or social post.',
+      fields: {
+        channel: oneOf('Where to publish', ['blog', 'linkedin', 'x', 'facebook'], 'blog'),
+        title: str('Post title'),
+        url: str('Link to include', { format: 'url', slot: 'url' }),
+        publish_at: datetime('When to publish')
+      }
+    }
+  },
+
+  ANALYTICS: {
+    track_event: {
+      description: 'Record an analytics event.',
+      fields: {
+        event: str('Event name', { default: 'agent_event' }),
+        properties: obj('Event properties')
+      }
+    },
+    run_report: {
+      description: 'Run a named analytics report.',
+      readOnly: true,
+      fields: {
+        report: str('Report name', { default: 'weekly_summary' }),
+        period: oneOf('Reporting period', PERIOD, 'week')
+      }
+    },
+    build_dashboard: {
+      description: 'Create a dashboard from a list of metrics.',
+      fields: {
+        dashboard: str('Dashboard name', { default: 'Operations overview' }),
+        metrics: list('Metrics to chart', str('Metric name'))
+      }
+    },
+    kpi_snapshot: {
+      description: 'Snapshot current KPI values.',
+      readOnly: true,
+      fields: {
+        period: oneOf('Snapshot period', PERIOD, 'week'),
+        metrics: list('KPIs to include', str('Metric name'))
+      }
+    }
+  },
+
+  EXEC: {
+    summarize_okrs: {
+      description: 'Summarize OKR progress for a quarter.',
+      readOnly: true,
+      fields: { quarter: str('Quarter, e.g. 2026-Q4') }
+    },
+    board_report: {
+      description: 'Prepare a board report for a period.',
+      readOnly: true,
+      fields: { period: oneOf('Reporting period', ['month', 'quarter', 'year'], 'quarter') }
+    },
+    daily_digest: {
+      description: 'Digest of everything departments did in a time window.',
+      readOnly: true,
+      fields: {
+        date: date('Day to summarize (defaults to today)'),
+        window_hours: int('Look-back window in hours', { default: 24, min: 1, max: 24 * 31 }),
+        email_to: email('Also email the digest to this address')
+      }
+    }
+  },
+
+  PRODUCT: {
+    collect_feedback: {
+      description: 'Log product feedback.',
+      fields: {
+        feedback: str('Feedback text'),
+        source: str('Who/where it came from', { default: 'agent' })
+      }
+    },
+    prioritize_backlog: {
+      description: 'Re-prioritize the product backlog.',
+      fields: { method: oneOf('Prioritization framework', ['rice', 'moscow', 'wsjf'], 'rice') }
+    },
+    create_spec: {
+      description: 'Draft a product spec / PRD.',
+      fields: {
+        title: str('Spec title', { default: 'Untitled spec' }),
+        problem: str('Problem statement')
+      }
+    },
+    create_ticket: {
+      description: 'File a product/engineering ticket (bug or feature).',
+      fields: {
+        title: str('Ticket title', { default: 'Untitled ticket' }),
+        severity: oneOf('Severity', SEVERITY, 'medium')
+      }
+    }
+  },
+
+  SECURITY: {
+    risk_assessment: {
+      description: 'Run a risk assessment for an asset or vendor.',
+      fields: { asset: str('Asset, system or vendor under review'), scope: str('Assessment scope') }
+    },
+    access_review: {
+      description: 'Review who has access to a system.',
+      fields: { system: str('System to review'), reviewer: str('Reviewer', { slot: 'person_name' }) }
+    },
+    incident_intake: {
+      description: 'Open a security incident.',
+      fields: {
+        severity: oneOf('Severity', SEVERITY, 'medium'),
+        description: str('What happened'),
+        reported_by: str('Reporter', { slot: 'person_name' })
+      }
+    },
+    generate_vulnerability_report: {
+      description: 'Compile a vulnerability report.',
+      fields: { target: str('System or URL', { slot: 'url' }), scope: str('Report scope') }
+    }
+  },
+
+  FACILITIES: {
+    create_work_order: {
+      description: 'Open a facilities work order.',
+      fields: {
+        location: str('Building / room'),
+        issue: str('What needs fixing'),
+        priority: oneOf('Priority', PRIORITY, 'normal')
+      }
+    },
+    schedule_maintenance: {
+      description: 'Schedule preventive maintenance.',
+      fields: { asset: str('Equipment to service'), when: datetime('When to schedule it') }
+    },
+    log_incident: {
+      description: 'Log a facilities incident (injury, spill, damage).',
+      fields: {
+        location: str('Where it happened'),
+        description: str('What happened'),
+        severity: oneOf('Severity', SEVERITY, 'medium')
+      }
+    }
+  },
+
+  PROCUREMENT: {
+    create_po: {
+      description: 'Issue a numbered purchase order to an approved vendor, from a compared quote or explicit lines.',
+      fields: {
+        quote_id: str('Quote to order from (compare_quotes ranking)'),
+        comparison_id: str('Comparison whose recommended quote to order from'),
+        vendor: str('Vendor name', { slot: ['vendor', 'organization'] }),
+        amount: amount('PO total'),
+        line_items: list('What is ordered', LINE_ITEM),
+        currency: currency(),
+        terms: str('Payment terms (defaults to the quote\'s, else NET 30)', { slot: 'payment_terms' }),
+        delivery_date: date('Requested delivery date'),
+        notes: str('Notes for the vendor')
+      },
+      anyOf: [['quote_id'], ['comparison_id'], ['vendor', 'amount'], ['vendor', 'line_items']]
+    },
+    vendor_intake: {
+      description: 'Register a vendor or update its intake questionnaire; approve or reject it once complete.',
+      fields: {
+        vendor: str('Vendor name', { required: true, slot: ['vendor', 'organization'] }),
+        contact_email: email('Vendor contact email'),
+        contact_phone: phone('Vendor contact phone'),
+        category: str('What the vendor supplies'),
+        website: website(),
+        answers: obj('Questionnaire answers by question id (legal_name, tax_id, country, sanctions_screened, ...)'),
+        decision: oneOf('Reviewer decision', VENDOR_DECISIONS),
+        note: str('Reason for the decision')
+      }
+    },
+    compare_quotes: {
+      description: 'Score vendor quotes on weighted criteria and recommend one.',
+      fields: {
+        quotes: list('Vendor quotes to compare', VENDOR_QUOTE, { required: true }),
+        criteria: obj('Criteria weights (tenant defaults when absent)', {
+          properties: {
+            price: num('Weight of price', { min: 0 }),
+            lead_time: num('Weight of lead time', { min: 0 }),
+            terms: num('Weight of payment terms', { min: 0 }),
+            risk: num('Weight of vendor risk', { min: 0 })
+          }
+        }),
+        subject: str('What is being bought'),
+        currency: currency()
+      }
+    },
+    renew_contract: {
+      description: 'Track a vendor contract, renew it, or list contracts approaching renewal.',
+      fields: {
+        vendor: str('Vendor name (all contracts when absent)', { slot: ['vendor', 'organization'] }),
+        renewal_date: date('Renewal / end date'),
+        amount: amount('Contract value per term'),
+        currency: currency(),
+        auto_renew: bool('Renews automatically unless cancelled'),
+        notice_days: int('Cancellation notice in days', { min: 0 }),
+        term_months: int('Renewal term in months', { min: 1 }),
+        renew: bool('Renew now (moves the renewal date out by one term)'),
+        within_days: int('Flag contracts renewing within this many days', { min: 1 })
+      }
+    }
+  },
+
+  LEGAL: {
+    generate_msa: {
+      description: 'Draft a master services agreement from the standard template.',
+      fields: {
+        counterparty: str('Other party', { required: true, slot: ['organization', 'vendor'] }),
+        counterparty_address: str('Registered address of the other party'),
+        effective_date: date('Effective date (defaults to today)'),
+        governing_law: str('Governing law, e.g. New York'),
+        term_months: int('Initial term in months', { min: 1 }),
+        liability_cap: amount('Cap on each party\'s total liability'),
+        currency: currency(),
+        payment_terms: str('Invoice payment terms, e.g. NET 30'),
+        notice_days: int('Termination notice in days', { min: 1 }),
+        doc_type: str('Document type', { default: 'MSA' })
+      }
+    },
+    nda_intake: {
+      description: 'Draft a mutual or one-way NDA from the standard template.',
+      fields: {
+        counterparty: str('Other party', { required: true, slot: ['organization', 'vendor', 'person_name'] }),
+        counterparty_address: str('Registered address of the other party'),
+        mutual: bool('Mutual NDA', { default: true }),
+        disclosing_party: oneOf('Who discloses under a one-way NDA', DISCLOSING_PARTY, 'us'),
+        purpose: str('Why information is shared'),
+        effective_date: date('Effective date (defaults to today)'),
+        governing_law: str('Governing law, e.g. New York'),
+        term_months: int('Months during which disclosures are covered', { min: 1 }),
+        confidentiality_years: int('Years each disclosure stays confidential', { min: 1 }),
+        doc_type: str('Document type', { default: 'NDA' })
+      }
+    },
+    review_contract: {
+      description: 'Diff a contract clause by clause against our standard template and flag deviations.',
+      fields: {
+        contract_text: str('Contract text to review', { required: true }),
+        template: oneOf('Standard template to compare with (detected from the title when absent)', TEMPLATE_IDS),
+        counterparty: str('Other party', { slot: ['organization', 'vendor'] }),
+        doc_type: str('Document type', { default: 'contract' })
+      }
+    },
+    dpa_request: {
+      description: 'Draft a data processing agreement from the standard template.',
+      fields: {
+        counterparty: str('Other party', { required: true, slot: ['organization', 'vendor'] }),
+        counterparty_address: str('Registered address of the other party'),
+        our_role: oneOf('Our role under the DPA', DPA_ROLE, 'controller'),
+        processing_purpose: str('Purpose of the processing'),
+        data_categories: list('Categories of personal data', str('Category, e.g. contact details')),
+        data_subjects: list('Categories of data subjects', str('Category, e.g. customers')),
+        subprocessors: list('Sub-processors authorised at signature', str('Sub-processor name')),
+        breach_notice_hours: int('Hours to notify a personal data breach', { min: 1 }),
+        effective_date: date('Effective date (defaults to today)'),
+        governing_law: str('Governing law, e.g. Ireland'),
+        doc_type: str('Document type', { default: 'DPA' })
+      }
+    }
+  },
+
+  IT: {
+    provision_access: {
+      description: 'Grant an employee access to a system.',
+      fields: {
+        employee: str('Employee name', { required: true, slot: 'person_name' }),
+        email: email('Employee email'),
+        system: str('System / app to grant'),
+        role: str('Role or permission level')
+      }
+    },
+    reset_password: {
+      description: 'Reset a password / MFA for an employee.',
+      fields: {
+        employee: str('Employee name', { slot: 'person_name' }),
+        email: email('Employee email'),
+        system: str('System the password is for')
+      }
+    },
+    asset_intake: {
+      description: 'Register or request IT hardware.',
+      fields: {
+        asset_type: oneOf('Asset type', ['laptop', 'monitor', 'phone', 'peripheral', 'other'], 'laptop'),
+        employee: str('Assigned employee', { slot: 'person_name' }),
+        serial: str('Serial number')
+      }
+    },
+    create_ticket: {
+      description: 'Open an IT helpdesk ticket.',
+      fields: {
+        request: str('What is needed'),
+        priority: oneOf('Priority', PRIORITY, 'normal')
+      }
+    }
+  },
+
+  HR: {
+    new_hire: {
+      description: 'Start onboarding for a new hire.',
+      fields: {
+        employee: str('New hire name', { required: true, slot: 'person_name' }),
+        email: email('Personal or work email'),
+        start_date: date('First day'),
+        role: str('Job title'),
+        manager: str('Hiring manager')
+      }
+    },
+    offboarding: {
+      description: 'Start offboarding for a leaving employee.',
+      fields: {
+        employee: str('Employee name', { required: true, slot: 'person_name' }),
+        last_day: date('Last working day')
+      }
+    },
+    policy_answer: {
+      description: 'Answer an HR policy question.',
+      readOnly: true,
+      fields: { question: str('The question') }
+    },
+    pto_request: {
+      description: 'Request paid time off.',
+      fields: {
+        employee: str('Employee name', { slot: 'person_name' }),
+        start_date: date('First day off'),
+        end_date: str('Last day off', { format: 'date' }),
+        days: num('Number of days', { min: 0.5 })
+      }
+    }
+  },
+
+  FIN: {
+    draft_quote: {
+      description: 'Draft a numbered customer quote from line items (or a single amount), with tax and payment terms.',
+      fields: {
+        customer: str('Customer name', { required: true, slot: ['organization', 'person_name'] }),
+        customer_email: email('Customer billing email', { slot: undefined }),
+        line_items: list('Quote lines', LINE_ITEM),
+        amount: amount('Quote total when there are no line items (one line)'),
+        tax_rate: num('Default tax rate in percent for every line', { min: 0, max: 100, default: 0 }),
+        currency: currency(),
+        terms: str('Payment terms, e.g. "NET 30", "NET 15 EOM", "Due on receipt"', { default: 'NET 30', slot: 'payment_terms' }),
+        valid_days: int('Days the quote stays valid', { min: 1, max: 365, default: 30 })
+      },
+      anyOf: [['line_items'], ['amount']]
+    },
+    accept_quote: {
+      description: 'Mark a sent/draft quote as accepted by the customer.',
+      fields: {
+        quote_number: str('Quote number, e.g. Q-00001', { required: true }),
+        accepted_by: str('Who accepted it', { slot: 'person_name' })
+      }
+    },
+    invoice_issue: {
+      description: 'Issue an invoice: from an accepted quote (quote_number) or directly for a customer.',
+      fields: {
+        quote_number: str('Accepted quote to invoice, e.g. Q-00001'),
+        customer: str('Customer name', { slot: ['organization', 'person_name'] }),
+        line_items: list('Invoice lines (without a quote)', LINE_ITEM),
+        amount: amount('Invoice total (without a quote or line items)'),
+        tax_rate: num('Default tax rate in percent for every line', { min: 0, max: 100 }),
+        currency: str('ISO 4217 currency code (defaults to the quote or USD)', { format: 'currency', slot: 'currency' }),
+        terms: str('Payment terms (defaults to the quote or NET 30)', { slot: 'payment_terms' }),
+        issue_date: date('Invoice date (default: today)', { slot: undefined })
+      },
+      anyOf: [['quote_number'], ['customer', 'line_items'], ['customer', 'amount']]
+    },
+    expense_approve: {
+      description: 'Approve an employee expense.',
+      fields: {
+        amount: amount('Expense amount', { required: true }),
+        currency: currency(),
+        employee: str('Employee who spent it', { slot: 'person_name' }),
+        category: str('Expense category')
+      }
+    },
+    revenue_report: {
+      description: 'Revenue from invoices issued in the current period (tenant-local), per currency.',
+      readOnly: true,
+      fields: { period: oneOf('Reporting period', PERIOD, 'month') }
+    }
+  },
+
+  OPS: {
+    schedule_meeting: {
+      description: 'Book a meeting in the first free slot (or at `start`); returns an .ics invite, or alternatives when `start` is taken.',
+      fields: {
+        start: datetime('Requested start (tenant-local); omit to take the first free slot'),
+        earliest: datetime('Search for free slots from here (default: now)'),
+        within_days: int('How many days ahead to search', { default: 14, min: 1, max: 90 }),
+        length_min: int('Length in minutes', { default: 30, min: 5, max: 480, slot: 'duration_min' }),
+        buffer_min: int('Minutes kept free before and after (default: tenant scheduling.buffer_min)', { min: 0, max: 240 }),
+        calendar: str('Calendar to book on', { default: 'owner' }),
+        title: str('Meeting title'),
+        location: str('Where, or a video link'),
+        attendee: str('Attendee name', { slot: 'person_name' }),
+        attendee_email: email('Attendee email'),
+        attendees: list('Attendees (their other meetings also block slots)', ATTENDEE),
+        on_conflict: oneOf('When `start` is taken: propose alternatives, or book the next free slot', ON_CONFLICT, 'propose')
+      }
+    },
+    reschedule_meeting: {
+      description: 'Move a booked meeting; keeps its event UID so invites update in place.',
+      fields: {
+        event_uid: str('UID of the booked event', { required: true }),
+        start: datetime('New start (tenant-local)', { required: true }),
+        length_min: int('New length in minutes (default: unchanged)', { min: 5, max: 480, slot: 'duration_min' }),
+        buffer_min: int('Minutes kept free before and after (default: tenant scheduling.buffer_min)', { min: 0, max: 240 }),
+        on_conflict: oneOf('When `start` is taken: propose alternatives, or take the next free slot', ON_CONFLICT, 'propose')
+      }
+    },
+    cancel_meeting: {
+      description: 'Cancel a booked meeting; returns a METHOD:CANCEL invite for the same UID.',
+      fields: {
+        event_uid: str('UID of the booked event', { required: true }),
+        reason: str('Why it is cancelled')
+      }
+    },
+    create_task: {
+      description: 'Create an operations task.',
+      fields: {
+        title: str('Task title', { default: 'Follow up' }),
+        assignee: str('Assignee', { slot: 'person_name' }),
+        due: date('Due date')
+      }
+    },
+    assign_dispatch: {
+      description: 'Dispatch a technician / crew.',
+      fields: {
+        assignee: str('Technician or crew', { slot: 'person_name' }),
+        when: datetime('Dispatch time'),
+        location: str('Where to go'),
+        contact_phone: phone('On-site contact phone')
+      }
+    },
+    update_sop: {
+      description: 'Update a standard operating procedure.',
+      fields: { sop: str('SOP name'), change: str('What changes') }
+    }
+  },
+
+  CS: {
+    create_ticket: {
+      description: 'Open a customer support case (status new) with first-response and resolution SLA clocks.',
+      fields: {
+        customer: str('Customer name', { slot: ['person_name', 'organization'] }),
+        customer_email: email('Customer email'),
+        customer_phone: phone('Customer phone'),
+        subject: str('Case subject'),
+        description: str('What the customer needs'),
+        priority: oneOf('Priority (sets the SLA targets)', PRIORITY, 'normal')
+      }
+    },
+    update_case: {
+      description: 'Reply on, re-prioritize or move a case (new/open/pending/solved/closed); solving sends a CSAT survey.',
+      fields: {
+        case_id: str('Case to update', { required: true }),
+        status: oneOf('New status', CASE_STATUSES),
+        priority: oneOf('New priority', PRIORITY),
+        reply: str('Public reply emailed to the customer (stops the first-response clock)'),
+        note: str('Internal note')
+      }
+    },
+    auto_reply: {
+      description: 'Send an automatic acknowledgement (does not stop the first-response clock).',
+      fields: {
+        customer_email: email('Customer email', { required: true }),
+        case_id: str('Case the reply is about'),
+        message: str('Reply body')
+      }
+    },
+    escalate_case: {
+      description: 'Escalate a support case (raises its level and, per tenant rules, its priority).',
+      fields: {
+        case_id: str('Case to escalate', { required: true }),
+        reason: str('Why it is escalated'),
+        clock: oneOf('SLA clock that was breached (set by the SLA sweep)', SLA_CLOCKS)
+      }
+    },
+    csat_request: {
+      description: 'Send a customer satisfaction survey.',
+      fields: {
+        customer_email: email('Customer email (default: the case contact)'),
+        case_id: str('Case the survey is about')
+      },
+      anyOf: [['customer_email'], ['case_id']]
+    },
+    record_csat: {
+      description: 'Record the customer satisfaction score (1-5) for a case.',
+      fields: {
+        case_id: str('Case the score is for', { required: true }),
+        score: int('Score from 1 (bad) to 5 (great)', { required: true, min: 1, max: 5 }),
+        comment: str('Customer comment')
+      }
+    }
+  },
+
+  RESEARCH: {
+    build_kb: {
+      description: 'Build a knowledge base for a company website.',
+      fields: { website: website({ required: true }) }
+    },
+    company_profile: {
+      description: 'Profile a company from its website.',
+      fields: { website: website(), company_name: str('Company name', { slot: 'organization' }) }
+    },
+    crawl_pages: {
+      description: 'Plan / run a crawl of a website.',
+      fields: { website: website({ required: true }) }
+    },
+    faq_extract: {
+      description: 'Extract FAQs from a website.',
+      fields: { website: website() }
+    }
+  }
+};
+
+// Every action also accepts free-text notes (the utterance clause, reviewer remarks, …).
+const COMMON_FIELDS: Record<string, FieldSpec> = {
+  notes: str('Free-text notes')
+};
+
+// --- ACTION CATALOG -----------------------------------------------------------
+export const ACTION_CATALOG = Object.fromEntries(
+  Object.entries(ACTION_SCHEMAS).map(([dept, actions]) => [dept, Object.keys(actions)])
+) as Record<Dept, string[]>;
+
+export const DEPTS = Object.keys(ACTION_CATALOG) as Dept[];
+
+export function isDept(x: unknown): x is Dept {
+  return typeof x === 'string' && (DEPTS as string[]).includes(x);
+}
+
+export function isCatalogAction(dept: Dept, action: string) {
+  return ACTION_CATALOG[dept].includes(action);
+}
+
+export function schemaFor(dept: Dept, action: string): ActionSchema | undefined {
+  const s = ACTION_SCHEMAS[dept]?.[action];
+  return s ? { ...s, fields: { ...s.fields, ...COMMON_FIELDS } } : undefined;
+}
+
+/** Actions marked readOnly; everything else may create or change records. */
+export function isReadOnly(dept: Dept, action: string) {
+  return !!ACTION_SCHEMAS[dept]?.[action]?.readOnly;
+}
+
+// --- VALIDATION ---------------------------------------------------------------
+const FORMATS: Record<FieldFormat, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  datetime: /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?$/,
+  currency: /^[A-Z]{3}$/,
+  url: /^https?:\/\/\S+$/i
+};
+
+/** Lenient coercion for values that arrive as strings (LLM tool calls, forms). */
+function coerce(spec: FieldSpec, v: unknown): unknown {
+  if (typeof v !== 'string') return v;
+  const s = v.trim();
+  if ((spec.type === 'number' || spec.type === 'integer') && s !== '' && !Number.isNaN(Number(s))) return Number(s);
+  if (spec.type === 'boolean' && /^(true|false)$/i.test(s)) return s.toLowerCase() === 'true';
+  if (spec.format === 'currency') return s.toUpperCase();
+  return v;
+}
+
+/** coerce() applied through array items and typed object members (+ their defaults). */
+function normalize(spec: FieldSpec, v: unknown): unknown {
+  const c = coerce(spec, v);
+  if (spec.type === 'array' && spec.items && Array.isArray(c)) return c.map(x => normalize(spec.items!, x));
+  if (spec.type === 'object' && spec.properties && c && typeof c === 'object' && !Array.isArray(c)) {
+    const out: Record<string, unknown> = { ...(c as Record<string, unknown>) };
+    for (const [k, p] of Object.entries(spec.properties)) {
+      if (out[k] === undefined || out[k] === null || out[k] === '') {
+        if (p.default !== undefined) out[k] = p.default; else delete out[k];
+      } else {
+        out[k] = normalize(p, out[k]);
+      }
+    }
+    return out;
+  }
+  return c;
+}
+
+function checkField(field: string, spec: FieldSpec, v: unknown): ValidationError | undefined {
+  const fail = (code: ValidationError['code'], message: string) => ({ field, code, message });
+  switch (spec.type) {
+    case 'string': if (typeof v !== 'string') return fail('invalid_type', `${field} must be a string`); break;
+    case 'number': if (typeof v !== 'number' || !Number.isFinite(v)) return fail('invalid_type', `${field} must be a number`); break;
+    case 'integer': if (!Number.isInteger(v)) return fail('invalid_type', `${field} must be an integer`); break;
+    case 'boolean': if (typeof v !== 'boolean') return fail('invalid_type', `${field} must be a boolean`); break;
+    case 'array': if (!Array.isArray(v)) return fail('invalid_type', `${field} must be an array`); break;
+    case 'object': if (!v || typeof v !== 'object' || Array.isArray(v)) return fail('invalid_type', `${field} must be an object`); break;
+  }
+  if (spec.enum && !spec.enum.includes(v as string)) return fail('invalid_enum', `${field} must be one of: ${spec.enum.join(', ')}`);
+  if (spec.format && !FORMATS[spec.format].test(String(v))) return fail('invalid_format', `${field} must be a valid ${spec.format}`);
+  if (typeof v === 'number') {
+    if (spec.min !== undefined && v < spec.min) return fail('out_of_range', `${field} must be >= ${spec.min}`);
+    if (spec.max !== undefined && v > spec.max) return fail('out_of_range', `${field} must be <= ${spec.max}`);
+  }
+  if (spec.type === 'array' && spec.items) {
+    for (const [i, item] of (v as unknown[]).entries()) {
+      const err = checkField(`${field}[${i}]`, spec.items, item);
+      if (err) return err;
+    }
+  }
+  if (spec.type === 'object' && spec.properties) {
+    for (const [k, p] of Object.entries(spec.properties)) {
+      const item = (v as Record<string, unknown>)[k];
+      if (item === undefined) {
+        if (p.required) return { field: `${field}.${k}`, code: 'missing', message: `${field}.${k} is required` };
+        continue;
+      }
+      const err = checkField(`${field}.${k}`, p, item);
+      if (err) return err;
+    }
+  }
+  return undefined;
+}
+
+/** Fields of the closest-to-complete anyOf group that are still missing ([] when one group is complete). */
+export function missingFromGroups(groups: string[][] | undefined, has: (field: string) => boolean): string[] {
+  if (!groups?.length) return [];
+  const gaps = groups.map(g => g.filter(f => !has(f)));
+  if (gaps.some(g => !g.length)) return [];
+  return gaps.reduce((best, g) => (g.length < best.length ? g : best));
+}
+
+function defaultsOf(schema: ActionSchema | undefined) {
+  const defaults: Record<string, unknown> = {};
+  for (const [k, spec] of Object.entries(schema?.fields || {})) {
+    if (spec.default !== undefined) defaults[k] = spec.default;
+  }
+  return defaults;
+}
+
+/** Schema defaults under caller-provided inputs (no validation). */
+export function applyDefaults(dept: Dept, action: string, inputs: Record<string, unknown> = {}) {
+  return { ...defaultsOf(schemaFor(dept, action)), ...inputs };
+}
+
+/**
+ * Validate ticket inputs against the action schema: rejects unknown
+ * departments/actions, missing required fields, wrong types, enums and formats.
+ * Unknown input keys are passed through untouched.
+ */
+export function validateInputs(dept: string, action: string, inputs: unknown): ValidationResult {
+  if (!isDept(dept)) return { ok: false, errors: [{ field: 'dept', code: 'unknown_dept', message: `Unknown department: ${dept}` }] };
+  const schema = schemaFor(dept, action);
+  if (!schema) {
+    return {
+      ok: false,
+      errors: [{ field: 'action', code: 'unknown_action', message: `${dept} has no action "${action}" (expected one of: ${ACTION_CATALOG[dept].join(', ')})` }]
+    };
+  }
+  return validateAgainst(schema, inputs);
+}
+
+/** validateInputs() for a schema that is not in the catalog (the agent's built-in tools). */
+export function validateAgainst(schema: ActionSchema, inputs: unknown): ValidationResult {
+  if (inputs !== undefined && (typeof inputs !== 'object' || inputs === null || Array.isArray(inputs))) {
+    return { ok: false, errors: [{ field: 'inputs', code: 'invalid_type', message: 'inputs must be an object' }] };
+  }
+
+  const out: Record<string, unknown> = { ...defaultsOf(schema), ...(inputs as Record<string, unknown> | undefined) };
+  const errors: ValidationError[] = [];
+  for (const [field, spec] of Object.entries(schema.fields)) {
+    const v = out[field];
+    if (v === undefined || v === null || v === '') {
+      delete out[field];
+      if (spec.required) errors.push({ field, code: 'missing', message: `${field} is required` });
+      continue;
+    }
+    out[field] = normalize(spec, v);
+    const err = checkField(field, spec, out[field]);
+    if (err) errors.push(err);
+  }
+  for (const field of missingFromGroups(schema.anyOf, f => out[f] !== undefined)) {
+    const alternatives = schema.anyOf!.map(g => g.join(' + ')).join(' | ');
+    errors.push({ field, code: 'missing', message: `${field} is required (one of: ${alternatives})` });
+  }
+  return errors.length ? { ok: false, errors } : { ok: true, inputs: out };
+}
+
+// --- JSON SCHEMA / TOOL DESCRIPTORS ------------------------------------------
+export type JsonSchema = Record<string, unknown>;
+
+export type CatalogEntry = {
+  dept: Dept;
+  action: string;
+  /** Stable LLM tool name, e.g. "sales__create_or_update_lead". */
+  tool: string;
+  description: string;
+  input_schema: JsonSchema;
+};
+
+const FORMAT_HINTS: Record<FieldFormat, JsonSchema> = {
+  email: { format: 'email' },
+  date: { format: 'date' },
+  datetime: { pattern: FORMATS.datetime.source, description: 'YYYY-MM-DDTHH:MM, tenant-local unless an offset is given' },
+  currency: { pattern: FORMATS.currency.source },
+  url: { format: 'uri' }
+};
+
+function fieldSchema(spec: FieldSpec): JsonSchema {
+  const hint = spec.format ? FORMAT_HINTS[spec.format] : {};
+  const description = [spec.description, hint.description].filter(Boolean).join(' — ');
+  return {
+    type: spec.type,
+    ...hint,
+    ...(description ? { description } : {}),
+    ...(spec.enum ? { enum: [...spec.enum] } : {}),
+    ...(spec.default !== undefined ? { default: spec.default } : {}),
+    ...(spec.min !== undefined ? { minimum: spec.min } : {}),
+    ...(spec.max !== undefined ? { maximum: spec.max } : {}),
+    ...(spec.items ? { items: fieldSchema(spec.items) } : {}),
+    ...(spec.properties ? objectSchema(spec.properties) : {})
+  };
+}
+
+function objectSchema(fields: Record<string, FieldSpec>): JsonSchema {
+  const required = Object.entries(fields).filter(([, s]) => s.required).map(([k]) => k);
+  return {
+    properties: Object.fromEntries(Object.entries(fields).map(([k, s]) => [k, fieldSchema(s)])),
+    ...(required.length ? { required } : {})
+  };
+}
+
+/** JSON Schema for an action's inputs (unknown keys stay allowed, as in validateInputs). */
+export function inputJsonSchema(dept: Dept, action: string): JsonSchema | undefined {
+  const schema = schemaFor(dept, action);
+  return schema ? jsonSchemaOf(schema) : undefined;
+}
+
+export function jsonSchemaOf(schema: ActionSchema): JsonSchema {
+  return {
+    type: 'object',
+    ...objectSchema(schema.fields),
+    ...(schema.anyOf ? { anyOf: schema.anyOf.map(g => ({ required: g })) } : {}),
+    additionalProperties: true
+  };
+}
+
+export function toolNameFor(dept: Dept, action: string) {
+  return `${dept.toLowerCase()}__${action}`;
+}
+
+/** Inverse of toolNameFor; undefined for names that are not catalog actions. */
+export function parseToolName(name: string): { dept: Dept; action: string } | undefined {
+  const m = String(name).match(/^([a-z]+)__([a-z0-9_]+)$/);
+  const dept = m?.[1].toUpperCase();
+  if (!m || !isDept(dept) || !isCatalogAction(dept, m[2])) return undefined;
+  return { dept, action: m[2] };
+}
+
+/** Every department/action with its description and input schema (GET /api/dept/catalog). */
+export function describeCatalog(filter: { dept?: Dept } = {}): CatalogEntry[] {
+  return DEPTS.filter(d => !filter.dept || d === filter.dept).flatMap(dept =>
+    ACTION_CATALOG[dept].map(action => ({
+      dept,
+      action,
+      tool: toolNameFor(dept, action),
+      description: ACTION_SCHEMAS[dept][action].description,
+      input_schema: inputJsonSchema(dept, action)!
+    }))
+  );
+}
+
+/** OpenAI-style function tool for one catalog entry; arguments are the action inputs. */
+export function toolDefinition(entry: CatalogEntry) {
+  return {
+    type: 'function' as const,
+    function: { name: entry.tool, description: `[${entry.dept}] ${entry.description}`, parameters: entry.input_schema }
+  };
+}
@@ -0,0 +1,304 @@
+import { formatValue, type LegalTemplate, type Money, type Party, type TemplateId } from './legal.js';
+
+/**
+ * Contract review: split a submitted contract into clauses, pair them with the
+ * tenant's standard template and diff each pair word by word.
+ *
+ * Template placeholders match whatever the other side wrote there, so filled-in
+ * names, dates and amounts are not deviations by themselves; the values found
+ * are returned and compared with the expected ones (governing law, caps, ...).
+ *
+ * Flags:
+ *  - missing clause        high if the clause is critical, else low
+ *  - modified clause       high/medium on critical clauses (by how much changed), else medium/low
+ *  - added clause          medium, high when it contains risky wording
+ *  - risky wording         in their clause but not ours (uncapped liability, auto-renewal, ...)
+ *  - variable mismatch     e.g. governing law or liability cap differs from ours
+ */
+
+export type ClauseStatus = 'match' | 'modified' | 'missing' | 'added';
+export type Severity = 'high' | 'medium' | 'low';
+
+export type ClauseReview = {
+  id?: string;
+  heading: string;
+  status: ClauseStatus;
+  critical: boolean;
+  submitted_heading?: string;
+  similarity?: number;
+  /** Word diff, git --word-diff style: [-ours-]{+theirs+}. */
+  redline?: string;
+};
+
+export type ReviewFlag = { severity: Severity; clause: string; message: string };
+
+export type ContractReview = {
+  template: TemplateId;
+  title: string;
+  clauses: ClauseReview[];
+  variables: Record<string, string>;
+  flags: ReviewFlag[];
+  counts: Record<ClauseStatus, number>;
+  risk: Severity | 'none';
+};
+
+type SubmittedClause = { heading: string; body: string };
+
+const MATCH_THRESHOLD = 0.97;
+const PAIR_THRESHOLD = 0.4;
+/** Below this a placeholder's "value" is likely just whatever word lined up with it. */
+const VALUE_THRESHOLD = 0.6;
+const MAX_DIFF_CELLS = 400_000;
+
+const RISKY: Array<[RegExp, string]> = [
+  [/\bunlimited liability\b|\buncapped\b|\bwithout (any )?limit(ation)?\b/i, 'uncapped liability'],
+  [/\bautomatic(ally)? renew|\brenew(s|ed)? automatically\b|\bauto-?renew/i, 'automatic renewal'],
+  [/\bexclusiv(e|ity)\b/i, 'exclusivity'],
+  [/\bnon-?compet/i, 'non-compete'],
+  [/\bnon-?solicit/i, 'non-solicitation'],
+  [/\bperpetual\b|\bin perpetuity\b/i, 'perpetual term or license'],
+  [/\birrevocabl/i, 'irrevocable grant'],
+  [/\bsole discretion\b/i, 'sole discretion'],
+  [/\bany and all\b/i, 'broad "any and all" scope'],
+  [/\bliquidated damages\b/i, 'liquidated damages']
+];
+
+// --- PARSING ------------------------------------------------------------------
+const HEADING_LINE = /^\s*(?:#{1,6}\s*)?(?:(?:section|article|clause)\s+)?(\d{1,2})[.)]?\s+([A-Z][^.\n]{1,70}?)\s*[.:]?\s*$/i;
+const HEADING_INLINE = /^\s*(?:(?:section|article|clause)\s+)?(\d{1,2})[.)]\s+([A-Z][A-Za-z ,&'/-]{1,60}?)\.\s+(\S.*)$/i;
+const MD_HEADING = /^\s*#{1,6}\s+(.+?)\s*$/;
+const SIGNATURES = /^\s*(in witness whereof|signed (by|for)\b|signature\b)/i;
+
+/** Top-level numbered ("3. Term", "Section 3 Term", "3. Term. Body…") or markdown headings. */
+export function splitClauses(text: string): { preamble: string; clauses: SubmittedClause[] } {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const cut = lines.findIndex(l => SIGNATURES.test(l));
+  const clauses: SubmittedClause[] = [];
+  const preamble: string[] = [];
+  for (const line of cut >= 0 ? lines.slice(0, cut) : lines) {
+    const inline = line.match(HEADING_INLINE);
+    const own = !inline && line.trim().split(/\s+/).length <= 10 ? line.match(HEADING_LINE) || line.match(MD_HEADING) : null;
+    if (inline) clauses.push({ heading: inline[2].trim(), body: inline[3] });
+    else if (own) clauses.push({ heading: (own[2] || own[1]).trim(), body: '' });
+    else if (clauses.length) clauses[clauses.length - 1].body += `\n${line}`;
+    else preamble.push(line);
+  }
+  return {
+    preamble: preamble.join('\n').trim(),
+    clauses: clauses.map(c => ({ heading: c.heading, body: c.body.trim() }))
+  };
+}
+
+// --- WORD DIFF ------------------------------------------------------------------
+const TOKEN = /\{\{\w+\}\}|\d{4}-\d{2}-\d{2}|[$€£]?\d[\d.,]*\d|[$€£]?\d|[\p{L}\p{N}'’-]+|[^\s\p{L}\p{N}]/gu;
+const PLACEHOLDER = /^\{\{(\w+)\}\}$/;
+
+function tokens(s: string) {
+  return s.match(TOKEN) || [];
+}
+
+function joinTokens(ts: string[]) {
+  return ts.join(' ').replace(/\s+([.,;:)%])/g, '$1').replace(/([($])\s+/g, '$1');
+}
+
+type Op = { op: '=' | '-' | '+'; tokens: string[]; variable?: string };
+
+/**
+ * LCS over tokens; a template placeholder matches any single token and then
+ * absorbs the inserted tokens that follow it (the rest of the filled value).
+ */
+export function wordDiff(ours: string, theirs: string) {
+  const a = tokens(ours);
+  const b = tokens(theirs);
+  const same = (x: string, y: string) => PLACEHOLDER.test(x) ? /[\p{L}\p{N}$€£]/u.test(y) : x.toLowerCase() === y.toLowerCase();
+
+  let ops: Op[];
+  if ((a.length + 1) * (b.length + 1) > MAX_DIFF_CELLS) {
+    ops = [{ op: '-', tokens: a }, { op: '+', tokens: b }];
+  } else {
+    const w = b.length + 1;
+    const dp = new Int32Array((a.length + 1) * w);
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        dp[i * w + j] = same(a[i], b[j]) ? dp[(i + 1) * w + j + 1] + 1 : Math.max(dp[(i + 1) * w + j], dp[i * w + j + 1]);
+      }
+    }
+    ops = [];
+    const push = (op: Op['op'], t: string, variable?: string) => {
+      const last = ops[ops.length - 1];
+      if (last && last.op === op && !variable && !last.variable) last.tokens.push(t);
+      else ops.push({ op, tokens: [t], ...(variable ? { variable } : {}) });
+    };
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && same(a[i], b[j])) {
+        const v = a[i].match(PLACEHOLDER)?.[1];
+        push('=', b[j], v);
+        i++; j++;
+        // rest of the value filled into the placeholder
+        if (v) {
+          while (j < b.length && (i >= a.length || (!same(a[i], b[j]) && dp[i * w + j + 1] >= dp[(i + 1) * w + j]))) {
+            ops[ops.length - 1].tokens.push(b[j++]);
+          }
+        }
+      } else if (j < b.length && (i >= a.length || dp[i * w + j + 1] >= dp[(i + 1) * w + j])) {
+        push('+', b[j++]);
+      } else {
+        push('-', a[i++]);
+      }
+    }
+  }
+
+  const kept = ops.filter(o => o.op === '=').reduce((n, o) => n + o.tokens.length, 0);
+  const filled = ops.filter(o => o.variable).reduce((n, o) => n + o.tokens.length - 1, 0);
+  const total = a.length + b.length;
+  const values: Record<string, string> = {};
+  for (const o of ops) if (o.variable && !(o.variable in values)) values[o.variable] = joinTokens(o.tokens);
+  const redline = ops
+    .map(o => o.op === '=' ? joinTokens(o.tokens) : o.op === '-' ? `[-${joinTokens(o.tokens)}-]` : `{+${joinTokens(o.tokens)}+}`)
+    .join(' ')
+    .replace(/\s+([.,;:)])/g, '$1');
+  return {
+    similarity: total ? Math.round(((2 * kept - filled) / total) * 100) / 100 : 1,
+    values,
+    redline
+  };
+}
+
+// --- PAIRING ------------------------------------------------------------------
+function normalizeHeading(s: string) {
+  return s.toLowerCase().replace(/[^a-z0-9 ]+/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function headingMatches(submitted: string, c: LegalTemplate['clauses'][number]) {
+  const h = normalizeHeading(submitted);
+  return [c.heading, ...(c.aliases || [])].some(x => normalizeHeading(x) === h);
+}
+
+/** Risky wording in `text` that our own `standard` wording does not already contain. */
+function riskyPhrases(text: string, standard = '') {
+  return RISKY.filter(([re]) => re.test(text) && !re.test(standard)).map(([, label]) => label);
+}
+
+function sameValue(expected: unknown, found: string, spec: LegalTemplate['variables'][string] | undefined) {
+  const norm = (s: string) => s.toLowerCase().replace(/^the\s+/, '').replace(/^(state|commonwealth) of\s+/, '').replace(/[^a-z0-9]+/g, ' ').trim();
+  switch (spec?.type) {
+    case 'money': return Number(found.replace(/[^\d.]/g, '')) === (expected as Money).amount;
+    case 'integer': return Number(found.replace(/[^\d.]/g, '')) === Number(expected);
+    case 'party': return norm(found).includes(norm((expected as Party).name));
+    default: return norm(found) === norm(formatValue(spec, expected));
+  }
+}
+
+/**
+ * Compare `text` with the tenant's standard `tpl`. `expected` holds the
+ * variable values we would have used (from the request and tenant defaults).
+ */
+export function reviewContract(text: string, tpl: LegalTemplate, expected: Record<string, unknown> = {}): ContractReview {
+  const { preamble, clauses: submitted } = splitClauses(text);
+  const used = new Set<number>();
+  const clauses: ClauseReview[] = [];
+  const flags: ReviewFlag[] = [];
+  const variables: Record<string, string> = {};
+
+  const diffs = new Map<string, ReturnType<typeof wordDiff>>();
+  const diffOf = (k: number, body: string) => {
+    const key = `${k}:${body}`;
+    if (!diffs.has(key)) diffs.set(key, wordDiff(body, submitted[k].body));
+    return diffs.get(key)!;
+  };
+
+  const collect = (d: ReturnType<typeof wordDiff>) => {
+    if (d.similarity < VALUE_THRESHOLD) return;
+    for (const [name, v] of Object.entries(d.values)) {
+      const type = tpl.variables[name]?.type;
+      if ((type === 'integer' || type === 'money' || type === 'date') && !/\d/.test(v)) continue;
+      variables[name] ??= v;
+    }
+  };
+  if (preamble) collect(wordDiff(tpl.preamble, preamble));
+
+  for (const c of tpl.clauses) {
+    let k = submitted.findIndex((s, n) => !used.has(n) && headingMatches(s.heading, c));
+    if (k < 0) {
+      const best = submitted
+        .map((_, n) => ({ n, sim: used.has(n) ? 0 : diffOf(n, c.body).similarity }))
+        .sort((x, y) => y.sim - x.sim)[0];
+      if (best && best.sim >= PAIR_THRESHOLD) k = best.n;
+    }
+    const critical = !!c.critical;
+    if (k < 0) {
+      clauses.push({ id: c.id, heading: c.heading, status: 'missing', critical });
+      flags.push({ severity: critical ? 'high' : 'low', clause: c.heading, message: `${c.heading} clause is missing` });
+      continue;
+    }
+
+    used.add(k);
+    const d = diffOf(k, c.body);
+    collect(d);
+    const modified = d.similarity < MATCH_THRESHOLD;
+    clauses.push({
+      id: c.id,
+      heading: c.heading,
+      status: modified ? 'modified' : 'match',
+      critical,
+      ...(normalizeHeading(submitted[k].heading) !== normalizeHeading(c.heading) ? { submitted_heading: submitted[k].heading } : {}),
+      similarity: d.similarity,
+      ...(modified ? { redline: d.redline } : {})
+    });
+    if (modified) {
+      const severity: Severity = critical ? (d.similarity < 0.6 ? 'high' : 'medium') : d.similarity < 0.6 ? 'medium' : 'low';
+      flags.push({ severity, clause: c.heading, message: `${c.heading} deviates from our standard (similarity ${d.similarity})` });
+    }
+    for (const label of riskyPhrases(submitted[k].body, c.body)) {
+      flags.push({ severity: critical ? 'high' : 'medium', clause: c.heading, message: `${c.heading} adds ${label} wording` });
+    }
+  }
+
+  submitted.forEach((s, n) => {
+    if (used.has(n)) return;
+    const risky = riskyPhrases(`${s.heading} ${s.body}`);
+    clauses.push({ heading: s.heading, status: 'added', critical: false, submitted_heading: s.heading });
+    flags.push({
+      severity: risky.length ? 'high' : 'medium',
+      clause: s.heading,
+      message: `${s.heading} is not in our standard ${tpl.doc_type}` + (risky.length ? ` (${risky.join(', ')})` : '')
+    });
+  });
+
+  for (const [name, found] of Object.entries(variables)) {
+    if (expected[name] === undefined || sameValue(expected[name], found, tpl.variables[name])) continue;
+    const inCritical = tpl.clauses.some(c => c.critical && c.body.includes(`{{${name}}}`));
+    flags.push({
+      severity: inCritical ? 'high' : 'medium',
+      clause: name,
+      message: `${name.replace(/_/g, ' ')} is "${found}", we expect "${formatValue(tpl.variables[name], expected[name])}"`
+    });
+  }
+
+  const counts: Record<ClauseStatus, number> = { match: 0, modified: 0, missing: 0, added: 0 };
+  clauses.forEach(c => { counts[c.status] += 1; });
+  const order: Severity[] = ['high', 'medium', 'low'];
+  return {
+    template: tpl.id,
+    title: tpl.title,
+    clauses,
+    variables,
+    flags: flags.sort((x, y) => order.indexOf(x.severity) - order.indexOf(y.severity)),
+    counts,
+    risk: order.find(s => flags.some(f => f.severity === s)) || 'none'
+  };
+}
+
+/** Best-guess template for third-party paper: title keywords, else the `hint`. */
+export function detectTemplate(text: string, hint?: string): TemplateId | undefined {
+  const head = text.slice(0, 600).toLowerCase();
+  if (/data processing (agreement|addendum)|\bdpa\b/.test(head)) return 'dpa';
+  if (/non-?disclosure|confidentiality agreement|\bnda\b/.test(head)) {
+    return /\bmutual\b/.test(head) ? 'nda_mutual' : /one-?way|unilateral|\bthe discloser\b/.test(head) ? 'nda_one_way' : 'nda_mutual';
+  }
+  if (/master (services|service|subscription) agreement|\bmsa\b/.test(head)) return 'msa';
+  const h = String(hint || '').toLowerCase();
+  return h.includes('dpa') ? 'dpa' : h.includes('nda') ? 'nda_mutual' : h.includes('msa') ? 'msa' : undefined;
+}
@@ -0,0 +1,219 @@
+import { executeTicket, type DeptResult, type DeptTicket } from './departments.js';
+
+/**
+ * Dependency-aware batch execution of department tickets.
+ *
+ * Each node wraps one ticket. Inputs may reference upstream outputs with
+ * templates: "{{SALES.lead_id}}" (node key + path into result.output; falls
+ * back to top-level result fields such as summary/status). A trailing "?"
+ * ("{{SALES.lead_id?}}") makes the reference optional: when it cannot be
+ * resolved the input is dropped instead of failing the node. A string that is
+ * exactly one template keeps the referenced value's type.
+ *
+ * Referenced nodes become implicit dependencies. Nodes whose dependencies are
+ * all done run in parallel (DAG_CONCURRENCY, default 4).
+ *
+ * When an upstream node does not succeed, each dependent applies its own
+ * `on_upstream_failure`:
+ *  - skip      (default) the node is skipped; its own dependents apply their policy
+ *  - cancel    the node and every not-yet-started node downstream of the failed
+ *              upstream are cancelled; unrelated branches keep running
+ *  - continue  the node runs anyway; optional references to the failed node drop out
+ */
+
+export type UpstreamPolicy = 'skip' | 'cancel' | 'continue';
+
+export type DagNode = {
+  key: string;
+  ticket: DeptTicket;
+  depends_on?: string[];
+  on_upstream_failure?: UpstreamPolicy;
+};
+
+export type NodeStatus = 'running' | 'succeeded' | 'failed' | 'skipped' | 'cancelled';
+
+export type NodeRun = {
+  key: string;
+  status: NodeStatus;
+  depends_on: string[];
+  reason?: string;
+  started_at?: string;
+  finished_at?: string;
+  result?: DeptResult;
+};
+
+export type DagRun = {
+  ok: boolean;
+  order: string[];
+  nodes: Record<string, NodeRun>;
+};
+
+export class DagError extends Error {}
+
+const TEMPLATE = /\{\{\s*([A-Za-z0-9_-]+)((?:\.[A-Za-z0-9_-]+)*)\s*(\?)?\s*\}\}/g;
+
+function refsIn(v: unknown, out = new Set<string>()): Set<string> {
+  if (typeof v === 'string') for (const m of v.matchAll(TEMPLATE)) out.add(m[1]);
+  else if (Array.isArray(v)) v.forEach(x => refsIn(x, out));
+  else if (v && typeof v === 'object') Object.values(v).forEach(x => refsIn(x, out));
+  return out;
+}
+
+/** Validate keys, dependencies and acyclicity; returns each node's full dependency list. */
+export function planDag(nodes: DagNode[]) {
+  const byKey = new Map<string, DagNode>();
+  for (const n of nodes) {
+    if (!n.key) throw new DagError('every node needs a key');
+    if (byKey.has(n.key)) throw new DagError(`duplicate node key: ${n.key}`);
+    byKey.set(n.key, n);
+  }
+
+  const deps = new Map<string, string[]>();
+  for (const n of nodes) {
+    const all = new Set([...(n.depends_on || []), ...refsIn(n.ticket.inputs)]);
+    for (const d of all) {
+      if (!byKey.has(d)) throw new DagError(`${n.key} depends on unknown node ${d}`);
+      if (d === n.key) throw new DagError(`${n.key} depends on itself`);
+    }
+    deps.set(n.key, [...all]);
+  }
+
+  // Kahn: a topological order exists iff there is no cycle
+  const indegree = new Map(nodes.map(n => [n.key, deps.get(n.key)!.length]));
+  const queue = nodes.filter(n => indegree.get(n.key) === 0).map(n => n.key);
+  const order: string[] = [];
+  while (queue.length) {
+    const k = queue.shift()!;
+    order.push(k);
+    for (const n of nodes) {
+      if (!deps.get(n.key)!.includes(k)) continue;
+      indegree.set(n.key, indegree.get(n.key)! - 1);
+      if (indegree.get(n.key) === 0) queue.push(n.key);
+    }
+  }
+  if (order.length !== nodes.length) {
+    throw new DagError(`dependency cycle among: ${nodes.filter(n => !order.includes(n.key)).map(n => n.key).join(', ')}`);
+  }
+  return { deps, order };
+}
+
+function lookup(result: DeptResult | undefined, path: string[]): unknown {
+  if (!result) return undefined;
+  const walk = (root: unknown) => path.reduce<any>((v, p) => (v == null ? undefined : v[p]), root);
+  const fromOutput = walk(result.output);
+  return fromOutput !== undefined ? fromOutput : walk(result);
+}
+
+/** Render templates in `v`; optional misses come back as undefined and are dropped by the caller. */
+function render(v: unknown, runs: Record<string, NodeRun>): unknown {
+  if (typeof v === 'string') {
+    const resolve = (key: string, path: string, optional: boolean) => {
+      const run = runs[key];
+      const value = run?.status === 'succeeded' ? lookup(run.result, path.split('.').filter(Boolean)) : undefined;
+      if (value === undefined && !optional) throw new DagError(`unresolved {{${key}${path}}}`);
+      return value;
+    };
+    const whole = v.match(/^\{\{\s*([A-Za-z0-9_-]+)((?:\.[A-Za-z0-9_-]+)*)\s*(\?)?\s*\}\}$/);
+    if (whole) return resolve(whole[1], whole[2], !!whole[3]);
+    return v.replace(TEMPLATE, (_, key, path, opt) => {
+      const value = resolve(key, path, !!opt);
+      return value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+    });
+  }
+  if (Array.isArray(v)) return v.map(x => render(x, runs)).filter(x => x !== undefined);
+  if (v && typeof v === 'object') {
+    return Object.fromEntries(Object.entries(v).map(([k, x]) => [k, render(x, runs)]).filter(([, x]) => x !== undefined));
+  }
+  return v;
+}
+
+function concurrency() {
+  const n = Number(process.env.DAG_CONCURRENCY);
+  return Number.isFinite(n) && n >= 1 ? Math.floor(n) : 4;
+}
+
+export async function runDag(nodes: DagNode[]): Promise<DagRun> {
+  const { deps, order } = planDag(nodes);
+  const byKey = new Map(nodes.map(n => [n.key, n]));
+  const runs: Record<string, NodeRun> = {};
+  const running = new Map<string, Promise<void>>();
+  // not-started node → the node whose cancel policy took it down
+  const cancelledBy = new Map<string, string>();
+  const downstreamOf = (roots: string[]) => {
+    const out = new Set<string>();
+    const queue = [...roots];
+    while (queue.length) {
+      const k = queue.shift()!;
+      for (const n of order) {
+        if (!out.has(n) && deps.get(n)!.includes(k)) {
+          out.add(n);
+          queue.push(n);
+        }
+      }
+    }
+    return out;
+  };
+
+  const settled = (k: string) => !!runs[k] && runs[k].status !== 'running';
+  const finish = (k: string, status: NodeStatus, reason?: string) => {
+    runs[k] = { ...runs[k], key: k, depends_on: deps.get(k)!, status, ...(reason ? { reason } : {}), finished_at: new Date().toISOString() };
+  };
+
+  const start = (k: string) => {
+    const node = byKey.get(k)!;
+    runs[k] = { key: k, depends_on: deps.get(k)!, status: 'running', started_at: new Date().toISOString() };
+    const p = (async () => {
+      try {
+        const ticket = { ...node.ticket, inputs: render(node.ticket.inputs || {}, runs) as Record<string, unknown> };
+        const result = await executeTicket(ticket);
+        runs[k].result = result;
+        finish(k, result.ok ? 'succeeded' : 'failed', result.ok ? undefined : `${result.status}: ${result.summary}`);
+      } catch (e: any) {
+        finish(k, 'failed', e?.message || String(e));
+      }
+    })().finally(() => running.delete(k));
+    running.set(k, p);
+  };
+
+  for (;;) {
+    let progressed = false;
+    for (const k of order) {
+      if (runs[k]) continue;
+      if (cancelledBy.has(k)) {
+        finish(k, 'cancelled', `cancelled by ${cancelledBy.get(k)}`);
+        progressed = true;
+        continue;
+      }
+      const upstream = deps.get(k)!;
+      if (!upstream.every(settled)) continue;
+
+      const broken = upstream.filter(d => runs[d].status !== 'succeeded');
+      const policy = byKey.get(k)!.on_upstream_failure || 'skip';
+      if (broken.length && policy === 'skip') {
+        finish(k, 'skipped', `upstream not succeeded: ${broken.join(', ')}`);
+        progressed = true;
+        continue;
+      }
+      if (broken.length && policy === 'cancel') {
+        finish(k, 'cancelled', `upstream not succeeded: ${broken.join(', ')}`);
+        for (const d of downstreamOf(broken)) if (!runs[d] && !cancelledBy.has(d)) cancelledBy.set(d, k);
+        progressed = true;
+        continue;
+      }
+      if (running.size >= concurrency()) break;
+      start(k);
+      progressed = true;
+    }
+    if (order.every(k => settled(k))) break;
+    if (!progressed || running.size >= concurrency()) {
+      if (!running.size) break;
+      await Promise.race(running.values());
+    }
+  }
+
+  return {
+    ok: order.every(k => runs[k].status === 'succeeded'),
+    order,
+    nodes: Object.fromEntries(order.map(k => [k, runs[k]]))
+  };
+}
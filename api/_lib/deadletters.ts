@@ -0,0 +1,79 @@
+import type { DeptResult, DeptTicket } from './departments.js';
+import type { AttemptInfo } from './retry.js';
+import { newId, readJson, updateJson } from './store.js';
+
+/**
+ * Dead-letter store: tickets whose handler still failed after the retry budget.
+ * Inspect via GET /api/deadletters/list, re-run via POST /api/deadletters/replay.
+ */
+
+export type DeadLetterStatus = 'open' | 'replayed' | 'discarded';
+
+export type DeadLetterReplay = { at: string; status: DeptResult['status']; summary: string };
+
+export type DeadLetter = {
+  id: string;
+  tenant_id: string;
+  status: DeadLetterStatus;
+  ticket: DeptTicket;
+  approval_id?: string;
+  failed_at: string;
+  error: string;
+  attempts: AttemptInfo[];
+  replays: DeadLetterReplay[];
+};
+
+const FILE = 'deadletters.json';
+
+type DeadLetterBook = Record<string, DeadLetter>;
+
+export class DeadLetterError extends Error {
+  constructor(message: string, public code: 404 | 409) {
+    super(message);
+  }
+}
+
+export async function deadLetter(ticket: DeptTicket, error: string, attempts: AttemptInfo[], approval_id?: string): Promise<DeadLetter> {
+  const rec: DeadLetter = {
+    id: newId('dlq'),
+    tenant_id: ticket.context.tenant_id,
+    status: 'open',
+    ticket,
+    ...(approval_id ? { approval_id } : {}),
+    failed_at: new Date().toISOString(),
+    error,
+    attempts,
+    replays: []
+  };
+  await updateJson<DeadLetterBook>(FILE, {}, book => ({ ...book, [rec.id]: rec }));
+  return rec;
+}
+
+export async function getDeadLetter(id: string) {
+  const book = await readJson<DeadLetterBook>(FILE, {});
+  return book[id];
+}
+
+export async function listDeadLetters(filter: { tenant_id?: string; status?: string } = {}) {
+  const book = await readJson<DeadLetterBook>(FILE, {});
+  return Object.values(book)
+    .filter(r => !filter.tenant_id || r.tenant_id === filter.tenant_id)
+    .filter(r => !filter.status || r.status === filter.status)
+    .sort((a, b) => a.failed_at.localeCompare(b.failed_at));
+}
+
+/** Record a replay; the entry closes when the replay did not fail again. */
+export function recordReplay(id: string, result: DeptResult) {
+  let out: DeadLetter | undefined;
+  return updateJson<DeadLetterBook>(FILE, {}, book => {
+    const rec = book[id];
+    if (!rec) throw new DeadLetterError(`Dead letter not found: ${id}`, 404);
+    if (rec.status !== 'open') throw new DeadLetterError(`Dead letter ${id} is ${rec.status}`, 409);
+    out = {
+      ...rec,
+      status: result.status === 'error' ? 'open' : 'replayed',
+      replays: [...rec.replays, { at: new Date().toISOString(), status: result.status, summary: result.summary }]
+    };
+    return { ...book, [id]: out };
+  }).then(() => out!);
+}
@@ -0,0 +1,112 @@
+import type { DeptResult, DeptTicket } from './departments.js';
+import { newId, readJson, updateJson } from './store.js';
+
+/**
+ * Deferred tickets: outreach the after-hours gate held back until the next
+ * business opening (`not_before`). Due entries are run by POST /api/deferred/run
+ * (call it from a scheduler every few minutes); inspect via GET /api/deferred/list.
+ *
+ * One entry per tenant + idempotency_key: deferring the same key again (a client
+ * retry, or a run that still fell outside business hours) moves its not_before
+ * instead of queueing a second send.
+ */
+
+export type DeferredStatus = 'waiting' | 'running' | 'ran';
+
+export type DeferredRun = { at: string; status: DeptResult['status']; summary: string };
+
+export type DeferredTicket = {
+  id: string;
+  tenant_id: string;
+  status: DeferredStatus;
+  ticket: DeptTicket;
+  approval_id?: string;
+  deferred_at: string;
+  not_before: string;
+  reason: string;
+  claimed_at?: string;
+  runs: DeferredRun[];
+};
+
+const FILE = 'deferred.json';
+
+type DeferredBook = Record<string, DeferredTicket>;
+
+// a run that died mid-way leaves its entry running; after this long it is claimable again
+const STALE_CLAIM_MS = 15 * 60_000;
+
+const sameKey = (r: DeferredTicket, ticket: DeptTicket) =>
+  r.tenant_id === ticket.context.tenant_id && r.ticket.idempotency_key === ticket.idempotency_key && r.status !== 'ran';
+
+export async function deferTicket(ticket: DeptTicket, not_before: string, reason: string, approval_id?: string): Promise<DeferredTicket> {
+  let out: DeferredTicket | undefined;
+  await updateJson<DeferredBook>(FILE, {}, book => {
+    const existing = Object.values(book).find(r => sameKey(r, ticket));
+    out = existing
+      ? { ...existing, status: 'waiting', ticket, not_before, reason }
+      : {
+          id: newId('dfr'),
+          tenant_id: ticket.context.tenant_id,
+          status: 'waiting',
+          ticket,
+          ...(approval_id ? { approval_id } : {}),
+          deferred_at: new Date().toISOString(),
+          not_before,
+          reason,
+          runs: []
+        };
+    return { ...book, [out.id]: out };
+  });
+  return out!;
+}
+
+export async function getDeferred(id: string) {
+  const book = await readJson<DeferredBook>(FILE, {});
+  return book[id];
+}
+
+export async function listDeferred(filter: { tenant_id?: string; status?: string } = {}) {
+  const book = await readJson<DeferredBook>(FILE, {});
+  return Object.values(book)
+    .filter(r => !filter.tenant_id || r.tenant_id === filter.tenant_id)
+    .filter(r => !filter.status || r.status === filter.status)
+    .sort((a, b) => a.not_before.localeCompare(b.not_before));
+}
+
+/** Waiting entries whose not_before has passed, marked running so an overlapping run skips them. */
+export async function claimDue(now = new Date(), filter: { tenant_id?: string; limit?: number } = {}) {
+  const claimed: DeferredTicket[] = [];
+  await updateJson<DeferredBook>(FILE, {}, book => {
+    const due = Object.values(book)
+      .filter(r => r.status === 'waiting' || (r.status === 'running' && now.getTime() - Date.parse(r.claimed_at || '') > STALE_CLAIM_MS))
+      .filter(r => Date.parse(r.not_before) <= now.getTime())
+      .filter(r => !filter.tenant_id || r.tenant_id === filter.tenant_id)
+      .sort((a, b) => a.not_before.localeCompare(b.not_before))
+      .slice(0, filter.limit || undefined);
+    const next = { ...book };
+    for (const r of due) {
+      next[r.id] = { ...r, status: 'running', claimed_at: now.toISOString() };
+      claimed.push(next[r.id]);
+    }
+    return next;
+  });
+  return claimed;
+}
+
+/**
+ * Record a run. A run that was deferred again has already moved the entry back
+ * to waiting (deferTicket); anything else closes it.
+ */
+export function recordRun(id: string, result: DeptResult) {
+  let out: DeferredTicket | undefined;
+  return updateJson<DeferredBook>(FILE, {}, book => {
+    const rec = book[id];
+    if (!rec) return book;
+    out = {
+      ...rec,
+      status: result.status === 'deferred' ? 'waiting' : 'ran',
+      runs: [...rec.runs, { at: new Date().toISOString(), status: result.status, summary: result.summary }]
+    };
+    return { ...book, [id]: out };
+  }).then(() => out);
+}
@@ -0,0 +1,422 @@
+import { applyDefaults, isReadOnly, validateInputs, type Dept, type ValidationError } from './catalog.js';
+import { parkTicket, requiresApproval } from './approvals.js';
+import { IdempotencyConflictError, settleApproval, withIdempotency, type IdempotencyInfo } from './idempotency.js';
+import { isTransient, mayHaveLanded, runWithRetries, SlaTimeoutError, type AttemptInfo } from './retry.js';
+import { deadLetter } from './deadletters.js';
+import { deferTicket } from './deferred.js';
+import { evaluatePolicies, type GateResult, type PolicyDecision } from './policy.js';
+import { resolveAdapter } from './adapters/registry.js';
+import { isValidTimeZone } from './time.js';
+import type { Capability, MessageChannel } from './adapters/types.js';
+import { ProviderMissingError, RejectedError, via, type FollowUp, type HandlerOutcome } from './depts/common.js';
+import { routeToFallback, type FallbackInfo } from './depts/fallback.js';
+import { recordTicket } from './history.js';
+import { handleSales } from './depts/sales.js';
+import { handleOps } from './depts/ops.js';
+import { handleFin } from './depts/fin.js';
+import { handleCs } from './depts/cs.js';
+import { handleMarketing } from './depts/marketing.js';
+import { handleExec } from './depts/exec.js';
+import { handleLegal } from './depts/legal.js';
+import { handleProcurement } from './depts/procurement.js';
+
+/**
+ * Department executor shared by /api/dept/all and the /api/corp/ingest spine.
+ */
+
+export type DeptTicket = {
+  id: string;
+  dept: Dept;
+  action: string;
+  inputs: Record<string, unknown>;
+  context: {
+    tenant_id: string;
+    capabilities: Record<string, unknown>;
+    constraints?: { sensitivity?: string };
+  };
+  idempotency_key: string;
+  sla_sec: number;
+  retries: number;
+};
+
+export type DeptResult = {
+  ok: boolean;
+  dept: Dept;
+  status: 'ok' | 'error' | 'invalid' | 'denied' | 'deferred' | 'pending_approval' | 'conflict';
+  summary: string;
+  ticket: DeptTicket;
+  /** Structured handler output (ids of created records etc.). */
+  output?: Record<string, unknown>;
+  /** Tickets the handler asked for (e.g. CSAT survey on solve), with how they went. */
+  follow_ups?: Array<FollowUp & { result?: Pick<DeptResult, 'ok' | 'status' | 'summary' | 'output'> }>;
+  diagnostics: {
+    adapter: 'mock' | string;
+    provider?: string;
+    notes?: string;
+    duration_ms?: number;
+    policy?: { decision: PolicyDecision; gates: GateResult[]; not_before?: string };
+    approval?: { id: string; channel?: string; status: string };
+    deferred?: { id: string; not_before: string };
+    validation?: { errors: ValidationError[] };
+    idempotency?: IdempotencyInfo;
+    attempts?: AttemptInfo[];
+    dead_letter?: { id: string };
+    fallback?: FallbackInfo;
+  };
+};
+
+// --- PROVIDERS ----------------------------------------------------------------
+// Departments backed by a tenant capability; the adapter comes from the registry.
+const DEPT_CAPABILITY: Partial<Record<Dept, { capability: Capability; channel?: MessageChannel }>> = {
+  SALES: { capability: 'crm' },
+  OPS: { capability: 'calendar' },
+  FIN: { capability: 'payments' },
+  CS: { capability: 'support_desk' },
+  MARKETING: { capability: 'messaging', channel: 'email' }
+};
+
+const DEPT_HANDLERS: Partial<Record<Dept, (t: DeptTicket) => Promise<HandlerOutcome>>> = {
+  SALES: handleSales,
+  OPS: handleOps,
+  FIN: handleFin,
+  CS: handleCs,
+  MARKETING: handleMarketing,
+  EXEC: handleExec,
+  LEGAL: handleLegal,
+  PROCUREMENT: handleProcurement
+};
+
+function providerFor(ticket: DeptTicket): { adapter: string; provider: string; notes?: string } {
+  const bound = DEPT_CAPABILITY[ticket.dept];
+  if (bound) {
+    return via(resolveAdapter(bound.capability, ticket.context?.tenant_id, ticket.context?.capabilities, bound.channel));
+  }
+  switch (ticket.dept) {
+    case 'RESEARCH': return { adapter: 'mock', provider: 'crawler:internal' };
+    default: return { adapter: 'mock', provider: 'generic:none' };
+  }
+}
+
+// --- COMMON HANDLER (MOCK) ---------------------------------------------------
+function ok(ticket: DeptTicket, summary: string, notes?: string): DeptResult {
+  const p = providerFor(ticket);
+  const joined = [p.notes, notes].filter(Boolean).join('; ');
+  return {
+    ok: true,
+    dept: ticket.dept,
+    status: 'ok',
+    summary,
+    ticket,
+    diagnostics: { adapter: p.adapter === 'none' ? 'mock' : p.adapter, provider: p.provider, notes: joined || undefined }
+  };
+}
+
+function fromOutcome(t: DeptTicket, out: HandlerOutcome, fallback?: FallbackInfo): DeptResult {
+  const v = out.via || providerFor(t);
+  return {
+    ok: true,
+    dept: t.dept,
+    status: 'ok',
+    summary: out.summary,
+    ticket: t,
+    ...(out.output ? { output: out.output } : {}),
+    ...(out.follow_ups?.length ? { follow_ups: out.follow_ups } : {}),
+    diagnostics: { ...v, notes: [v.notes, out.notes].filter(Boolean).join('; ') || undefined, ...(fallback ? { fallback } : {}) }
+  };
+}
+
+// Schema defaults (see ACTION_SCHEMAS) under whatever the caller sent
+function normalizeInputs(ticket: DeptTicket) {
+  return { ...ticket, inputs: applyDefaults(ticket.dept, ticket.action, ticket.inputs || {}) };
+}
+
+// --- DEPT IMPLEMENTATIONS (mock-now/real-later) ------------------------------
+export async function handleDept(ticket: DeptTicket): Promise<DeptResult> {
+  const t = normalizeInputs(ticket);
+  const a = t.action || 'default';
+
+  const handler = DEPT_HANDLERS[t.dept];
+  if (handler) {
+    try {
+      return fromOutcome(t, await handler(t));
+    } catch (e) {
+      if (!(e instanceof ProviderMissingError)) throw e;
+      // no provider for this tenant → generic ticketing, else the canned summary below
+      const from = `${e.capability}:${e.provider}`;
+      const routed = await routeToFallback(t, from, e.message);
+      if (routed) return fromOutcome(t, routed, routed.fallback);
+    }
+  }
+
+  switch (t.dept) {
+    case 'SALES':
+      return ok(t, `SALES processed: ${a} (lead=${(t.inputs as any).lead_name})`);
+    case 'MARKETING':
+      return ok(t, `MARKETING processed: ${a} (campaign=${(t.inputs as any).campaign || 'n/a'})`);
+    case 'ANALYTICS':
+      return ok(t, `ANALYTICS processed: ${a} (report=${(t.inputs as any).report || 'n/a'})`);
+    case 'EXEC':
+      return ok(t, `EXEC processed: ${a} (digest prepared)`);
+    case 'PRODUCT':
+      return ok(t, `PRODUCT processed: ${a} (ticket/spec created)`);
+    case 'SECURITY':
+      return ok(t, `SECURITY processed: ${a} (risk/incident logged)`);
+    case 'FACILITIES':
+      return ok(t, `FACILITIES processed: ${a} (work order queued)`);
+    case 'PROCUREMENT':
+      return ok(t, `PROCUREMENT processed: ${a} (vendor=${(t.inputs as any).vendor || 'n/a'})`);
+    case 'LEGAL':
+      return ok(t, `LEGAL processed: ${a} (doc=${(t.inputs as any).doc_type || 'n/a'})`);
+    case 'IT':
+      return ok(t, `IT processed: ${a} (request=${(t.inputs as any).request || 'n/a'})`);
+    case 'HR':
+      return ok(t, `HR processed: ${a} (employee=${(t.inputs as any).employee || 'n/a'})`);
+    case 'FIN':
+      return ok(t, `FIN processed: ${a} (terms=${(t.inputs as any).terms || 'NET 30'})`);
+    case 'OPS':
+      return ok(t, `OPS processed: ${a} (${(t.inputs as any).length_min || 30} minutes)`);
+    case 'CS':
+      return ok(t, `CS processed: ${a} (ticket created)`);
+    case 'RESEARCH':
+      return ok(t, `RESEARCH processed: ${a} (see /api/research/build-kb for heavy work)`, 'Use the dedicated KB endpoint for crawling.');
+    default:
+      return {
+        ok: false,
+        dept: t.dept,
+        status: 'error',
+        summary: `Unknown department: ${t.dept}`,
+        ticket: t,
+        diagnostics: { adapter: 'mock', notes: 'unsupported dept' }
+      };
+  }
+}
+
+// --- SAFE EXECUTION ----------------------------------------------------------
+export type ExecuteOptions = {
+  /** Set when resuming a ticket a reviewer already approved. */
+  approval_id?: string;
+  /** Set when replaying a dead letter; a repeat failure stays on that entry. */
+  dead_letter_id?: string;
+};
+
+/**
+ * Idempotency → schema validation → policy gates → approval queue → handleDept
+ * (sla_sec timeout, retries with backoff). Always comes back with a DeptResult:
+ * invalid/denied/deferred/parked tickets never reach the handler (deferred
+ * ones are queued in ./deferred.ts until not_before), handler
+ * failures → status:error plus a dead letter, a reused
+ * idempotency_key with a different payload → status:conflict. Every
+ * execution (not idempotent replays) lands in the tenant journal (./history.ts).
+ */
+export async function executeTicket(input: DeptTicket, opts: ExecuteOptions = {}): Promise<DeptResult> {
+  const result = await executeOnce(input, opts);
+  // the journal feeds digests; losing a line must never fail the ticket
+  await recordTicket(result).catch(() => undefined);
+  return result;
+}
+
+/** The tenant's configured time zones must be ones Intl knows, or every policy and date check would throw. */
+function timeZoneError(input: DeptTicket): ValidationError | undefined {
+  const c = (input.context?.capabilities || {}) as any;
+  const zones: Array<[string, unknown]> = [['business_hours.timezone', c.business_hours?.timezone], ['timezone', c.timezone]];
+  for (const [field, zone] of zones) {
+    if (zone === undefined || zone === '') continue;
+    if (typeof zone !== 'string' || !isValidTimeZone(zone)) {
+      return { field: `capabilities.${field}`, code: 'invalid_format', message: `capabilities.${field} ${JSON.stringify(zone)} is not a known time zone` };
+    }
+  }
+  return undefined;
+}
+
+async function executeOnce(input: DeptTicket, opts: ExecuteOptions): Promise<DeptResult> {
+  // approved resumes are exactly-once through the approval record itself; the
+  // key's stored pending_approval then gives way to what actually ran
+  const zoneError = timeZoneError(input);
+  if (zoneError) {
+    return {
+      ok: false,
+      dept: input.dept,
+      status: 'invalid',
+      summary: `${input.dept} ${input.action} rejected: ${zoneError.message}`,
+      ticket: input,
+      diagnostics: { adapter: 'none', validation: { errors: [zoneError] } }
+    };
+  }
+  if (opts.approval_id) {
+    const result = await runTicket(input, opts);
+    await settleApproval(input, opts.approval_id, result).catch(() => undefined);
+    return result;
+  }
+  // only what the store itself throws is a store failure
+  let failed: unknown;
+  try {
+    return await withIdempotency(input, () => runTicket(input, opts).catch(e => { failed = e; throw e; }));
+  } catch (e: any) {
+    const conflict = e instanceof IdempotencyConflictError;
+    return {
+      ok: false,
+      dept: input.dept,
+      status: conflict ? 'conflict' : 'error',
+      summary: conflict ? `${input.dept} ${input.action} not executed: ${e.message}`
+        : e === failed ? `${input.dept} ${input.action} failed: ${e?.message || String(e)}`
+        : 'Idempotency store failure',
+      ticket: input,
+      diagnostics: {
+        adapter: 'none',
+        notes: conflict ? undefined : e?.message || String(e),
+        idempotency: { key: input.idempotency_key, replayed: false }
+      }
+    };
+  }
+}
+
+/**
+ * Run the follow-up tickets a handler asked for, each through executeTicket with
+ * a key derived from the parent's, so a replayed parent never repeats them.
+ * A failed follow-up is reported on the parent but does not fail it.
+ */
+async function runFollowUps(parent: DeptTicket, result: DeptResult): Promise<DeptResult> {
+  if (!result.follow_ups?.length) return result;
+  const follow_ups: NonNullable<DeptResult['follow_ups']> = [];
+  for (const [n, f] of result.follow_ups.entries()) {
+    const r = await executeTicket({
+      id: `${parent.id}:${n}:${f.dept}.${f.action}`,
+      dept: f.dept,
+      action: f.action,
+      inputs: f.inputs,
+      context: parent.context,
+      idempotency_key: `${parent.idempotency_key}:then:${n}:${f.dept}.${f.action}`,
+      sla_sec: parent.sla_sec,
+      retries: parent.retries
+    });
+    follow_ups.push({ ...f, result: { ok: r.ok, status: r.status, summary: r.summary, ...(r.output ? { output: r.output } : {}) } });
+  }
+  return { ...result, follow_ups };
+}
+
+async function runTicket(input: DeptTicket, opts: ExecuteOptions): Promise<DeptResult> {
+  const started = Date.now();
+
+  const checked = validateInputs(input.dept, input.action, input.inputs);
+  if (!checked.ok) {
+    return {
+      ok: false,
+      dept: input.dept,
+      status: 'invalid',
+      summary: `${input.dept} ${input.action} rejected: ${checked.errors.map(e => e.message).join('; ')}`,
+      ticket: input,
+      diagnostics: { adapter: 'none', validation: { errors: checked.errors }, duration_ms: Date.now() - started }
+    };
+  }
+  const ticket: DeptTicket = { ...input, inputs: checked.inputs };
+
+  const verdict = evaluatePolicies(ticket);
+  const policy = { decision: verdict.decision, gates: verdict.gates, not_before: verdict.not_before };
+  if (verdict.decision === 'deny') {
+    const blocking = verdict.gates.find(g => g.decision === 'deny')!;
+    return {
+      ok: false,
+      dept: ticket.dept,
+      status: 'denied',
+      summary: `${ticket.dept} ${ticket.action} denied by ${blocking.gate}: ${blocking.reason}`,
+      ticket: verdict.ticket,
+      diagnostics: { ...providerFor(ticket), policy, duration_ms: Date.now() - started }
+    };
+  }
+  if (verdict.decision === 'defer') {
+    // queued exactly as requested, so the runner's execution lands on the same idempotency
+    // fingerprint; validation and gates run again then
+    const blocking = verdict.gates.find(g => g.decision === 'defer')!;
+    const rec = await deferTicket(input, verdict.not_before!, blocking.reason, opts.approval_id);
+    return {
+      ok: false,
+      dept: ticket.dept,
+      status: 'deferred',
+      summary: `${ticket.dept} ${ticket.action} deferred by ${blocking.gate}: ${blocking.reason} (${rec.id})`,
+      ticket: verdict.ticket,
+      diagnostics: { ...providerFor(ticket), policy, deferred: { id: rec.id, not_before: rec.not_before }, duration_ms: Date.now() - started }
+    };
+  }
+
+  if (!opts.approval_id && requiresApproval(verdict.ticket)) {
+    // park the ticket as requested (not the masked copy); gates run again on resume
+    const rec = await parkTicket(ticket);
+    return {
+      ok: false,
+      dept: ticket.dept,
+      status: 'pending_approval',
+      summary: `${ticket.dept} ${ticket.action} is waiting for approval in ${rec.channel} (${rec.id})`,
+      ticket,
+      diagnostics: {
+        ...providerFor(ticket),
+        policy,
+        approval: { id: rec.id, channel: rec.channel, status: rec.status },
+        duration_ms: Date.now() - started
+      }
+    };
+  }
+  const approval = opts.approval_id ? { approval: { id: opts.approval_id, status: 'approved' } } : {};
+
+  // a timed-out attempt may still land its write: only reads are run again after one
+  const readOnly = isReadOnly(ticket.dept, ticket.action);
+  const run = await runWithRetries(() => handleDept(verdict.ticket), { sla_sec: ticket.sla_sec, retries: ticket.retries, retryTimeouts: readOnly });
+  if (run.ok) {
+    const result = await runFollowUps(ticket, run.value);
+    return { ...result, diagnostics: { ...result.diagnostics, policy, ...approval, attempts: run.attempts, duration_ms: Date.now() - started } };
+  }
+
+  const notes = run.error?.message || String(run.error);
+
+  if (run.error instanceof RejectedError) {
+    const { field, code, output } = run.error;
+    return {
+      ok: false,
+      dept: ticket.dept,
+      status: 'invalid',
+      summary: `${ticket.dept} ${ticket.action} rejected: ${notes}`,
+      ...(output ? { output } : {}),
+      ticket: verdict.ticket,
+      diagnostics: {
+        ...providerFor(ticket),
+        validation: { errors: [{ field, code, message: notes }] },
+        policy,
+        ...approval,
+        attempts: run.attempts,
+        duration_ms: Date.now() - started
+      }
+    };
+  }
+
+  // provider outage (retries exhausted on a transient error) → generic ticketing, unless
+  // the write may have happened after all and the sheet row would be a duplicate
+  if (DEPT_HANDLERS[ticket.dept] && isTransient(run.error) && (readOnly || !mayHaveLanded(run.error))) {
+    const t = normalizeInputs(verdict.ticket);
+    const routed = await routeToFallback(t, providerFor(t).provider, notes).catch(() => null);
+    if (routed) {
+      const result = fromOutcome(t, routed, routed.fallback);
+      return { ...result, diagnostics: { ...result.diagnostics, policy, ...approval, attempts: run.attempts, duration_ms: Date.now() - started } };
+    }
+  }
+
+  const dead = opts.dead_letter_id
+    ? { id: opts.dead_letter_id }
+    : await deadLetter(ticket, notes, run.attempts, opts.approval_id);
+  return {
+    ok: false,
+    dept: ticket.dept,
+    status: 'error',
+    summary: run.error instanceof SlaTimeoutError
+      ? `${ticket.dept} ${ticket.action} missed its ${ticket.sla_sec}s SLA after ${run.attempts.length} attempt(s)`
+      : `${ticket.dept} ${ticket.action} failed after ${run.attempts.length} attempt(s)`,
+    ticket: verdict.ticket,
+    diagnostics: {
+      ...providerFor(ticket),
+      notes,
+      policy,
+      ...approval,
+      attempts: run.attempts,
+      dead_letter: { id: dead.id },
+      duration_ms: Date.now() - started
+    }
+  };
+}
@@ -0,0 +1,60 @@
+import type { DeptTicket } from '../departments.js';
+import type { Dept } from '../catalog.js';
+import { resolveAdapter, type Resolved } from '../adapters/registry.js';
+import type { AdapterFor, Capability, MessageChannel } from '../adapters/types.js';
+
+/**
+ * Shared plumbing for adapter-backed department handlers.
+ */
+
+export type Via = { adapter: string; provider: string; notes?: string };
+
+/** A ticket the executor runs after this one succeeds (same tenant context). */
+export type FollowUp = { dept: Dept; action: string; inputs: Record<string, unknown> };
+
+export type HandlerOutcome = {
+  summary: string;
+  output?: Record<string, unknown>;
+  via?: Via;
+  notes?: string;
+  follow_ups?: FollowUp[];
+};
+
+export type Connected<C extends Capability> = Resolved<C> & { adapter: AdapterFor<C> };
+
+/** Thrown when a capability has no usable provider for this tenant. */
+export class ProviderMissingError extends Error {
+  constructor(public capability: Capability, public provider: string) {
+    super(`no ${capability} provider configured (provider=${provider})`);
+  }
+}
+
+/**
+ * Thrown by a handler when the request is well-formed but cannot apply to the
+ * current state (unknown record, wrong status, slot taken). Surfaces as
+ * status:invalid with `output` (e.g. alternatives); never retried or dead-lettered.
+ */
+export class RejectedError extends Error {
+  constructor(
+    public field: string,
+    public code: 'missing' | 'not_found' | 'invalid_state' | 'conflict',
+    message: string,
+    public output?: Record<string, unknown>
+  ) {
+    super(message);
+  }
+}
+
+export function connect<C extends Capability>(capability: C, t: DeptTicket, channel?: MessageChannel): Connected<C> {
+  const r = resolveAdapter(capability, t.context.tenant_id, t.context.capabilities, channel);
+  if (!r.adapter) throw new ProviderMissingError(capability, r.provider);
+  return r as Connected<C>;
+}
+
+export function via(r: Resolved<Capability>): Via {
+  return { adapter: r.adapter?.name || 'none', provider: `${r.capability}:${r.provider}`, ...(r.notes ? { notes: r.notes } : {}) };
+}
+
+export function str(v: unknown) {
+  return typeof v === 'string' && v.trim() ? v.trim() : undefined;
+}
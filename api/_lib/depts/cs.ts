@@ -0,0 +1,227 @@
+import type { DeptTicket } from '../departments.js';
+import type { AdapterContext, SupportCase, SupportDeskAdapter } from '../adapters/types.js';
+import {
+  allowedFrom, canTransition, CASE_STATUSES, clocks, escalationRules, newSla, nextPriority, reprioritizedSla,
+  slaOnStatus, slaPolicy, unescalatedBreaches, type CaseSla, type CaseStatus, type SlaClock
+} from '../cases.js';
+import { connect, RejectedError, str, via, type FollowUp, type HandlerOutcome } from './common.js';
+
+/**
+ * CS on top of the tenant support desk (cases) and email messaging (replies,
+ * surveys). Lifecycle, SLA clocks and escalation rules live in ../cases.ts.
+ */
+
+type HistoryEntry = { at: string; from?: string; to?: string; note?: string; by: string };
+
+async function mustGetCase(desk: SupportDeskAdapter, ctx: AdapterContext, id: string) {
+  const c = await desk.getCase(ctx, id);
+  if (!c) throw new RejectedError('case_id', 'not_found', `case not found: ${id}`);
+  return c;
+}
+
+function caseOutput(c: SupportCase, extra: Record<string, unknown> = {}) {
+  return { case_id: c.id, status: c.status, priority: c.priority, sla: clocks(c), ...extra };
+}
+
+/** escalate_case follow-ups for clocks this case has just blown. */
+function breachFollowUps(c: SupportCase, t: DeptTicket): FollowUp[] {
+  return unescalatedBreaches(c, escalationRules(t.context.capabilities)).map(k => ({
+    dept: 'CS',
+    action: 'escalate_case',
+    inputs: { case_id: c.id, clock: k.clock, reason: `${k.clock.replace('_', ' ')} SLA breached (due ${k.due})` }
+  }));
+}
+
+export async function handleCs(t: DeptTicket): Promise<HandlerOutcome> {
+  const i = t.inputs;
+  const now = new Date().toISOString();
+  const by = `${t.dept}.${t.action}:${t.id}`;
+
+  switch (t.action) {
+    case 'auto_reply': {
+      const r = connect('messaging', t, 'email');
+      const sent = await r.adapter.send(r.ctx, {
+        channel: 'email',
+        to: String(i.customer_email),
+        subject: 'We received your message',
+        body: str(i.message) || 'Thanks for reaching out. Our team will follow up shortly.',
+        meta: str(i.case_id) ? { case_id: str(i.case_id) } : undefined
+      });
+      return { summary: `CS replied to ${sent.to}`, output: { message_id: sent.id }, via: via(r) };
+    }
+
+    case 'csat_request': {
+      const d = str(i.case_id) ? connect('support_desk', t) : undefined;
+      const c = d ? await mustGetCase(d.adapter, d.ctx, String(i.case_id)) : undefined;
+      const to = str(i.customer_email) || str(c?.customer_email);
+      if (!to) throw new RejectedError('customer_email', 'missing', `case ${c?.id} has no customer email to survey`);
+
+      const r = connect('messaging', t, 'email');
+      const sent = await r.adapter.send(r.ctx, {
+        channel: 'email',
+        to,
+        subject: c ? `How did we do? (case ${c.id})` : 'How did we do?',
+        body: c
+          ? `Your request "${c.subject}" was marked solved. Please rate your support experience from 1 to 5 by replying to this email.`
+          : 'Please rate your recent support experience from 1 to 5.',
+        meta: c ? { case_id: c.id, kind: 'csat' } : { kind: 'csat' }
+      });
+      if (d && c) await d.adapter.updateCase(d.ctx, c.id, { csat: { ...(c.csat as object), requested_at: now, message_id: sent.id } });
+      return {
+        summary: `CS sent CSAT survey to ${sent.to}` + (c ? ` for case ${c.id}` : ''),
+        output: { message_id: sent.id, ...(c ? { case_id: c.id } : {}) },
+        via: via(r)
+      };
+    }
+  }
+
+  const r = connect('support_desk', t);
+  const { adapter: desk, ctx } = r;
+
+  switch (t.action) {
+    case 'create_ticket': {
+      const priority = String(i.priority || 'normal');
+      const c = await desk.createCase(ctx, {
+        subject: str(i.subject) || str(i.notes) || 'Customer request',
+        description: str(i.description),
+        status: 'new',
+        priority,
+        customer: str(i.customer),
+        customer_email: str(i.customer_email),
+        customer_phone: str(i.customer_phone),
+        opened_at: now,
+        sla: newSla(slaPolicy(t.context.capabilities, priority), now),
+        escalation_level: 0,
+        escalations: [],
+        history: [{ at: now, to: 'new', by }]
+      });
+      const sla = c.sla as CaseSla;
+      return {
+        summary: `CS opened case ${c.id} (${c.priority}; first response due ${sla.first_response_due})`,
+        output: caseOutput(c),
+        via: via(r)
+      };
+    }
+
+    case 'update_case': {
+      const cur = await mustGetCase(desk, ctx, String(i.case_id));
+      const from = (CASE_STATUSES as readonly string[]).includes(cur.status) ? cur.status : 'open';
+      let sla = cur.sla as CaseSla | undefined;
+      const patch: Partial<SupportCase> = {};
+      const history: HistoryEntry[] = [];
+      const done: string[] = [];
+
+      let messageId: string | undefined;
+      if (str(i.reply)) {
+        if (!cur.customer_email) throw new RejectedError('reply', 'invalid_state', `case ${cur.id} has no customer email to reply to`);
+        const m = connect('messaging', t, 'email');
+        const sent = await m.adapter.send(m.ctx, {
+          channel: 'email',
+          to: cur.customer_email,
+          subject: `Re: ${cur.subject}`,
+          body: String(i.reply),
+          meta: { case_id: cur.id }
+        });
+        messageId = sent.id;
+        if (!cur.first_response_at) patch.first_response_at = now;
+        done.push('replied');
+      }
+
+      // replying to a new case opens it unless the caller picked a status
+      const to = (i.status as CaseStatus | undefined) || (from === 'new' && str(i.reply) ? 'open' : undefined);
+      if (to && to !== from) {
+        if (!canTransition(from, to)) {
+          const allowed = allowedFrom(from);
+          throw new RejectedError('status', 'invalid_state',
+            `case ${cur.id} cannot move from ${from} to ${to} (allowed: ${allowed.length ? allowed.join(', ') : 'none, case is closed'})`);
+        }
+        patch.status = to;
+        if (sla) sla = slaOnStatus(sla, to, now);
+        if (to === 'solved') patch.solved_at = now;
+        if (to === 'closed') patch.closed_at = now;
+        if (to === 'open' && from === 'solved') patch.reopened_at = now;
+        history.push({ at: now, from, to, by });
+        done.push(to);
+      }
+
+      if (i.priority && i.priority !== cur.priority) {
+        const priority = String(i.priority);
+        if (sla) sla = reprioritizedSla(sla, slaPolicy(t.context.capabilities, priority), String(cur.opened_at || cur.created_at));
+        patch.priority = priority;
+        history.push({ at: now, note: `priority ${cur.priority} → ${priority}`, by });
+        done.push(`priority ${priority}`);
+      }
+      if (str(i.note)) {
+        history.push({ at: now, note: String(i.note), by });
+        done.push('noted');
+      }
+
+      const updated = await desk.updateCase(ctx, cur.id, {
+        ...patch,
+        ...(sla ? { sla } : {}),
+        history: [...((cur.history as HistoryEntry[]) || []), ...history]
+      });
+
+      const follow_ups = breachFollowUps(updated, t);
+      // outreach: after hours the executor queues it for the deferred runner (../deferred.ts)
+      if (patch.status === 'solved' && updated.customer_email && !(cur.csat as any)?.requested_at) {
+        follow_ups.push({ dept: 'CS', action: 'csat_request', inputs: { case_id: updated.id } });
+      }
+      return {
+        summary: `CS case ${updated.id}: ${done.length ? done.join(', ') : 'no changes'} (status ${updated.status})`,
+        output: caseOutput(updated, messageId ? { message_id: messageId } : {}),
+        via: via(r),
+        ...(follow_ups.length ? { follow_ups } : {})
+      };
+    }
+
+    case 'escalate_case': {
+      const cur = await mustGetCase(desk, ctx, String(i.case_id));
+      if (cur.status === 'closed') throw new RejectedError('case_id', 'invalid_state', `case ${cur.id} is closed`);
+      const sla = cur.sla as CaseSla | undefined;
+      const clock = i.clock as SlaClock | undefined;
+      if (clock && sla?.breached[clock]) {
+        return { summary: `CS case ${cur.id} was already escalated for its ${clock} SLA`, output: caseOutput(cur), via: via(r) };
+      }
+
+      const rules = escalationRules(t.context.capabilities);
+      const level = Number(cur.escalation_level || 0) + 1;
+      const priority = rules.bump_priority ? nextPriority(cur.priority) : cur.priority;
+      const reason = str(i.reason) || (clock ? `${clock} SLA breached` : 'escalated');
+      const c = await desk.updateCase(ctx, cur.id, {
+        escalation_level: level,
+        escalated_at: now,
+        priority,
+        ...(rules.assign_to ? { assignee: rules.assign_to } : {}),
+        ...(sla && clock ? { sla: { ...sla, breached: { ...sla.breached, [clock]: now } } } : {}),
+        escalations: [...((cur.escalations as unknown[]) || []), { at: now, level, reason, clock, auto: !!clock }],
+        history: [...((cur.history as HistoryEntry[]) || []), { at: now, note: `escalated (level ${level}): ${reason}`, by }]
+      });
+      return {
+        summary: `CS escalated case ${c.id} to level ${level}: ${reason}`
+          + (priority !== cur.priority ? `; priority ${cur.priority} → ${priority}` : '')
+          + (rules.assign_to ? `; assigned to ${rules.assign_to}` : ''),
+        output: caseOutput(c, { escalation_level: level }),
+        via: via(r)
+      };
+    }
+
+    case 'record_csat': {
+      const cur = await mustGetCase(desk, ctx, String(i.case_id));
+      const score = Number(i.score);
+      const c = await desk.updateCase(ctx, cur.id, {
+        csat: { ...(cur.csat as object), score, comment: str(i.comment), responded_at: now },
+        history: [...((cur.history as HistoryEntry[]) || []), { at: now, note: `CSAT ${score}/5`, by }]
+      });
+      return {
+        summary: `CS recorded CSAT ${score}/5 for case ${c.id}`,
+        output: caseOutput(c, { csat: c.csat }),
+        via: via(r),
+        notes: cur.status === 'solved' || cur.status === 'closed' ? undefined : `case ${cur.id} is still ${cur.status}`
+      };
+    }
+
+    default:
+      return { summary: `CS processed: ${t.action} (ticket created)`, via: via(r) };
+  }
+}
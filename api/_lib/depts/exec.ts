@@ -0,0 +1,44 @@
+import type { DeptTicket } from '../departments.js';
+import { buildDigest, renderHtml, renderMarkdown } from '../digest.js';
+import { connect, str, type HandlerOutcome } from './common.js';
+
+/**
+ * EXEC reports over the tenant's own ticket journal (../digest.ts). A digest
+ * can also be mailed through the tenant email messaging adapter.
+ */
+
+export async function handleExec(t: DeptTicket): Promise<HandlerOutcome> {
+  const i = t.inputs;
+
+  switch (t.action) {
+    case 'daily_digest': {
+      const digest = await buildDigest(t.context.tenant_id, t.context.capabilities, {
+        date: str(i.date),
+        window_hours: Number(i.window_hours || 24)
+      });
+      const markdown = renderMarkdown(digest);
+      const html = renderHtml(digest);
+
+      let message_id: string | undefined;
+      if (str(i.email_to)) {
+        const r = connect('messaging', t, 'email');
+        const sent = await r.adapter.send(r.ctx, {
+          channel: 'email',
+          to: String(i.email_to),
+          subject: `Daily digest ${digest.window.label}`,
+          body: markdown,
+          meta: { kind: 'digest', html }
+        });
+        message_id = sent.id;
+      }
+      return {
+        summary: `EXEC digest for ${digest.window.label}: ${digest.highlights.join('; ')}` + (message_id ? ` (sent to ${str(i.email_to)})` : ''),
+        output: { digest, markdown, html, ...(message_id ? { message_id } : {}) },
+        via: { adapter: 'internal', provider: 'history:local' }
+      };
+    }
+
+    default:
+      return { summary: `EXEC processed: ${t.action} (digest prepared)`, via: { adapter: 'mock', provider: 'generic:none' } };
+  }
+}
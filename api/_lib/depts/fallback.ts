@@ -0,0 +1,59 @@
+import type { DeptTicket } from '../departments.js';
+import { schemaFor } from '../catalog.js';
+import { resolveAdapter } from '../adapters/registry.js';
+import type { SheetRow } from '../adapters/types.js';
+import { via, type HandlerOutcome } from './common.js';
+
+/**
+ * Generic-ticketing fallback: when a department's provider is missing or keeps
+ * failing, the ticket becomes a row in the tenant's fallback sheet
+ * (capabilities.fallbacks.generic_ticketing) for a human to work.
+ *
+ * One sheet per action, named DEPT.action. Columns are fixed per action:
+ * ticket metadata, then the action's schema fields in catalog order, then
+ * `extra` (JSON of any other inputs).
+ */
+
+export type FallbackInfo = { used: true; reason: string; from: string; sheet: string; row_number: number };
+
+const META_COLUMNS = ['ticket_id', 'idempotency_key', 'received_at', 'tenant_id', 'dept', 'action', 'fallback_reason', 'row_status'];
+
+export function sheetColumns(t: DeptTicket) {
+  return [...META_COLUMNS, ...Object.keys(schemaFor(t.dept, t.action)?.fields || {}), 'extra'];
+}
+
+function cell(v: unknown) {
+  if (v === undefined || v === null) return '';
+  return typeof v === 'object' ? JSON.stringify(v) : String(v);
+}
+
+/** null when the tenant has no generic_ticketing backend either. */
+export async function routeToFallback(t: DeptTicket, from: string, reason: string): Promise<(HandlerOutcome & { fallback: FallbackInfo }) | null> {
+  const r = resolveAdapter('ticketing', t.context.tenant_id, t.context.capabilities);
+  if (!r.adapter) return null;
+
+  const columns = sheetColumns(t);
+  const fields = new Set(columns);
+  const extra = Object.fromEntries(Object.entries(t.inputs).filter(([k]) => !fields.has(k)));
+  const row: SheetRow = {
+    ...Object.fromEntries(Object.entries(t.inputs).filter(([k]) => fields.has(k)).map(([k, v]) => [k, cell(v)])),
+    ticket_id: t.id,
+    idempotency_key: t.idempotency_key,
+    received_at: new Date().toISOString(),
+    tenant_id: t.context.tenant_id,
+    dept: t.dept,
+    action: t.action,
+    fallback_reason: reason,
+    row_status: 'open',
+    extra: Object.keys(extra).length ? JSON.stringify(extra) : ''
+  };
+
+  const sheet = `${t.dept}.${t.action}`;
+  const added = await r.adapter.appendRow(r.ctx, sheet, columns, row);
+  return {
+    summary: `${t.dept} ${t.action} routed to generic ticketing (${from} unavailable): ${added.sheet} row ${added.row_number}`,
+    output: { sheet: added.sheet, row_number: added.row_number },
+    via: via(r),
+    fallback: { used: true, reason, from, sheet: added.sheet, row_number: added.row_number }
+  };
+}
@@ -0,0 +1,190 @@
+import type { DeptTicket } from '../departments.js';
+import type { AdapterContext, BillingDocument, PaymentsAdapter } from '../adapters/types.js';
+import {
+  addDays, dueDateFor, nextNumber, periodRange, priceLines, renderHtml, todayIn,
+  type BillingDoc, type LineInput, type Period
+} from '../billing.js';
+import { tenantFile, withFileLock } from '../store.js';
+import { tenantTimeZone } from '../time.js';
+import { connect, RejectedError, str, via, type HandlerOutcome } from './common.js';
+
+/**
+ * FIN on top of the tenant payments adapter: numbered quotes → accepted →
+ * invoices with due dates. Math and rendering live in ../billing.ts.
+ */
+
+function linesFrom(i: Record<string, unknown>, fallbackLabel: string): LineInput[] {
+  if (Array.isArray(i.line_items) && i.line_items.length) return i.line_items as LineInput[];
+  if (typeof i.amount === 'number') return [{ description: str(i.notes) || fallbackLabel, quantity: 1, unit_price: i.amount }];
+  throw new RejectedError('line_items', 'missing', 'line_items or amount is required');
+}
+
+function sellerOf(t: DeptTicket) {
+  const caps = t.context.capabilities as any;
+  return caps?.billing?.seller || (caps?.company?.name ? { name: caps.company.name } : undefined);
+}
+
+async function findByNumber(pay: PaymentsAdapter, ctx: AdapterContext, kind: BillingDocument['kind'], number: string) {
+  const n = number.trim().toUpperCase();
+  return (await pay.listDocuments(ctx, kind)).find(d => String(d.number).toUpperCase() === n);
+}
+
+/** JSON view of a stored document (what the HTML is rendered from). */
+export function docView(d: BillingDocument): BillingDoc {
+  return {
+    kind: d.kind,
+    number: String(d.number),
+    customer: d.customer,
+    customer_email: d.customer_email as string | undefined,
+    issue_date: String(d.issue_date),
+    valid_until: d.valid_until as string | undefined,
+    due_date: d.due_date as string | undefined,
+    terms: d.terms as string | undefined,
+    quote_number: d.quote_number as string | undefined,
+    lines: (d.lines || []) as BillingDoc['lines'],
+    totals: d.totals as BillingDoc['totals'],
+    notes: d.notes as string | undefined,
+    seller: d.seller as BillingDoc['seller']
+  };
+}
+
+function documentOutput(d: BillingDocument) {
+  const view = docView(d);
+  return {
+    [`${d.kind}_id`]: d.id,
+    [`${d.kind}_number`]: d.number,
+    status: d.status,
+    total: view.totals.total,
+    currency: view.totals.currency,
+    ...(view.due_date ? { due_date: view.due_date } : {}),
+    document: view,
+    html: renderHtml(view)
+  };
+}
+
+export async function handleFin(t: DeptTicket): Promise<HandlerOutcome> {
+  const r = connect('payments', t);
+  const { adapter: pay, ctx } = r;
+  const i = t.inputs;
+  const today = todayIn(tenantTimeZone(t.context.capabilities));
+
+  switch (t.action) {
+    case 'draft_quote': {
+      const currency = String(i.currency || 'USD');
+      const { lines, totals } = priceLines(linesFrom(i, 'Services'), { currency, tax_rate: Number(i.tax_rate || 0) });
+      const number = await nextNumber(ctx.tenant_id, 'quote');
+      const doc = await pay.createDocument(ctx, {
+        kind: 'quote',
+        number,
+        customer: String(i.customer),
+        customer_email: str(i.customer_email),
+        currency,
+        total: totals.total,
+        status: 'draft',
+        issue_date: today,
+        valid_until: addDays(today, Number(i.valid_days || 30)),
+        terms: String(i.terms || 'NET 30'),
+        lines,
+        totals,
+        notes: str(i.notes),
+        seller: sellerOf(t)
+      });
+      return {
+        summary: `FIN drafted quote ${number} for ${doc.customer}: ${totals.total} ${currency} (terms=${doc.terms})`,
+        output: documentOutput(doc),
+        via: via(r)
+      };
+    }
+
+    case 'accept_quote': {
+      const quote = await findByNumber(pay, ctx, 'quote', String(i.quote_number));
+      if (!quote) throw new RejectedError('quote_number', 'not_found', `quote not found: ${i.quote_number}`);
+      if (quote.status === 'accepted') {
+        return { summary: `FIN quote ${quote.number} was already accepted`, output: documentOutput(quote), via: via(r) };
+      }
+      if (quote.status !== 'draft' && quote.status !== 'sent') {
+        throw new RejectedError('quote_number', 'invalid_state', `quote ${quote.number} is ${quote.status}`);
+      }
+      if (quote.valid_until && String(quote.valid_until) < today) {
+        throw new RejectedError('quote_number', 'invalid_state', `quote ${quote.number} expired on ${quote.valid_until}`);
+      }
+      const accepted = await pay.updateDocument(ctx, quote.id, {
+        status: 'accepted',
+        accepted_at: new Date().toISOString(),
+        accepted_by: str(i.accepted_by)
+      });
+      return { summary: `FIN quote ${accepted.number} accepted`, output: documentOutput(accepted), via: via(r) };
+    }
+
+    case 'invoice_issue':
+      // find → number → create → mark invoiced must not interleave, or one quote is invoiced twice
+      return withFileLock(tenantFile(ctx.tenant_id, 'fin/invoice_issue.lock'), async () => {
+        const issue_date = str(i.issue_date) || today;
+        let base: Pick<BillingDoc, 'customer' | 'customer_email' | 'lines' | 'totals' | 'seller'> & { terms: string; quote?: BillingDocument };
+
+        if (str(i.quote_number)) {
+          const quote = await findByNumber(pay, ctx, 'quote', String(i.quote_number));
+          if (!quote) throw new RejectedError('quote_number', 'not_found', `quote not found: ${i.quote_number}`);
+          if (quote.status === 'invoiced') {
+            throw new RejectedError('quote_number', 'invalid_state', `quote ${quote.number} was already invoiced as ${quote.invoice_number}`);
+          }
+          if (quote.status !== 'accepted') {
+            throw new RejectedError('quote_number', 'invalid_state', `quote ${quote.number} is ${quote.status}; accept it before invoicing`);
+          }
+          const q = docView(quote);
+          base = { customer: q.customer, customer_email: q.customer_email, lines: q.lines, totals: q.totals, seller: q.seller, terms: str(i.terms) || q.terms || 'NET 30', quote };
+        } else {
+          const currency = String(i.currency || 'USD');
+          const { lines, totals } = priceLines(linesFrom(i, 'Services'), { currency, tax_rate: Number(i.tax_rate || 0) });
+          base = { customer: String(i.customer), lines, totals, seller: sellerOf(t), terms: str(i.terms) || 'NET 30' };
+        }
+
+        const { due_date, terms } = dueDateFor(issue_date, base.terms);
+        const number = await nextNumber(ctx.tenant_id, 'invoice');
+        const doc = await pay.createDocument(ctx, {
+          kind: 'invoice',
+          number,
+          customer: base.customer,
+          customer_email: base.customer_email,
+          currency: base.totals.currency,
+          total: base.totals.total,
+          status: 'issued',
+          issue_date,
+          due_date,
+          terms: base.terms,
+          quote_number: base.quote?.number,
+          lines: base.lines,
+          totals: base.totals,
+          notes: str(i.notes),
+          seller: base.seller
+        });
+        if (base.quote) await pay.updateDocument(ctx, base.quote.id, { status: 'invoiced', invoice_number: number });
+
+        return {
+          summary: `FIN issued invoice ${number} for ${doc.customer}: ${base.totals.total} ${base.totals.currency}, due ${due_date}`
+            + (base.quote ? ` (from quote ${base.quote.number})` : ''),
+          output: documentOutput(doc),
+          via: via(r),
+          notes: terms.recognized ? undefined : `unrecognized terms "${base.terms}", assumed NET 30`
+        };
+      });
+
+    case 'revenue_report': {
+      // the current calendar period in the tenant's zone, by invoice issue date
+      const period = (str(i.period) || 'month') as Period;
+      const { from, to } = periodRange(period, today);
+      const invoices = (await pay.listDocuments(ctx, 'invoice'))
+        .filter(d => String(d.issue_date) >= from && String(d.issue_date) < to);
+      const byCurrency: Record<string, number> = {};
+      for (const d of invoices) byCurrency[d.currency] = (byCurrency[d.currency] || 0) + (d.total || 0);
+      return {
+        summary: `FIN revenue report (${period} from ${from}): ${invoices.length} invoice(s)`,
+        output: { period, from, to, invoices: invoices.length, totals: byCurrency },
+        via: via(r)
+      };
+    }
+
+    default:
+      return { summary: `FIN processed: ${t.action} (terms=${i.terms || 'NET 30'})`, via: via(r) };
+  }
+}
@@ -0,0 +1,157 @@
+import type { DeptTicket } from '../departments.js';
+import { todayIn } from '../billing.js';
+import { detectTemplate, reviewContract } from '../contracts.js';
+import { isTemplateId, ourParty, renderDocument, resolveVariables, templateFor, type LegalTemplate, type TemplateId } from '../legal.js';
+import { tenantTimeZone } from '../time.js';
+import { RejectedError, str, type HandlerOutcome, type Via } from './common.js';
+
+/**
+ * LEGAL drafts from the tenant's standard templates and reviews third-party
+ * paper against them. Templates live in ../legal.ts, the clause diff in
+ * ../contracts.ts; no external provider is involved.
+ */
+
+const VIA: Via = { adapter: 'internal', provider: 'templates:local' };
+
+/** Template variables named by the request (undefined = fall back to tenant/template defaults). */
+function variablesFor(id: TemplateId, t: DeptTicket): Record<string, unknown> {
+  const i = t.inputs;
+  const ours = ourParty(t.context.capabilities);
+  const theirs = str(i.counterparty) ? { name: str(i.counterparty), address: str(i.counterparty_address) } : undefined;
+  const common = {
+    effective_date: str(i.effective_date) || todayIn(tenantTimeZone(t.context.capabilities)),
+    governing_law: str(i.governing_law),
+    term_months: i.term_months
+  };
+
+  switch (id) {
+    case 'msa':
+      return {
+        ...common,
+        our_party: ours,
+        counterparty: theirs,
+        liability_cap: typeof i.liability_cap === 'number' ? { amount: i.liability_cap, currency: i.currency } : undefined,
+        payment_terms: str(i.payment_terms),
+        notice_days: i.notice_days
+      };
+    case 'nda_mutual':
+    case 'nda_one_way': {
+      const weDisclose = i.disclosing_party !== 'counterparty';
+      return {
+        ...common,
+        ...(id === 'nda_mutual'
+          ? { our_party: ours, counterparty: theirs }
+          : { discloser: weDisclose ? ours : theirs, recipient: weDisclose ? theirs : ours }),
+        purpose: str(i.purpose),
+        confidentiality_years: i.confidentiality_years
+      };
+    }
+    case 'dpa': {
+      const weControl = i.our_role !== 'processor';
+      return {
+        ...common,
+        controller: weControl ? ours : theirs,
+        processor: weControl ? theirs : ours,
+        processing_purpose: str(i.processing_purpose),
+        data_categories: i.data_categories,
+        data_subjects: i.data_subjects,
+        subprocessors: i.subprocessors,
+        breach_notice_hours: i.breach_notice_hours
+      };
+    }
+  }
+}
+
+function generate(t: DeptTicket, id: TemplateId): HandlerOutcome {
+  const tpl = templateFor(id, t.context.capabilities);
+  const check = resolveVariables(tpl, variablesFor(id, t), t.context.capabilities);
+  if (check.missing.length || check.invalid.length) {
+    const problems = [
+      ...check.missing.map(v => `${v} (${tpl.variables[v].description.toLowerCase()})`),
+      ...check.invalid.map(v => v.message)
+    ];
+    const ours = check.missing.some(v => ['our_party', 'discloser', 'recipient', 'controller', 'processor'].includes(v)) && !ourParty(t.context.capabilities);
+    throw new RejectedError(
+      check.missing[0] || check.invalid[0].variable,
+      check.missing.length ? 'missing' : 'invalid_state',
+      `${tpl.doc_type} needs ${problems.join(', ')}` + (ours ? '; set capabilities.legal.entity to name our contracting entity' : ''),
+      { template: id, missing: check.missing, invalid: check.invalid }
+    );
+  }
+
+  const doc = renderDocument(tpl, check.values);
+  const counterparty = str(t.inputs.counterparty);
+  return {
+    summary: `LEGAL drafted ${tpl.id === 'nda_mutual' ? 'mutual NDA' : tpl.id === 'nda_one_way' ? 'one-way NDA' : tpl.doc_type} with ${counterparty}`
+      + ` (${check.values.governing_law} law, effective ${check.values.effective_date})`,
+    output: {
+      template: doc.template,
+      doc_type: doc.doc_type,
+      title: doc.title,
+      counterparty,
+      effective_date: check.values.effective_date,
+      governing_law: check.values.governing_law,
+      variables: check.values,
+      clauses: doc.clauses,
+      text: doc.text,
+      html: doc.html
+    },
+    via: VIA
+  };
+}
+
+/** Values we would have put in our own paper; free-text defaults (purpose etc.) are not held against theirs. */
+function expectedFor(tpl: LegalTemplate, t: DeptTicket) {
+  const strict: LegalTemplate = {
+    ...tpl,
+    variables: Object.fromEntries(Object.entries(tpl.variables).map(([k, v]) =>
+      [k, v.type === 'text' || v.type === 'list' ? { ...v, default: undefined } : v]))
+  };
+  const { values } = resolveVariables(strict, {}, t.context.capabilities);
+  delete values.effective_date;
+  if (str(t.inputs.counterparty) && tpl.variables.counterparty) values.counterparty = { name: str(t.inputs.counterparty) };
+  const ours = ourParty(t.context.capabilities);
+  if (ours && tpl.variables.our_party) values.our_party = ours;
+  return values;
+}
+
+export async function handleLegal(t: DeptTicket): Promise<HandlerOutcome> {
+  const i = t.inputs;
+
+  switch (t.action) {
+    case 'generate_msa':
+      return generate(t, 'msa');
+
+    case 'nda_intake':
+      return generate(t, i.mutual === false ? 'nda_one_way' : 'nda_mutual');
+
+    case 'dpa_request':
+      return generate(t, 'dpa');
+
+    case 'review_contract': {
+      const text = String(i.contract_text);
+      const id = isTemplateId(i.template) ? i.template : detectTemplate(text, str(i.doc_type));
+      if (!id) {
+        throw new RejectedError('template', 'missing', 'cannot tell which standard template this contract follows; set template to msa, nda_mutual, nda_one_way or dpa');
+      }
+      const tpl = templateFor(id, t.context.capabilities);
+      const review = reviewContract(text, tpl, expectedFor(tpl, t));
+      const c = review.counts;
+      const changes = [
+        c.modified ? `${c.modified} modified` : '',
+        c.missing ? `${c.missing} missing` : '',
+        c.added ? `${c.added} added` : ''
+      ].filter(Boolean);
+      return {
+        summary: `LEGAL reviewed ${str(i.counterparty) ? `${str(i.counterparty)}'s ` : ''}${tpl.doc_type} against our standard: `
+          + (changes.length ? changes.join(', ') : 'no clause changes')
+          + `, ${review.flags.length} flag${review.flags.length === 1 ? '' : 's'} (risk ${review.risk})`,
+        output: { ...review, flag_count: review.flags.length },
+        via: VIA
+      };
+    }
+
+    default:
+      return { summary: `LEGAL processed: ${t.action} (doc=${i.doc_type || 'n/a'})`, via: VIA };
+  }
+}
@@ -0,0 +1,27 @@
+import type { DeptTicket } from '../departments.js';
+import { connect, str, via, type HandlerOutcome } from './common.js';
+
+/**
+ * MARKETING sends through the tenant email messaging adapter.
+ */
+
+export async function handleMarketing(t: DeptTicket): Promise<HandlerOutcome> {
+  const r = connect('messaging', t, 'email');
+  const i = t.inputs;
+
+  switch (t.action) {
+    case 'send_newsletter': {
+      const sent = await r.adapter.send(r.ctx, {
+        channel: 'email',
+        to: `segment:${i.segment}`,
+        subject: str(i.subject) || 'Newsletter',
+        body: str(i.notes) || '',
+        meta: str(i.send_at) ? { send_at: str(i.send_at) } : undefined
+      });
+      return { summary: `MARKETING queued newsletter to ${sent.to}`, output: { message_id: sent.id }, via: via(r) };
+    }
+
+    default:
+      return { summary: `MARKETING processed: ${t.action} (campaign=${i.campaign || 'n/a'})`, via: via(r) };
+  }
+}
@@ -0,0 +1,170 @@
+import type { DeptTicket } from '../departments.js';
+import type { CalendarEvent } from '../adapters/types.js';
+import {
+  blockingEvents, conflictsWith, findSlots, localLabel, schedulingSettings, toIcs, withinWorkingHours,
+  type Attendee, type Slot
+} from '../scheduling.js';
+import { tenantFile, withFileLock } from '../store.js';
+import { businessHours, parseLocalDateTime } from '../time.js';
+import { connect, RejectedError, str, via, type HandlerOutcome } from './common.js';
+
+/**
+ * OPS on top of the tenant calendar adapter: slot search against the tenant's
+ * working hours, .ics invites, reschedule/cancel on the same event UID.
+ */
+
+const MINUTE = 60_000;
+
+function attendeesOf(i: Record<string, unknown>): Attendee[] {
+  const listed = Array.isArray(i.attendees) ? (i.attendees as Attendee[]) : [];
+  const single = (str(i.attendee) || str(i.attendee_email)) ? [{ name: str(i.attendee), email: str(i.attendee_email) }] : [];
+  const seen = new Set<string>();
+  return [...single, ...listed]
+    .map(a => ({ ...(str(a.name) ? { name: str(a.name) } : {}), ...(str(a.email) ? { email: str(a.email) } : {}) }))
+    .filter(a => {
+      const key = (a.email || a.name || '').toLowerCase();
+      if (!key || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+}
+
+function startOf(value: unknown, tz: string, field = 'start') {
+  const at = parseLocalDateTime(String(value), tz);
+  if (!at) throw new RejectedError(field, 'invalid_state', `unreadable ${field} time: ${value}`);
+  return at;
+}
+
+export async function handleOps(t: DeptTicket): Promise<HandlerOutcome> {
+  const r = connect('calendar', t);
+  const { adapter: cal, ctx } = r;
+  const i = t.inputs;
+  const hours = businessHours(t.context.capabilities);
+  const tz = hours.timezone;
+  const settings = schedulingSettings(t.context.capabilities);
+  const buffer_min = typeof i.buffer_min === 'number' ? i.buffer_min : settings.buffer_min;
+  const now = new Date();
+
+  const eventOutput = (ev: CalendarEvent, extra: Record<string, unknown> = {}) => ({
+    event_uid: ev.uid,
+    status: ev.status,
+    sequence: ev.sequence,
+    start: ev.start,
+    end: ev.end,
+    local_start: localLabel(ev.start, tz),
+    timezone: tz,
+    attendees: ev.attendees,
+    ics: toIcs(ev, { organizer: settings.organizer }),
+    ...extra
+  });
+
+  /**
+   * Resolve the slot for a requested start: free → that slot; taken and
+   * on_conflict=next_free → first alternative; otherwise reject with alternatives.
+   */
+  async function pickSlot(start: Date, length_min: number, calendar: string, attendees: Attendee[], ignoreUid?: string) {
+    const end = new Date(start.getTime() + length_min * MINUTE);
+    if (start < now) throw new RejectedError('start', 'invalid_state', `start ${localLabel(start.toISOString(), tz)} (${tz}) is in the past`);
+
+    const busy = blockingEvents(await cal.listEvents(ctx), calendar, attendees, ignoreUid);
+    const clashes = conflictsWith(busy, start, end, buffer_min);
+    const inHours = withinWorkingHours(start, end, hours);
+    if (inHours && !clashes.length) return { slot: { start: start.toISOString(), end: end.toISOString() } as Slot, moved: false };
+
+    const alternatives = findSlots(busy, { from: start, length_min, hours, buffer_min, step_min: settings.step_min, within_days: Number(i.within_days || 14) });
+    const why = !inHours
+      ? `outside working hours ${hours.start}-${hours.end} ${tz}`
+      : `taken by ${clashes.map(e => `"${e.title}" (${localLabel(e.start, tz)})`).join(', ')}`;
+
+    if (i.on_conflict === 'next_free' && alternatives.length) return { slot: alternatives[0], moved: true, why };
+    throw new RejectedError('start', 'conflict', `${localLabel(start.toISOString(), tz)} ${tz} is ${why}`, {
+      requested: { start: start.toISOString(), end: end.toISOString() },
+      conflicts: clashes.map(e => ({ event_uid: e.uid, title: e.title, start: e.start, end: e.end })),
+      alternatives: alternatives.map(s => ({ ...s, local_start: localLabel(s.start, tz) })),
+      timezone: tz
+    });
+  }
+
+  /** Slot check and write run under one per-tenant lock so two bookings cannot take the same slot. */
+  const booking = <T>(fn: () => Promise<T>) => withFileLock(tenantFile(ctx.tenant_id, 'calendar/booking.lock'), fn);
+
+  switch (t.action) {
+    case 'schedule_meeting':
+      return booking(async () => {
+        const length_min = Number(i.length_min || 30);
+        const calendar = String(i.calendar || 'owner');
+        const attendees = attendeesOf(i);
+
+        let picked: { slot: Slot; moved: boolean; why?: string };
+        if (str(i.start)) {
+          picked = await pickSlot(startOf(i.start, tz), length_min, calendar, attendees);
+        } else {
+          const earliest = str(i.earliest) ? startOf(i.earliest, tz, 'earliest') : now;
+          const busy = blockingEvents(await cal.listEvents(ctx), calendar, attendees);
+          const [slot] = findSlots(busy, {
+            from: earliest < now ? now : earliest, length_min, hours, buffer_min,
+            step_min: settings.step_min, within_days: Number(i.within_days || 14), limit: 1
+          });
+          if (!slot) throw new RejectedError('start', 'conflict', `no free ${length_min}-minute slot in the next ${i.within_days || 14} day(s)`);
+          picked = { slot, moved: false };
+        }
+
+        const ev = await cal.createEvent(ctx, {
+          calendar,
+          title: str(i.title) || (attendees[0]?.name ? `Meeting with ${attendees[0].name}` : 'Meeting'),
+          start: picked.slot.start,
+          end: picked.slot.end,
+          attendees,
+          ...(str(i.location) ? { location: str(i.location) } : {})
+        });
+        return {
+          summary: `OPS booked "${ev.title}" on ${ev.calendar} at ${localLabel(ev.start, tz)} ${tz}`
+            + (picked.moved ? ' (next free slot; requested time unavailable)' : ''),
+          output: eventOutput(ev),
+          via: via(r),
+          notes: picked.why ? `requested start was ${picked.why}` : undefined
+        };
+      });
+
+    case 'reschedule_meeting':
+      return booking(async () => {
+        const cur = await cal.getEvent(ctx, String(i.event_uid));
+        if (!cur) throw new RejectedError('event_uid', 'not_found', `event not found: ${i.event_uid}`);
+        if (cur.status === 'cancelled') throw new RejectedError('event_uid', 'invalid_state', `event ${cur.uid} is cancelled`);
+        const length_min = typeof i.length_min === 'number' ? i.length_min : (Date.parse(cur.end) - Date.parse(cur.start)) / MINUTE;
+
+        const picked = await pickSlot(startOf(i.start, tz), length_min, cur.calendar, cur.attendees, cur.uid);
+        const ev = await cal.updateEvent(ctx, cur.uid, { start: picked.slot.start, end: picked.slot.end });
+        const was_min = (Date.parse(cur.end) - Date.parse(cur.start)) / MINUTE;
+        const lengthNote = length_min !== was_min ? `, now ${length_min} min (was ${was_min})` : '';
+        const summary = ev.start !== cur.start
+          ? `OPS moved "${ev.title}" from ${localLabel(cur.start, tz)} to ${localLabel(ev.start, tz)} ${tz}${lengthNote}`
+          : lengthNote
+            ? `OPS changed "${ev.title}" at ${localLabel(ev.start, tz)} ${tz} to ${length_min} min (was ${was_min})`
+            : `OPS kept "${ev.title}" at ${localLabel(ev.start, tz)} ${tz} (no change)`;
+        return {
+          summary,
+          output: eventOutput(ev, { previous: { start: cur.start, end: cur.end } }),
+          via: via(r),
+          notes: picked.why ? `requested start was ${picked.why}` : undefined
+        };
+      });
+
+    case 'cancel_meeting': {
+      const cur = await cal.getEvent(ctx, String(i.event_uid));
+      if (!cur) throw new RejectedError('event_uid', 'not_found', `event not found: ${i.event_uid}`);
+      if (cur.status === 'cancelled') {
+        return { summary: `OPS "${cur.title}" was already cancelled`, output: eventOutput(cur), via: via(r) };
+      }
+      const ev = await cal.updateEvent(ctx, cur.uid, {
+        status: 'cancelled',
+        cancelled_at: now.toISOString(),
+        ...(str(i.reason) ? { cancel_reason: str(i.reason) } : {})
+      });
+      return { summary: `OPS cancelled "${ev.title}" (${localLabel(ev.start, tz)} ${tz})`, output: eventOutput(ev), via: via(r) };
+    }
+
+    default:
+      return { summary: `OPS processed: ${t.action} (${i.length_min || 30} minutes)`, via: via(r) };
+  }
+}
@@ -0,0 +1,260 @@
+import type { DeptTicket } from '../departments.js';
+import { formatMoney, nextNumber, priceLines, todayIn, type LineInput } from '../billing.js';
+import {
+  assessVendor, coerceAnswers, findQuote, findVendor, getComparison, listContracts, nextRenewalDate, questionnaireFor,
+  renewalFlags, renewalWindow, saveComparison, saveContract, savePurchaseOrder, saveVendor, scoreQuotes, vendorKey,
+  weightsFor, type Comparison, type QuoteInput, type RankedQuote, type Vendor, type VendorContract
+} from '../procurement.js';
+import { newId, tenantFile, withFileLock } from '../store.js';
+import { tenantTimeZone } from '../time.js';
+import { RejectedError, str, type HandlerOutcome, type Via } from './common.js';
+
+/**
+ * PROCUREMENT over the tenant's vendor registry (../procurement.ts): intake
+ * questionnaires, weighted quote comparison, numbered POs from the winning
+ * quote and renewal flags on vendor contracts.
+ */
+
+const VIA: Via = { adapter: 'internal', provider: 'procurement:local' };
+
+async function mustFindVendor(tenant_id: string, ref: string) {
+  const v = await findVendor(tenant_id, ref);
+  if (!v) throw new RejectedError('vendor', 'not_found', `vendor ${ref} is not in the registry; run vendor_intake first`);
+  return v;
+}
+
+function vendorOutput(v: Vendor, questions: ReturnType<typeof questionnaireFor>) {
+  return {
+    vendor_id: v.id,
+    vendor: v.name,
+    status: v.status,
+    risk: v.risk,
+    risk_reasons: v.risk_reasons,
+    missing: v.missing,
+    open_questions: questions.filter(q => v.missing.includes(q.id)).map(q => ({ id: q.id, question: q.question, ...(q.options ? { options: q.options } : {}) }))
+  };
+}
+
+export async function handleProcurement(t: DeptTicket): Promise<HandlerOutcome> {
+  const i = t.inputs;
+  const tenant_id = t.context.tenant_id;
+  const now = new Date().toISOString();
+  const today = todayIn(tenantTimeZone(t.context.capabilities));
+
+  switch (t.action) {
+    case 'vendor_intake': {
+      const questions = questionnaireFor(t.context.capabilities);
+      const { answers, invalid } = coerceAnswers(questions, (i.answers as Record<string, unknown>) || {});
+      if (invalid.length) throw new RejectedError('answers', 'invalid_state', `unusable answers: ${invalid.join('; ')}`);
+
+      // the lookup and the save must not interleave, or two intakes of one vendor register it twice
+      const { cur, v } = await withFileLock(tenantFile(tenant_id, 'procurement/vendors.lock'), async () => {
+        const cur = await findVendor(tenant_id, String(i.vendor));
+        const merged = { ...(cur?.answers || {}), ...answers };
+        const assessed = assessVendor(questions, merged);
+        let decision = cur?.decision;
+        if (i.decision) {
+          if (assessed.missing.length) {
+            throw new RejectedError('decision', 'invalid_state', `${cur?.name || i.vendor} still has unanswered questions: ${assessed.missing.join(', ')}`);
+          }
+          decision = { at: now, by: `${t.dept}.${t.action}:${t.id}`, status: i.decision === 'reject' ? 'rejected' : 'approved', ...(str(i.note) ? { note: str(i.note) } : {}) };
+        }
+
+        const v = await saveVendor(tenant_id, {
+          id: cur?.id || newId('ven'),
+          name: cur?.name || String(i.vendor).trim(),
+          key: cur?.key || vendorKey(String(i.vendor)),
+          contact_email: str(i.contact_email) || cur?.contact_email,
+          contact_phone: str(i.contact_phone) || cur?.contact_phone,
+          category: str(i.category) || cur?.category,
+          website: str(i.website) || cur?.website,
+          answers: merged,
+          missing: assessed.missing,
+          risk: assessed.risk,
+          risk_reasons: assessed.risk_reasons,
+          // a reviewer decision stands until the questionnaire has gaps again
+          status: decision && !assessed.missing.length ? decision.status : assessed.status,
+          ...(decision ? { decision } : {}),
+          created_at: cur?.created_at || now,
+          updated_at: now
+        });
+        return { cur, v };
+      });
+      const state = v.status === 'onboarding'
+        ? `onboarding; ${v.missing.length} question${v.missing.length === 1 ? '' : 's'} open`
+        : `${v.status}, risk ${v.risk}`;
+      return {
+        summary: `PROCUREMENT ${cur ? 'updated' : 'registered'} vendor ${v.name} (${state})`,
+        output: { ...vendorOutput(v, questions), created: !cur },
+        via: VIA,
+        notes: v.status === 'review' ? `needs review: ${v.risk_reasons.join('; ')}` : undefined
+      };
+    }
+
+    case 'compare_quotes': {
+      const quotes = (i.quotes as QuoteInput[]).map(q => ({ ...q, currency: String(q.currency || i.currency || 'USD').toUpperCase() }));
+      if (quotes.length < 2) throw new RejectedError('quotes', 'missing', 'need at least two quotes to compare');
+      const currencies = [...new Set(quotes.map(q => q.currency))];
+      if (currencies.length > 1) throw new RejectedError('quotes', 'invalid_state', `quotes are in different currencies (${currencies.join(', ')}); convert them first`);
+
+      const weights = weightsFor(t.context.capabilities, i.criteria as Record<string, unknown> | undefined);
+      const vendors = await Promise.all(quotes.map(q => findVendor(tenant_id, q.vendor)));
+      const ranking = scoreQuotes(quotes.map(q => ({ ...q, quote_id: newId('vq') })), vendors, weights);
+      const best = ranking[0].eligible ? ranking[0] : undefined;
+      const recommendation = best
+        ? `Recommend ${best.vendor}: ${best.rationale}` + (best.vendor_status !== 'approved' ? `. ${best.vendor} is ${best.vendor_status === 'unregistered' ? 'not in the registry' : best.vendor_status}; it needs approval before a PO` : '')
+        : 'No eligible quote: every vendor is rejected';
+      const c = await saveComparison(tenant_id, {
+        id: newId('cmp'),
+        created_at: now,
+        ...(str(i.subject) ? { subject: str(i.subject) } : {}),
+        currency: currencies[0],
+        weights,
+        ranking,
+        ...(best ? { recommended_quote_id: best.quote_id } : {}),
+        recommendation
+      });
+      return {
+        summary: `PROCUREMENT compared ${ranking.length} quotes: ` + (best ? `recommend ${best.vendor} (${best.total}/100)` : 'none eligible'),
+        output: {
+          comparison_id: c.id,
+          ...(best ? { recommended_quote_id: best.quote_id, recommended_vendor: best.vendor } : {}),
+          weights,
+          ranking,
+          recommendation
+        },
+        via: VIA
+      };
+    }
+
+    case 'create_po':
+      // the awarded check and the award itself must not interleave, or one comparison gets two POs
+      return withFileLock(tenantFile(tenant_id, 'procurement/create_po.lock'), async () => {
+        let comparison: Comparison | undefined;
+        let quote: RankedQuote | undefined;
+        if (str(i.quote_id)) {
+          const found = await findQuote(tenant_id, String(i.quote_id));
+          if (!found) throw new RejectedError('quote_id', 'not_found', `quote not found: ${i.quote_id}`);
+          ({ comparison, quote } = found);
+        } else if (str(i.comparison_id)) {
+          comparison = await getComparison(tenant_id, String(i.comparison_id));
+          if (!comparison) throw new RejectedError('comparison_id', 'not_found', `comparison not found: ${i.comparison_id}`);
+          quote = comparison.ranking.find(q => q.quote_id === comparison!.recommended_quote_id);
+          if (!quote) throw new RejectedError('comparison_id', 'invalid_state', `comparison ${comparison.id} has no eligible quote to order from`);
+        }
+        if (comparison?.awarded) {
+          throw new RejectedError(quote ? 'quote_id' : 'comparison_id', 'invalid_state',
+            `comparison ${comparison.id} was already awarded on ${comparison.awarded.po_number}`);
+        }
+
+        const v = await mustFindVendor(tenant_id, quote?.vendor_id || quote?.vendor || String(i.vendor));
+        if (v.status !== 'approved') {
+          const why = v.status === 'onboarding' ? `questionnaire incomplete (${v.missing.join(', ')})`
+            : v.status === 'review' ? `awaiting review (${v.risk_reasons.join('; ')})` : 'rejected';
+          throw new RejectedError('vendor', 'invalid_state', `vendor ${v.name} is not approved: ${why}`);
+        }
+
+        const currency = String(quote?.currency || i.currency || 'USD');
+        const lines: LineInput[] = quote
+          ? [{ description: quote.reference || comparison?.subject || `Per ${v.name} quote`, quantity: 1, unit_price: quote.amount }]
+          : Array.isArray(i.line_items) && i.line_items.length ? i.line_items as LineInput[]
+          : typeof i.amount === 'number' ? [{ description: str(i.notes) || `Purchase from ${v.name}`, quantity: 1, unit_price: i.amount }]
+          : [];
+        if (!lines.length) throw new RejectedError('line_items', 'missing', 'line_items, amount or a quote is required');
+        const { lines: priced, totals } = priceLines(lines, { currency });
+
+        const number = await nextNumber(tenant_id, 'po');
+        const po = await savePurchaseOrder(tenant_id, {
+          id: newId('po'),
+          number,
+          vendor_id: v.id,
+          vendor: v.name,
+          status: 'issued',
+          issue_date: today,
+          ...(str(i.delivery_date) ? { delivery_date: str(i.delivery_date) } : {}),
+          terms: str(i.terms) || quote?.payment_terms || 'NET 30',
+          lines: priced,
+          totals,
+          ...(quote ? { quote_id: quote.quote_id } : {}),
+          ...(comparison ? { comparison_id: comparison.id } : {}),
+          ...(str(i.notes) ? { notes: str(i.notes) } : {}),
+          created_at: now
+        });
+        if (comparison && quote) await saveComparison(tenant_id, { ...comparison, awarded: { quote_id: quote.quote_id, po_number: number } });
+
+        return {
+          summary: `PROCUREMENT issued ${number} to ${v.name} for ${formatMoney(totals.total, totals.currency)}` + (quote ? ` (quote ${quote.quote_id})` : ''),
+          output: {
+            po_id: po.id,
+            po_number: number,
+            vendor_id: v.id,
+            vendor: v.name,
+            status: po.status,
+            total: totals.total,
+            currency: totals.currency,
+            terms: po.terms,
+            ...(po.quote_id ? { quote_id: po.quote_id } : {}),
+            ...(po.comparison_id ? { comparison_id: po.comparison_id } : {}),
+            document: po
+          },
+          via: VIA
+        };
+      });
+
+    case 'renew_contract': {
+      const within = Number(i.within_days) > 0 ? Number(i.within_days) : renewalWindow(t.context.capabilities);
+      let contract: VendorContract | undefined;
+      let did = '';
+
+      if (str(i.vendor)) {
+        const v = await mustFindVendor(tenant_id, String(i.vendor));
+        const cur = (await listContracts(tenant_id)).find(c => c.vendor_id === v.id && c.status === 'active');
+        if (i.renew === true) {
+          if (!cur) throw new RejectedError('vendor', 'not_found', `no active contract on file for ${v.name}`);
+          const to = str(i.renewal_date) && String(i.renewal_date) > cur.renewal_date ? String(i.renewal_date) : nextRenewalDate(cur);
+          const amount = typeof i.amount === 'number' ? i.amount : cur.amount;
+          contract = await saveContract(tenant_id, {
+            ...cur,
+            renewal_date: to,
+            ...(amount !== undefined ? { amount } : {}),
+            renewals: [...cur.renewals, { at: now, from: cur.renewal_date, to, ...(amount !== undefined ? { amount } : {}) }],
+            updated_at: now
+          });
+          did = `renewed ${v.name} until ${to}`;
+        } else if (str(i.renewal_date) || cur) {
+          contract = await saveContract(tenant_id, {
+            id: cur?.id || newId('vc'),
+            vendor_id: v.id,
+            vendor: v.name,
+            renewal_date: str(i.renewal_date) || cur!.renewal_date,
+            ...(typeof i.amount === 'number' ? { amount: i.amount, currency: String(i.currency || 'USD') } : cur?.amount !== undefined ? { amount: cur.amount, currency: cur.currency } : {}),
+            auto_renew: typeof i.auto_renew === 'boolean' ? i.auto_renew : cur?.auto_renew ?? false,
+            notice_days: Number(i.notice_days ?? cur?.notice_days ?? 30),
+            term_months: Number(i.term_months ?? cur?.term_months ?? 12),
+            status: 'active',
+            renewals: cur?.renewals || [],
+            created_at: cur?.created_at || now,
+            updated_at: now
+          });
+          did = `${cur ? 'updated' : 'tracking'} ${v.name} contract (renews ${contract.renewal_date})`;
+        } else {
+          throw new RejectedError('renewal_date', 'missing', `no contract on file for ${v.name}; give renewal_date to start tracking it`);
+        }
+      }
+
+      const all = await listContracts(tenant_id);
+      const flags = renewalFlags(contract ? all.filter(c => c.id === contract!.id) : all, today, within);
+      const attention = flags.length
+        ? `${flags.length} contract${flags.length === 1 ? '' : 's'} need${flags.length === 1 ? 's' : ''} attention: ${flags.map(f => f.message).join('; ')}`
+        : `nothing renews within ${within} days`;
+      return {
+        summary: `PROCUREMENT ${did ? `${did}; ` : 'renewal check: '}${attention}`,
+        output: { ...(contract ? { contract_id: contract.id, renewal_date: contract.renewal_date, contract } : {}), within_days: within, flags, flag_count: flags.length },
+        via: VIA
+      };
+    }
+
+    default:
+      return { summary: `PROCUREMENT processed: ${t.action} (vendor=${i.vendor || 'n/a'})`, via: VIA };
+  }
+}
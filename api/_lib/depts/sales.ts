@@ -0,0 +1,188 @@
+import type { DeptTicket } from '../departments.js';
+import type { AdapterContext, CrmAdapter, Lead } from '../adapters/types.js';
+import { checkTransition, companyDomain, matchLead, normalizeName, pipelineFor, timeline, type PipelineGraph } from '../leads.js';
+import { tenantFile, withFileLock } from '../store.js';
+import { parseLocalDateTime, tenantTimeZone } from '../time.js';
+import { connect, RejectedError, str, via, type HandlerOutcome } from './common.js';
+
+/**
+ * SALES on top of the tenant CRM adapter: deduped leads, a per-tenant stage
+ * graph (../leads.ts) and a lead timeline that stage changes also land on.
+ */
+
+/** Lead named by lead_id, else email, else (fuzzy) name. */
+async function findLead(crm: CrmAdapter, ctx: AdapterContext, i: Record<string, unknown>) {
+  if (str(i.lead_id)) return crm.getLead(ctx, String(i.lead_id));
+  return matchLead(await crm.listLeads(ctx), { email: str(i.email), name: str(i.lead_name) }).match?.lead;
+}
+
+async function mustFindLead(crm: CrmAdapter, ctx: AdapterContext, i: Record<string, unknown>): Promise<Lead> {
+  const lead = await findLead(crm, ctx, i);
+  if (!lead) {
+    const field = str(i.lead_id) ? 'lead_id' : str(i.email) ? 'email' : 'lead_name';
+    throw new RejectedError(field, 'not_found', `lead not found: ${str(i.lead_id) || str(i.email) || str(i.lead_name)}`);
+  }
+  return lead;
+}
+
+function mustTransition(graph: PipelineGraph, from: string | undefined, to: string) {
+  const check = checkTransition(graph, from, to);
+  if (!check.ok) throw new RejectedError('stage', check.code, check.message);
+  return check;
+}
+
+export async function handleSales(t: DeptTicket): Promise<HandlerOutcome> {
+  const r = connect('crm', t);
+  const { adapter: crm, ctx } = r;
+  const i = t.inputs;
+  const graph = pipelineFor(t.context.capabilities);
+
+  const logStageChange = (lead_id: string, from: string | undefined, to: string, subject: string) =>
+    crm.appendActivity(ctx, {
+      lead_id,
+      type: 'stage_change',
+      at: new Date().toISOString(),
+      summary: `${subject} moved ${from || 'none'} → ${to}` + (str(i.reason) ? `: ${str(i.reason)}` : ''),
+      data: { from, to, ticket_id: t.id }
+    });
+
+  switch (t.action) {
+    case 'create_or_update_lead': {
+      const fields = {
+        name: String(i.lead_name),
+        email: str(i.email)?.toLowerCase(),
+        phone: str(i.phone),
+        company: str(i.company),
+        source: str(i.source),
+        domain: companyDomain(str(i.email))
+      };
+      // the duplicate check and the create must not interleave, or two requests for one person create two leads
+      const { match, possible, lead } = await withFileLock(tenantFile(ctx.tenant_id, 'crm/lead_upsert.lock'), async () => {
+        const { match, possible } = matchLead(await crm.listLeads(ctx), { email: fields.email, name: fields.name, company: fields.company });
+        const patch = Object.fromEntries(Object.entries(fields).filter(([, v]) => v !== undefined));
+        // a fuzzy match keeps the stored name/email and only fills gaps; an email
+        // match takes everything except a name that differs only in spelling/case
+        const fill = !match ? patch
+          : match.by !== 'email'
+            ? Object.fromEntries(Object.entries(patch).filter(([k]) => match.lead[k] === undefined || match.lead[k] === ''))
+            : Object.fromEntries(Object.entries(patch).filter(([k]) => k !== 'name' || normalizeName(fields.name) !== normalizeName(match.lead.name)));
+        const lead = match
+          ? await crm.updateLead(ctx, match.lead.id, fill)
+          : await crm.createLead(ctx, { ...patch, name: fields.name, stage: graph.initial });
+        return { match, possible, lead };
+      });
+      return {
+        summary: match
+          ? `SALES updated lead ${lead.name} (${lead.id}, matched by ${match.by})`
+          : `SALES created lead ${lead.name} (${lead.id})`,
+        output: {
+          lead_id: lead.id,
+          created: !match,
+          lead,
+          ...(match ? { matched_by: match.by, match_score: match.score } : {}),
+          ...(possible.length ? { possible_duplicates: possible.map(p => ({ lead_id: p.lead.id, name: p.lead.name, email: p.lead.email, score: p.score })) } : {})
+        },
+        via: via(r),
+        notes: possible.length ? `similar existing lead(s): ${possible.map(p => `${p.lead.name} (${p.score})`).join(', ')}` : undefined
+      };
+    }
+
+    case 'qualify_lead': {
+      const lead = await mustFindLead(crm, ctx, i);
+      const qualification = { budget: i.budget, authority: i.authority, need: i.need, timeline: i.timeline };
+      // qualifying is also a stage move when the graph allows it from here
+      const move = checkTransition(graph, lead.stage, 'qualification');
+      const advance = move.ok && !move.noop;
+      const updated = await crm.updateLead(ctx, lead.id, { qualification, ...(advance ? { stage: 'qualification' } : {}) });
+      if (advance) await logStageChange(lead.id, lead.stage, 'qualification', lead.name);
+      return {
+        summary: `SALES qualified lead ${updated.name}` + (advance ? ' (stage → qualification)' : ` (stage stays ${updated.stage})`),
+        output: { lead_id: updated.id, stage: updated.stage, lead: updated },
+        via: via(r)
+      };
+    }
+
+    case 'create_opportunity': {
+      const lead = str(i.lead_id)
+        ? await mustFindLead(crm, ctx, i)
+        : await findLead(crm, ctx, i) || await crm.createLead(ctx, { name: String(i.lead_name), source: 'opportunity', stage: graph.initial });
+      const stage = str(i.stage) || graph.initial;
+      if (!graph.stages.includes(stage)) throw new RejectedError('stage', 'not_found', `unknown stage "${stage}" (stages: ${graph.stages.join(', ')})`);
+      const opp = await crm.createOpportunity(ctx, {
+        lead_id: lead.id,
+        name: str(i.name) || `${lead.name} opportunity`,
+        amount: typeof i.amount === 'number' ? i.amount : undefined,
+        currency: str(i.currency),
+        stage,
+        close_date: str(i.close_date)
+      });
+      return {
+        summary: `SALES opened opportunity ${opp.id} for ${lead.name} at ${stage}`,
+        output: { opportunity_id: opp.id, lead_id: lead.id, stage },
+        via: via(r)
+      };
+    }
+
+    case 'update_pipeline_stage': {
+      const to = String(i.stage);
+      if (str(i.opportunity_id)) {
+        const opp = (await crm.listOpportunities(ctx)).find(o => o.id === str(i.opportunity_id));
+        if (!opp) throw new RejectedError('opportunity_id', 'not_found', `opportunity not found: ${i.opportunity_id}`);
+        if (mustTransition(graph, opp.stage, to).noop) {
+          return { summary: `SALES ${opp.name} is already at ${to}`, output: { opportunity_id: opp.id, lead_id: opp.lead_id, stage: to }, via: via(r) };
+        }
+        const updated = await crm.updateOpportunity(ctx, opp.id, { stage: to });
+        await logStageChange(opp.lead_id, opp.stage, to, opp.name);
+        return {
+          summary: `SALES moved ${updated.name} from ${opp.stage} to ${to}`,
+          output: { opportunity_id: updated.id, lead_id: updated.lead_id, from: opp.stage, stage: to },
+          via: via(r)
+        };
+      }
+
+      const lead = await mustFindLead(crm, ctx, i);
+      if (mustTransition(graph, lead.stage, to).noop) {
+        return { summary: `SALES ${lead.name} is already at ${to}`, output: { lead_id: lead.id, stage: to }, via: via(r) };
+      }
+      const updated = await crm.updateLead(ctx, lead.id, { stage: to });
+      await logStageChange(lead.id, lead.stage, to, lead.name);
+      return {
+        summary: `SALES moved ${updated.name} from ${lead.stage || graph.initial} to ${to}`,
+        output: { lead_id: updated.id, from: lead.stage, stage: to },
+        via: via(r)
+      };
+    }
+
+    case 'log_activity': {
+      const lead = await mustFindLead(crm, ctx, i);
+      const at = str(i.occurred_at) ? parseLocalDateTime(String(i.occurred_at), tenantTimeZone(t.context.capabilities)) : new Date();
+      if (!at) throw new RejectedError('occurred_at', 'invalid_state', `unreadable occurred_at: ${i.occurred_at}`);
+      const activity = await crm.appendActivity(ctx, {
+        lead_id: lead.id,
+        type: String(i.type || 'note'),
+        at: at.toISOString(),
+        summary: str(i.notes) || `${i.type || 'note'} logged by agent`,
+        data: { ticket_id: t.id }
+      });
+      return {
+        summary: `SALES logged ${activity.type} on ${lead.name}`,
+        output: { lead_id: lead.id, activity_id: activity.id, activity },
+        via: via(r)
+      };
+    }
+
+    case 'get_timeline': {
+      const lead = await mustFindLead(crm, ctx, i);
+      const since = str(i.since) ? parseLocalDateTime(String(i.since), tenantTimeZone(t.context.capabilities))?.toISOString() : undefined;
+      const entries = timeline(await crm.listActivities(ctx, lead.id), { type: str(i.type), since, limit: Number(i.limit || 50) });
+      return {
+        summary: `SALES timeline for ${lead.name}: ${entries.length} entr${entries.length === 1 ? 'y' : 'ies'}`,
+        output: { lead_id: lead.id, stage: lead.stage, lead, timeline: entries },
+        via: via(r)
+      };
+    }
+
+    default:
+      return { summary: `SALES processed: ${t.action}`, via: via(r) };
+  }
+}
@@ -0,0 +1,250 @@
+import { listApprovals } from './approvals.js';
+import { resolveAdapter } from './adapters/registry.js';
+import { clocks } from './cases.js';
+import { listDeadLetters } from './deadletters.js';
+import { readHistory, type HistoryEntry } from './history.js';
+import { tenantTimeZone, zonedParts, zonedToUtc } from './time.js';
+
+/**
+ * EXEC daily digest: what the tenant's departments actually did in a window,
+ * from the ticket journal (./history.ts) plus live state that needs attention
+ * (open cases, open dead letters, pending approvals).
+ */
+
+export type DigestItem = { at: string; ticket_id: string; summary: string; [k: string]: unknown };
+
+export type Digest = {
+  tenant_id: string;
+  window: { from: string; to: string; timezone: string; label: string };
+  generated_at: string;
+  totals: Record<'tickets' | 'ok' | 'failed' | 'invalid' | 'denied' | 'deferred' | 'pending_approval', number>;
+  by_dept: Record<string, Record<string, number>>;
+  sales: { leads_created: DigestItem[]; leads_updated: number; stage_changes: DigestItem[] };
+  ops: { meetings_booked: DigestItem[]; meetings_rescheduled: number; meetings_cancelled: number };
+  fin: { quotes_drafted: DigestItem[]; quotes_accepted: number; invoices_issued: DigestItem[]; quoted: Record<string, number>; invoiced: Record<string, number> };
+  cs: {
+    cases_opened: number;
+    cases_solved: number;
+    open_cases: Array<{ case_id: string; subject: string; status: string; priority: string; breached: string[] }>;
+    notes?: string;
+  };
+  attention: {
+    failures: DigestItem[];
+    open_dead_letters: number;
+    approvals_pending: Array<{ id: string; action: string; requested_at: string; channel: string }>;
+  };
+  highlights: string[];
+};
+
+const DIGEST_ACTIONS = new Set(['EXEC.daily_digest']);
+const OPEN_CASE = new Set(['new', 'open', 'pending']);
+
+/** [from, to) for a tenant-local day (to = next local midnight) or the last N hours. */
+export function digestWindow(opts: { date?: string; window_hours?: number; timezone: string; now?: Date }) {
+  const hours = opts.window_hours || 24;
+  let to = opts.now || new Date();
+  if (opts.date) {
+    const [y, m, d] = opts.date.split('-').map(Number);
+    const next = new Date(Date.UTC(y, m - 1, d + 1));
+    to = zonedToUtc(next.getUTCFullYear(), next.getUTCMonth() + 1, next.getUTCDate(), 0, 0, opts.timezone);
+  }
+  const from = new Date(to.getTime() - hours * 3600_000);
+  const p = zonedParts(new Date(to.getTime() - 1), opts.timezone);
+  const label = opts.date || `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+  return { from, to, label };
+}
+
+const item = (e: HistoryEntry): DigestItem => ({ at: e.at, ticket_id: e.ticket_id, summary: e.summary, ...(e.output || {}) });
+
+function addMoney(into: Record<string, number>, e: HistoryEntry) {
+  const cur = String(e.output?.currency || 'USD');
+  const total = Number(e.output?.total || 0);
+  into[cur] = Math.round(((into[cur] || 0) + total) * 100) / 100;
+}
+
+function plural(n: number, one: string, many = `${one}s`) {
+  return `${n} ${n === 1 ? one : many}`;
+}
+
+export async function buildDigest(
+  tenant_id: string,
+  capabilities: Record<string, unknown> = {},
+  opts: { date?: string; window_hours?: number; now?: Date } = {}
+): Promise<Digest> {
+  const timezone = tenantTimeZone(capabilities);
+  const { from, to, label } = digestWindow({ ...opts, timezone });
+  const entries = (await readHistory(tenant_id, { from, to })).filter(e => !DIGEST_ACTIONS.has(`${e.dept}.${e.action}`));
+  const of = (dept: string, action: string, ok = true) => entries.filter(e => e.dept === dept && e.action === action && e.ok === ok);
+
+  const totals: Digest['totals'] = { tickets: entries.length, ok: 0, failed: 0, invalid: 0, denied: 0, deferred: 0, pending_approval: 0 };
+  const by_dept: Digest['by_dept'] = {};
+  for (const e of entries) {
+    const key = e.status === 'error' || e.status === 'conflict' ? 'failed' : e.status;
+    totals[key as keyof Digest['totals']] += 1;
+    const d = (by_dept[e.dept] ||= {});
+    d[e.action] = (d[e.action] || 0) + 1;
+  }
+
+  const leads = of('SALES', 'create_or_update_lead');
+  const quotes = of('FIN', 'draft_quote');
+  const invoices = of('FIN', 'invoice_issue');
+  const quoted: Record<string, number> = {};
+  const invoiced: Record<string, number> = {};
+  quotes.forEach(e => addMoney(quoted, e));
+  invoices.forEach(e => addMoney(invoiced, e));
+
+  // live support state; tenants without a desk just get a note
+  const cs: Digest['cs'] = {
+    cases_opened: of('CS', 'create_ticket').length,
+    cases_solved: of('CS', 'update_case').filter(e => e.output?.status === 'solved').length,
+    open_cases: []
+  };
+  const desk = resolveAdapter('support_desk', tenant_id, capabilities);
+  if (desk.adapter) {
+    cs.open_cases = (await desk.adapter.listCases(desk.ctx))
+      .filter(c => OPEN_CASE.has(c.status))
+      .map(c => ({
+        case_id: c.id,
+        subject: c.subject,
+        status: c.status,
+        priority: c.priority,
+        breached: clocks(c, to).filter(k => k.state === 'breached').map(k => k.clock)
+      }));
+  } else {
+    cs.notes = desk.notes;
+  }
+
+  const attention: Digest['attention'] = {
+    failures: entries.filter(e => e.status === 'error' || e.status === 'conflict').map(item),
+    open_dead_letters: (await listDeadLetters({ tenant_id, status: 'open' })).length,
+    approvals_pending: (await listApprovals({ tenant_id, status: 'pending' })).map(a => ({
+      id: a.id,
+      action: `${a.ticket.dept}.${a.ticket.action}`,
+      requested_at: a.requested_at,
+      channel: a.channel
+    }))
+  };
+
+  const digest: Digest = {
+    tenant_id,
+    window: { from: from.toISOString(), to: to.toISOString(), timezone, label },
+    generated_at: new Date().toISOString(),
+    totals,
+    by_dept,
+    sales: {
+      leads_created: leads.filter(e => e.output?.created === true).map(item),
+      leads_updated: leads.filter(e => e.output?.created === false).length,
+      stage_changes: of('SALES', 'update_pipeline_stage').filter(e => e.output?.from !== undefined).map(item)
+    },
+    ops: {
+      meetings_booked: of('OPS', 'schedule_meeting').map(item),
+      meetings_rescheduled: of('OPS', 'reschedule_meeting').length,
+      meetings_cancelled: of('OPS', 'cancel_meeting').length
+    },
+    fin: {
+      quotes_drafted: quotes.map(item),
+      quotes_accepted: of('FIN', 'accept_quote').length,
+      invoices_issued: invoices.map(item),
+      quoted,
+      invoiced
+    },
+    cs,
+    attention,
+    highlights: []
+  };
+  digest.highlights = highlightsOf(digest);
+  return digest;
+}
+
+function highlightsOf(d: Digest) {
+  const money = (m: Record<string, number>) => Object.entries(m).map(([c, v]) => `${v} ${c}`).join(', ');
+  const breaching = d.cs.open_cases.filter(c => c.breached.length).length;
+  const out = [
+    d.sales.leads_created.length ? plural(d.sales.leads_created.length, 'new lead') : '',
+    d.ops.meetings_booked.length ? `${plural(d.ops.meetings_booked.length, 'meeting')} booked` : '',
+    d.fin.quotes_drafted.length ? `${plural(d.fin.quotes_drafted.length, 'quote')} drafted (${money(d.fin.quoted)})` : '',
+    d.fin.invoices_issued.length ? `${plural(d.fin.invoices_issued.length, 'invoice')} issued (${money(d.fin.invoiced)})` : '',
+    d.cs.open_cases.length ? plural(d.cs.open_cases.length, 'open case') + (breaching ? ` (${breaching} past SLA)` : '') : '',
+    d.attention.failures.length ? plural(d.attention.failures.length, 'failed ticket') : '',
+    d.totals.invalid + d.totals.denied ? plural(d.totals.invalid + d.totals.denied, 'rejected ticket') : '',
+    d.attention.open_dead_letters ? plural(d.attention.open_dead_letters, 'open dead letter') : '',
+    d.attention.approvals_pending.length ? `${plural(d.attention.approvals_pending.length, 'approval')} pending` : ''
+  ].filter(Boolean);
+  return out.length ? out : [`No activity (${plural(d.totals.tickets, 'ticket')})`];
+}
+
+// --- RENDERING ------------------------------------------------------------------
+function section<T>(title: string, rows: T[], line: (r: T) => string) {
+  return rows.length ? [`## ${title} (${rows.length})`, '', ...rows.map(r => `- ${line(r)}`), ''] : [];
+}
+
+export function renderMarkdown(d: Digest) {
+  const depts = Object.entries(d.by_dept).map(([dept, actions]) =>
+    `| ${dept} | ${Object.entries(actions).map(([a, n]) => `${a} ×${n}`).join(', ')} |`);
+  return [
+    `# Daily digest: ${d.tenant_id}, ${d.window.label}`,
+    '',
+    `_${d.window.from} → ${d.window.to} (${d.window.timezone}) · ${plural(d.totals.tickets, 'ticket')}, ${d.totals.ok} ok, ${d.totals.failed} failed_`,
+    '',
+    ...d.highlights.map(h => `- **${h}**`),
+    '',
+    ...section('Leads created', d.sales.leads_created, r => r.summary),
+    ...section('Pipeline moves', d.sales.stage_changes, r => r.summary),
+    ...section('Meetings booked', d.ops.meetings_booked, r => r.summary),
+    ...section('Quotes drafted', d.fin.quotes_drafted, r => r.summary),
+    ...section('Invoices issued', d.fin.invoices_issued, r => r.summary),
+    ...section('Open cases', d.cs.open_cases, c =>
+      `${c.case_id} [${c.priority}/${c.status}] ${c.subject}` + (c.breached.length ? ` ⚠ ${c.breached.join(', ')} SLA breached` : '')),
+    ...section('Failures', d.attention.failures, r => `${r.summary}` + (r.dead_letter_id ? ` (${r.dead_letter_id})` : '')),
+    ...section('Approvals pending', d.attention.approvals_pending, a => `${a.action} (${a.id}) in ${a.channel} since ${a.requested_at}`),
+    ...(depts.length ? ['## Activity by department', '', '| Dept | Actions |', '| --- | --- |', ...depts, ''] : [])
+  ].join('\n');
+}
+
+function esc(v: unknown) {
+  return String(v ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
+
+/** Minimal Markdown → HTML for the digest's own output (headings, bullets, tables, bold/italic). */
+export function renderHtml(d: Digest) {
+  const inline = (s: string) => esc(s).replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>').replace(/^_(.+)_$/, '<em>$1</em>');
+  const html: string[] = [];
+  let list = false;
+  let table = false;
+  for (const line of renderMarkdown(d).split('\n')) {
+    if (list && !line.startsWith('- ')) { html.push('</ul>'); list = false; }
+    if (table && !line.startsWith('|')) { html.push('</table>'); table = false; }
+    if (line.startsWith('# ')) html.push(`<h1>${inline(line.slice(2))}</h1>`);
+    else if (line.startsWith('## ')) html.push(`<h2>${inline(line.slice(3))}</h2>`);
+    else if (line.startsWith('- ')) {
+      if (!list) { html.push('<ul>'); list = true; }
+      html.push(`<li>${inline(line.slice(2))}</li>`);
+    } else if (line.startsWith('|')) {
+      if (line.startsWith('| ---')) continue;
+      const cells = line.split('|').slice(1, -1).map(c => c.trim());
+      const tag = table ? 'td' : 'th';
+      if (!table) { html.push('<table>'); table = true; }
+      html.push(`<tr>${cells.map(c => `<${tag}>${inline(c)}</${tag}>`).join('')}</tr>`);
+    } else if (line.trim()) html.push(`<p>${inline(line)}</p>`);
+  }
+  if (list) html.push('</ul>');
+  if (table) html.push('</table>');
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Daily digest ${esc(d.tenant_id)} ${esc(d.window.label)}</title>
+<style>
+  body { font: 14px/1.5 system-ui, sans-serif; color: #111; margin: 32px; max-width: 860px; }
+  h1 { font-size: 22px; } h2 { font-size: 16px; margin-top: 24px; }
+  table { border-collapse: collapse; } th, td { padding: 4px 10px; border-bottom: 1px solid #ddd; text-align: left; }
+  em { color: #666; }
+</style>
+</head>
+<body>
+${html.join('\n')}
+</body>
+</html>
+`;
+}
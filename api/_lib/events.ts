@@ -0,0 +1,110 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import type { BudgetLimits, BudgetStop, Usage } from './budget.js';
+import type { Dept, ValidationError } from './catalog.js';
+import type { DeptResult } from './departments.js';
+import type { ModelProvider } from './llm.js';
+import type { Followup } from './slots.js';
+import type { Repair } from './tools.js';
+
+/**
+ * Typed progress events for the agent, written as server-sent events.
+ *
+ * Each event goes out as `event: <type>` + `data: <json>` with a running `id`,
+ * so the browser (fetch + reader, or EventSource for GET) can switch on the
+ * type. A stream always ends with exactly one `done` event; failures of a
+ * single ticket or tool are reported in-line and do not end the stream.
+ */
+
+// --- EVENTS -------------------------------------------------------------------
+export type AgentEvent =
+  /** Spine trace line (same text as the `trace` array of /api/corp/ingest). */
+  | { type: 'trace'; msg: string }
+  /** Ordered department plan, from the intent classifier or the model's build_tickets call. */
+  | {
+      type: 'plan';
+      source: 'classifier' | 'model';
+      steps: Array<{ ticket_id?: string; dept: Dept; action: string; confidence?: number }>;
+      followups: Followup[];
+    }
+  | { type: 'ticket_started'; ticket_id: string; dept: Dept; action: string }
+  | {
+      type: 'ticket_finished';
+      ticket_id: string;
+      dept: Dept;
+      action: string;
+      ok: boolean;
+      status: DeptResult['status'];
+      summary: string;
+      duration_ms?: number;
+      error?: string;
+    }
+  | { type: 'tool_call'; call_id: string; name: string; arguments: unknown }
+  /** `errors`: the call was rejected by the argument check and not run (see ./tools.ts). */
+  | { type: 'tool_result'; call_id: string; name: string; ok: boolean; error?: string; errors?: ValidationError[] }
+  /** Model token delta of the reply being written. */
+  | { type: 'delta'; text: string }
+  | { type: 'reply'; text: string }
+  /** fatal=false: the run carries on (e.g. one tool threw); fatal=true: `done` follows. */
+  | { type: 'error'; message: string; fatal: boolean }
+  | {
+      type: 'done';
+      ok: boolean;
+      mode: 'local' | ModelProvider['name'];
+      session_id: string;
+      failed: number;
+      raw?: unknown;
+      repairs?: Repair[];
+      /** Model path: tokens, estimated cost and limits; `stopped` names the budget that ended the run. */
+      usage?: Usage & { limits: BudgetLimits; stopped?: BudgetStop };
+    };
+
+export type Emit = (e: AgentEvent) => void;
+
+export const noEmit: Emit = () => {};
+
+/** Streaming was asked for: ?stream=1, { stream: true } or Accept: text/event-stream. */
+export function wantsStream(req: VercelRequest): boolean {
+  const q = req.query?.stream;
+  if (q === '1' || q === 'true') return true;
+  if ((req.body as any)?.stream === true) return true;
+  return String(req.headers?.accept || '').includes('text/event-stream');
+}
+
+// --- SSE WRITER ---------------------------------------------------------------
+const HEARTBEAT_MS = 15_000;
+
+/**
+ * Switch the response to text/event-stream. Model calls can go quiet for a
+ * while, so a comment line is sent every 15s to keep proxies from cutting the
+ * connection. `close()` is idempotent; sends after it (or after the client
+ * disconnected) are dropped.
+ */
+export function openEventStream(res: VercelResponse) {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders?.();
+
+  let seq = 0;
+  let closed = false;
+  const heartbeat = setInterval(() => { if (!closed) res.write(': ping\n\n'); }, HEARTBEAT_MS);
+  heartbeat.unref?.();
+  // browser went away: stop writing; callers check `closed` between steps
+  res.on?.('close', () => { closed = true; clearInterval(heartbeat); });
+
+  return {
+    send(e: AgentEvent) {
+      if (closed) return;
+      res.write(`id: ${++seq}\nevent: ${e.type}\ndata: ${JSON.stringify({ ...e, at: new Date().toISOString() })}\n\n`);
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      clearInterval(heartbeat);
+      res.end();
+    },
+    get closed() { return closed; }
+  };
+}
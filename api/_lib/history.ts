@@ -0,0 +1,68 @@
+import type { DeptResult } from './departments.js';
+import { appendJsonl, readJsonl, tenantFile } from './store.js';
+
+/**
+ * Per-tenant ticket journal: one line per executed ticket, partitioned by UTC
+ * day (tenants/<id>/history/YYYY-MM-DD.jsonl). Idempotent replays are not
+ * journaled again, so every entry is one real execution.
+ */
+
+export type HistoryEntry = {
+  at: string;
+  ticket_id: string;
+  idempotency_key: string;
+  dept: string;
+  action: string;
+  ok: boolean;
+  status: DeptResult['status'];
+  summary: string;
+  /** Scalar output fields only (ids, totals, stages); documents and invites are left out. */
+  output?: Record<string, string | number | boolean>;
+  approval_id?: string;
+  dead_letter_id?: string;
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function dayFile(tenant_id: string, day: string) {
+  return tenantFile(tenant_id, `history/${day}.jsonl`);
+}
+
+function scalars(output?: Record<string, unknown>) {
+  if (!output) return undefined;
+  const out: Record<string, string | number | boolean> = {};
+  for (const [k, v] of Object.entries(output)) {
+    if (typeof v === 'number' || typeof v === 'boolean' || (typeof v === 'string' && v.length <= 200)) out[k] = v;
+  }
+  return Object.keys(out).length ? out : undefined;
+}
+
+export async function recordTicket(result: DeptResult) {
+  if (result.diagnostics.idempotency?.replayed) return;
+  const at = new Date().toISOString();
+  const entry: HistoryEntry = {
+    at,
+    ticket_id: result.ticket.id,
+    idempotency_key: result.ticket.idempotency_key,
+    dept: result.dept,
+    action: result.ticket.action,
+    ok: result.ok,
+    status: result.status,
+    summary: result.summary,
+    ...(scalars(result.output) ? { output: scalars(result.output) } : {}),
+    ...(result.diagnostics.approval ? { approval_id: result.diagnostics.approval.id } : {}),
+    ...(result.diagnostics.dead_letter ? { dead_letter_id: result.diagnostics.dead_letter.id } : {})
+  };
+  await appendJsonl(dayFile(result.ticket.context.tenant_id, at.slice(0, 10)), entry);
+}
+
+/** Entries with from <= at < to, oldest first. */
+export async function readHistory(tenant_id: string, range: { from: Date; to: Date }): Promise<HistoryEntry[]> {
+  const [from, to] = [range.from.toISOString(), range.to.toISOString()];
+  const out: HistoryEntry[] = [];
+  for (let d = Date.parse(from.slice(0, 10)); d < range.to.getTime(); d += DAY) {
+    const rows = await readJsonl<HistoryEntry>(dayFile(tenant_id, new Date(d).toISOString().slice(0, 10)));
+    out.push(...rows.filter(r => r.at >= from && r.at < to));
+  }
+  return out.sort((a, b) => a.at.localeCompare(b.at));
+}
@@ -0,0 +1,182 @@
+import { createHash } from 'node:crypto';
+import type { DeptResult, DeptTicket } from './departments.js';
+import { tenantFile, updateJson } from './store.js';
+
+/**
+ * Durable idempotency for department tickets, keyed by (tenant_id, idempotency_key).
+ *
+ * - same key + same payload (dept, action, inputs)  → the stored result, replayed
+ * - same key + different payload                     → IdempotencyConflictError (409)
+ * - same key while the first run is still in flight  → waits for it, then replays
+ *
+ * Only outcomes with side effects are kept (ok, pending_approval). Errors,
+ * validation failures and policy holds release the key so a retry runs again.
+ * A stored pending_approval is replaced by what the approved run did (or
+ * released when the approval is rejected) via settleApproval().
+ *
+ * Env:
+ * - IDEMPOTENCY_TTL_HOURS   how long finished keys are kept (default 168 = 7 days)
+ */
+
+export type IdempotencyRecord = {
+  key: string;
+  fingerprint: string;
+  state: 'in_flight' | 'done';
+  started_at: string;
+  finished_at?: string;
+  result?: DeptResult;
+};
+
+type KeyBook = Record<string, IdempotencyRecord>;
+
+export type IdempotencyInfo = { key: string; replayed: boolean; original_at?: string };
+
+export class IdempotencyConflictError extends Error {
+  code = 409 as const;
+  constructor(public key: string) {
+    super(`idempotency_key ${key} was already used with a different payload`);
+  }
+}
+
+const STORED: DeptResult['status'][] = ['ok', 'pending_approval'];
+const POLL_MS = 250;
+
+// In-process waiters; other instances fall back to polling the file.
+const inFlight = new Map<string, { fingerprint: string; done: Promise<DeptResult> }>();
+
+function ttlMs() {
+  const h = Number(process.env.IDEMPOTENCY_TTL_HOURS);
+  return (Number.isFinite(h) && h > 0 ? h : 168) * 3600_000;
+}
+
+function stable(v: unknown): unknown {
+  if (Array.isArray(v)) return v.map(stable);
+  if (v && typeof v === 'object') {
+    return Object.fromEntries(Object.keys(v as object).sort().map(k => [k, stable((v as any)[k])]));
+  }
+  return v;
+}
+
+/** Payload identity: what the ticket does, not when or under which id it was sent. */
+export function fingerprintOf(t: DeptTicket) {
+  const payload = JSON.stringify(stable({ dept: t.dept, action: t.action, inputs: t.inputs || {} }));
+  return createHash('sha256').update(payload).digest('hex');
+}
+
+function fileFor(t: DeptTicket) {
+  return tenantFile(t.context.tenant_id, 'idempotency.json');
+}
+
+/** A claim older than the ticket's whole retry budget is treated as abandoned. */
+function staleAfterMs(t: DeptTicket) {
+  return (Math.max(1, t.sla_sec || 120) * (Math.max(0, t.retries || 0) + 1) + 30) * 1000;
+}
+
+function prune(book: KeyBook, now: number) {
+  const ttl = ttlMs();
+  return Object.fromEntries(Object.entries(book).filter(([, r]) => now - Date.parse(r.finished_at || r.started_at) < ttl));
+}
+
+type Claim =
+  | { kind: 'claimed' }
+  | { kind: 'replay'; record: IdempotencyRecord }
+  | { kind: 'busy' };
+
+async function claim(t: DeptTicket, fingerprint: string): Promise<Claim> {
+  let out: Claim = { kind: 'claimed' };
+  await updateJson<KeyBook>(fileFor(t), {}, book => {
+    const now = Date.now();
+    const cur = book[t.idempotency_key];
+    if (cur && cur.fingerprint !== fingerprint) throw new IdempotencyConflictError(t.idempotency_key);
+    if (cur?.state === 'done') {
+      out = { kind: 'replay', record: cur };
+      return book;
+    }
+    if (cur?.state === 'in_flight' && now - Date.parse(cur.started_at) < staleAfterMs(t)) {
+      out = { kind: 'busy' };
+      return book;
+    }
+    return {
+      ...prune(book, now),
+      [t.idempotency_key]: { key: t.idempotency_key, fingerprint, state: 'in_flight', started_at: new Date(now).toISOString() }
+    };
+  });
+  return out;
+}
+
+async function settle(t: DeptTicket, result: DeptResult) {
+  await updateJson<KeyBook>(fileFor(t), {}, book => {
+    const { [t.idempotency_key]: cur, ...rest } = book;
+    if (!STORED.includes(result.status)) return rest;
+    return { ...rest, [t.idempotency_key]: { ...cur, state: 'done', finished_at: new Date().toISOString(), result } };
+  });
+}
+
+/**
+ * The approval a key is waiting on was decided: store the approved run's
+ * `result` in place of the pending_approval (so a replay of the original
+ * request sees what actually ran, reviewer edits included), or release the
+ * key when there is no result (rejected). Keys holding anything else are left alone.
+ */
+export async function settleApproval(t: DeptTicket, approval_id: string, result?: DeptResult) {
+  if (!t.idempotency_key) return;
+  await updateJson<KeyBook>(fileFor(t), {}, book => {
+    const { [t.idempotency_key]: cur, ...rest } = book;
+    if (cur?.result?.status !== 'pending_approval' || cur.result.diagnostics.approval?.id !== approval_id) return book;
+    if (!result) return rest;
+    return { ...rest, [t.idempotency_key]: { ...cur, finished_at: new Date().toISOString(), result } };
+  });
+}
+
+function replayOf(record: IdempotencyRecord): DeptResult {
+  const r = record.result!;
+  const info: IdempotencyInfo = { key: record.key, replayed: true, original_at: record.finished_at };
+  return { ...r, diagnostics: { ...r.diagnostics, idempotency: info } };
+}
+
+/**
+ * Run `exec` at most once per (tenant, idempotency_key). Tickets without a key
+ * run every time.
+ */
+export async function withIdempotency(t: DeptTicket, exec: () => Promise<DeptResult>): Promise<DeptResult> {
+  if (!t.idempotency_key) return exec();
+  const fingerprint = fingerprintOf(t);
+  const local = `${t.context.tenant_id}\u0000${t.idempotency_key}`;
+
+  const pending = inFlight.get(local);
+  if (pending) {
+    if (pending.fingerprint !== fingerprint) throw new IdempotencyConflictError(t.idempotency_key);
+    const first = await pending.done;
+    const info: IdempotencyInfo = { key: t.idempotency_key, replayed: true, original_at: new Date().toISOString() };
+    return { ...first, diagnostics: { ...first.diagnostics, idempotency: info } };
+  }
+
+  const deadline = Date.now() + staleAfterMs(t);
+  for (;;) {
+    const c = await claim(t, fingerprint);
+    if (c.kind === 'replay') return replayOf(c.record);
+    if (c.kind === 'claimed') break;
+    // another instance holds the key: poll until it finishes or goes stale
+    if (Date.now() > deadline) break;
+    await new Promise(r => setTimeout(r, POLL_MS));
+  }
+
+  const done = (async () => {
+    try {
+      const result = await exec();
+      await settle(t, result);
+      return result;
+    } catch (e) {
+      await settle(t, { status: 'error' } as DeptResult).catch(() => undefined);
+      throw e;
+    }
+  })();
+  inFlight.set(local, { fingerprint, done });
+  try {
+    const result = await done;
+    const info: IdempotencyInfo = { key: t.idempotency_key, replayed: false };
+    return { ...result, diagnostics: { ...result.diagnostics, idempotency: info } };
+  } finally {
+    if (inFlight.get(local)?.done === done) inFlight.delete(local);
+  }
+}
@@ -0,0 +1,220 @@
+import { ACTION_CATALOG, type Dept } from './catalog.js';
+
+/**
+ * Deterministic, local intent classifier.
+ *
+ * The utterance is split into clauses ("…, and …", "… then …"), each clause is
+ * scored against keyword cues for every catalog action, and the best action per
+ * clause becomes a plan step. Steps keep the order in which they were asked for.
+ *
+ * Cue syntax: space-separated words, `*` = prefix match ("schedul*"), plain
+ * words also match simple plurals. Up to two filler words may sit between the
+ * words of a phrase ("reset my password"). Weight = number of words.
+ */
+
+export type PlanStep = {
+  dept: Dept;
+  action: string;
+  confidence: number;
+  cues: string[];
+  clause: string;
+};
+
+export type IntentPlan = {
+  classifier: 'rules-v1';
+  confidence: number;
+  steps: PlanStep[];
+  fallback: boolean;
+};
+
+type IntentRule = { dept: Dept; action: string; cues: string[] };
+
+// --- CUES ---------------------------------------------------------------------
+const INTENT_RULES: IntentRule[] = [
+  // SALES
+  { dept: 'SALES', action: 'create_or_update_lead', cues: ['lead*', 'new lead', 'prospect*', 'add contact', 'new contact', 'crm'] },
+  { dept: 'SALES', action: 'qualify_lead', cues: ['qualify*', 'bant', 'score lead*', 'lead scor*'] },
+  { dept: 'SALES', action: 'create_opportunity', cues: ['opportunit*', 'deal*', 'open deal'] },
+  { dept: 'SALES', action: 'update_pipeline_stage', cues: ['pipeline', 'pipeline stage', 'move deal*', 'closed won', 'closed lost'] },
+  { dept: 'SALES', action: 'log_activity', cues: ['log call', 'log activit*', 'log email', 'call notes', 'sales activit*'] },
+  { dept: 'SALES', action: 'get_timeline', cues: ['timeline', 'lead histor*', 'activity histor*', 'show activit*', 'what happened with'] },
+
+  // MARKETING
+  { dept: 'MARKETING', action: 'create_campaign', cues: ['campaign*', 'launch campaign*'] },
+  { dept: 'MARKETING', action: 'send_newsletter', cues: ['newsletter*', 'email blast', 'mailing list', 'send newsletter'] },
+  { dept: 'MARKETING', action: 'segment_audience', cues: ['segment*', 'audience*', 'target list'] },
+  { dept: 'MARKETING', action: 'sync_ad_platform', cues: ['ad platform*', 'google ads', 'facebook ads', 'meta ads', 'linkedin ads', 'sync ads'] },
+  { dept: 'MARKETING', action: 'publish_post', cues: ['publish*', 'social post*', 'blog post*', 'tweet*', 'linkedin post*'] },
+
+  // ANALYTICS
+  { dept: 'ANALYTICS', action: 'track_event', cues: ['track* event*', 'event track*', 'instrument*', 'analytics event*'] },
+  { dept: 'ANALYTICS', action: 'run_report', cues: ['report*', 'run report*', 'analy*'] },
+  { dept: 'ANALYTICS', action: 'build_dashboard', cues: ['dashboard*', 'build dashboard*'] },
+  { dept: 'ANALYTICS', action: 'kpi_snapshot', cues: ['kpi*', 'metric*', 'kpi snapshot'] },
+
+  // EXEC
+  { dept: 'EXEC', action: 'summarize_okrs', cues: ['okr*', 'key results', 'summarize okr*'] },
+  { dept: 'EXEC', action: 'board_report', cues: ['board report*', 'board deck*', 'board meeting', 'investor update*'] },
+  { dept: 'EXEC', action: 'daily_digest', cues: ['digest*', 'daily summary', 'daily brief*', 'morning brief*', 'exec summary'] },
+
+  // PRODUCT
+  { dept: 'PRODUCT', action: 'collect_feedback', cues: ['feedback', 'feature request*', 'user survey*', 'collect feedback'] },
+  { dept: 'PRODUCT', action: 'prioritize_backlog', cues: ['backlog*', 'prioriti*', 'roadmap*'] },
+  { dept: 'PRODUCT', action: 'create_spec', cues: ['spec', 'specification*', 'prd', 'product requirement*', 'write spec'] },
+  { dept: 'PRODUCT', action: 'create_ticket', cues: ['bug*', 'jira', 'product ticket*', 'file bug*'] },
+
+  // SECURITY
+  { dept: 'SECURITY', action: 'risk_assessment', cues: ['risk assess*', 'threat model*', 'security risk*'] },
+  { dept: 'SECURITY', action: 'access_review', cues: ['access review*', 'review access', 'audit access', 'permission* audit*'] },
+  { dept: 'SECURITY', action: 'incident_intake', cues: ['security incident*', 'breach*', 'phish*', 'malware', 'hacked', 'suspicious login*'] },
+  { dept: 'SECURITY', action: 'generate_vulnerability_report', cues: ['vulnerabilit*', 'vuln*', 'cve*', 'pentest*', 'vulnerability report*'] },
+
+  // FACILITIES
+  { dept: 'FACILITIES', action: 'create_work_order', cues: ['work order*', 'facilit*', 'repair*', 'broken', 'leak*'] },
+  { dept: 'FACILITIES', action: 'schedule_maintenance', cues: ['maintenance', 'schedule maintenance', 'hvac', 'inspection*'] },
+  { dept: 'FACILITIES', action: 'log_incident', cues: ['facility incident*', 'injur*', 'spill*', 'log incident*'] },
+
+  // PROCUREMENT
+  { dept: 'PROCUREMENT', action: 'create_po', cues: ['purchase order*', 'po', 'raise po', 'order supplies', 'buy*', 'purchase*'] },
+  { dept: 'PROCUREMENT', action: 'vendor_intake', cues: ['vendor*', 'supplier*', 'onboard vendor*', 'vendor intake'] },
+  { dept: 'PROCUREMENT', action: 'compare_quotes', cues: ['compare quote*', 'compare vendor*', 'compare bid*', 'rfq', 'rfp', 'vendor quote*'] },
+  { dept: 'PROCUREMENT', action: 'renew_contract', cues: ['renew*', 'renewal*', 'contract renewal*'] },
+
+  // LEGAL
+  { dept: 'LEGAL', action: 'generate_msa', cues: ['msa', 'master service* agreement', 'service agreement'] },
+  { dept: 'LEGAL', action: 'nda_intake', cues: ['nda*', 'non disclosure', 'confidentiality agreement'] },
+  { dept: 'LEGAL', action: 'review_contract', cues: ['contract*', 'review contract*', 'contract review*', 'redline*', 'legal review'] },
+  { dept: 'LEGAL', action: 'dpa_request', cues: ['dpa', 'data processing agreement', 'gdpr'] },
+
+  // IT
+  { dept: 'IT', action: 'provision_access', cues: ['provision*', 'grant access', 'give access', 'sso', 'new account'] },
+  { dept: 'IT', action: 'reset_password', cues: ['password*', 'reset password*', 'locked out', 'mfa', '2fa'] },
+  { dept: 'IT', action: 'asset_intake', cues: ['laptop*', 'hardware', 'device*', 'monitor*', 'it asset*'] },
+  { dept: 'IT', action: 'create_ticket', cues: ['it ticket*', 'helpdesk', 'help desk', 'vpn', 'wifi', 'printer*'] },
+
+  // HR
+  { dept: 'HR', action: 'new_hire', cues: ['new hire*', 'onboard*', 'new employee*', 'hiring'] },
+  { dept: 'HR', action: 'offboarding', cues: ['offboard*', 'terminat*', 'resign*', 'last day'] },
+  { dept: 'HR', action: 'policy_answer', cues: ['hr policy', 'handbook', 'benefit*', 'policy question*'] },
+  { dept: 'HR', action: 'pto_request', cues: ['pto', 'vacation', 'time off', 'sick day*', 'leave request*'] },
+
+  // FIN
+  { dept: 'FIN', action: 'draft_quote', cues: ['quote*', 'draft quote*', 'estimate*', 'pricing proposal*'] },
+  { dept: 'FIN', action: 'accept_quote', cues: ['accept* quote*', 'quote* accepted', 'sign* quote*', 'approve quote*'] },
+  { dept: 'FIN', action: 'invoice_issue', cues: ['invoic*', 'bill customer*', 'issue invoice*', 'invoic* quote*'] },
+  { dept: 'FIN', action: 'expense_approve', cues: ['expense*', 'reimburs*', 'receipt*', 'approve expense*'] },
+  { dept: 'FIN', action: 'revenue_report', cues: ['revenue*', 'mrr', 'arr', 'p&l', 'financial report*'] },
+
+  // OPS
+  { dept: 'OPS', action: 'schedule_meeting', cues: ['meeting*', 'schedul*', 'book call', 'book demo', 'appointment*', 'calendar invite*'] },
+  { dept: 'OPS', action: 'reschedule_meeting', cues: ['reschedul*', 'reschedul* meeting*', 'reschedul* call*', 'move meeting*', 'push meeting*'] },
+  { dept: 'OPS', action: 'cancel_meeting', cues: ['cancel* meeting*', 'cancel* call*', 'cancel* appointment*', 'call off meeting*'] },
+  { dept: 'OPS', action: 'create_task', cues: ['task*', 'todo', 'to do', 'follow up', 'remind*', 'create task*'] },
+  { dept: 'OPS', action: 'assign_dispatch', cues: ['dispatch*', 'technician*', 'field crew', 'assign crew'] },
+  { dept: 'OPS', action: 'update_sop', cues: ['sop*', 'procedure*', 'runbook*', 'playbook*'] },
+
+  // CS
+  { dept: 'CS', action: 'create_ticket', cues: ['ticket*', 'support ticket*', 'support case*', 'complain*', 'refund*', 'not working'] },
+  { dept: 'CS', action: 'update_case', cues: ['update case*', 'solv* case*', 'resolv* case*', 'close case*', 'reopen*', 'case solved', 'mark* solved'] },
+  { dept: 'CS', action: 'auto_reply', cues: ['auto reply', 'autorespon*', 'reply to customer*', 'respond to customer*', 'canned response*'] },
+  { dept: 'CS', action: 'escalate_case', cues: ['escalat*', 'urgent case*', 'angry customer*'] },
+  { dept: 'CS', action: 'csat_request', cues: ['csat', 'nps', 'satisfaction survey*', 'customer survey*'] },
+  { dept: 'CS', action: 'record_csat', cues: ['csat score*', 'csat response*', 'survey response*', 'rated us', 'satisfaction score*'] },
+
+  // RESEARCH
+  { dept: 'RESEARCH', action: 'build_kb', cues: ['knowledge base', 'kb', 'build kb'] },
+  { dept: 'RESEARCH', action: 'company_profile', cues: ['company profile', 'research*', 'look up company'] },
+  { dept: 'RESEARCH', action: 'crawl_pages', cues: ['crawl*', 'scrap*', 'sitemap*', 'crawl plan'] },
+  { dept: 'RESEARCH', action: 'faq_extract', cues: ['faq*', 'frequently asked'] }
+];
+
+// Catch-all when nothing matches: hand it to OPS as a task rather than guess.
+const FALLBACK_STEP: Pick<PlanStep, 'dept' | 'action'> = { dept: 'OPS', action: 'create_task' };
+
+// --- MATCHING -----------------------------------------------------------------
+function escapeRe(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function cueToRegExp(cue: string) {
+  const words = cue.trim().split(/\s+/).map(w =>
+    w.endsWith('*') ? `${escapeRe(w.slice(0, -1))}\\w*` : `${escapeRe(w)}(?:s|es)?(?![\\w&])`
+  );
+  return new RegExp(`(?<![\\w&])${words.join('(?:\\W+\\w+){0,2}?\\W+')}`, 'i');
+}
+
+type CompiledRule = IntentRule & { compiled: Array<{ cue: string; re: RegExp; weight: number }> };
+
+const COMPILED: CompiledRule[] = INTENT_RULES
+  .filter(r => ACTION_CATALOG[r.dept].includes(r.action))
+  .map(r => ({
+    ...r,
+    compiled: r.cues.map(cue => ({ cue, re: cueToRegExp(cue), weight: cue.trim().split(/\s+/).length }))
+  }));
+
+/**
+ * Split on sentence punctuation and list/sequence connectives, keeping order.
+ * A dot or comma only ends a clause before whitespace (or the end), so emails,
+ * domains, decimals and 1,000 stay whole.
+ */
+function splitClauses(utterance: string): string[] {
+  return utterance
+    .replace(/https?:\/\/\S+/gi, m => m.replace(/[.,;]/g, '\u0000'))
+    .split(/(?:[.;!?]+(?=\s|$)\s*|\n+\s*|,(?!\S)\s*(?:and\s+|then\s+|also\s+)?|\s+(?:and\s+then|and\s+also|then|also|and|plus)\s+)/i)
+    .map(c => c.replace(/\u0000/g, '.').trim())
+    .filter(Boolean);
+}
+
+function scoreClause(clause: string) {
+  const scored = COMPILED.map(rule => {
+    const hits: string[] = [];
+    let score = 0;
+    for (const c of rule.compiled) {
+      const m = clause.match(c.re);
+      if (m) { hits.push(m[0].toLowerCase()); score += c.weight; }
+    }
+    return { rule, score, hits };
+  }).filter(s => s.score > 0);
+
+  // Highest score wins; ties keep catalog/rule order (stable sort).
+  scored.sort((a, b) => b.score - a.score);
+  return scored;
+}
+
+function confidenceFor(best: number, runnerUp: number) {
+  const strength = best / (best + 1);
+  const margin = best > 0 ? (best - runnerUp) / best : 0;
+  return Math.round(strength * (0.6 + 0.4 * margin) * 100) / 100;
+}
+
+// --- PUBLIC -------------------------------------------------------------------
+export function classifyUtterance(utterance: string): IntentPlan {
+  const steps: PlanStep[] = [];
+
+  for (const clause of splitClauses(String(utterance || ''))) {
+    const [best, second] = scoreClause(clause);
+    if (!best) continue;
+
+    const existing = steps.find(s => s.dept === best.rule.dept && s.action === best.rule.action);
+    const confidence = confidenceFor(best.score, second?.score || 0);
+    if (existing) {
+      existing.cues = Array.from(new Set([...existing.cues, ...best.hits]));
+      existing.confidence = Math.max(existing.confidence, confidence);
+      continue;
+    }
+
+    steps.push({ dept: best.rule.dept, action: best.rule.action, confidence, cues: best.hits, clause });
+  }
+
+  if (!steps.length) {
+    return {
+      classifier: 'rules-v1',
+      confidence: 0,
+      fallback: true,
+      steps: [{ ...FALLBACK_STEP, confidence: 0, cues: [], clause: String(utterance || '').trim() }]
+    };
+  }
+
+  const confidence = Math.round((steps.reduce((n, s) => n + s.confidence, 0) / steps.length) * 100) / 100;
+  return { classifier: 'rules-v1', confidence, fallback: false, steps };
+}
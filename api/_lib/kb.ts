@@ -0,0 +1,52 @@
+import { readJson, safeSegment, tenantFile, updateJson, writeJson } from './store.js';
+
+/**
+ * Saved company KB profiles from /api/research/build-kb, one per tenant + domain.
+ * Exposed to agents as MCP resources: kb://<tenant_id>/<domain>.
+ */
+
+export type KbProfileRecord = {
+  uri: string;
+  tenant_id: string;
+  domain: string;
+  company_name: string;
+  company_url: string;
+  updated_at: string;
+  profile: Record<string, unknown>;
+};
+
+export type KbIndexEntry = Omit<KbProfileRecord, 'profile'>;
+
+const INDEX = 'kb/index.json';
+
+export function kbUri(tenant_id: string, domain: string) {
+  return `kb://${encodeURIComponent(tenant_id)}/${encodeURIComponent(domain)}`;
+}
+
+export function parseKbUri(uri: string) {
+  const m = String(uri).match(/^kb:\/\/([^/]+)\/([^/]+)$/);
+  return m ? { tenant_id: decodeURIComponent(m[1]), domain: decodeURIComponent(m[2]) } : undefined;
+}
+
+function profileFile(tenant_id: string, domain: string) {
+  return tenantFile(tenant_id, `kb/${safeSegment(domain)}.json`);
+}
+
+export async function saveProfile(rec: Omit<KbProfileRecord, 'uri' | 'updated_at'>): Promise<KbProfileRecord> {
+  const full: KbProfileRecord = { ...rec, uri: kbUri(rec.tenant_id, rec.domain), updated_at: new Date().toISOString() };
+  await writeJson(profileFile(rec.tenant_id, rec.domain), full);
+  const { profile: _profile, ...entry } = full;
+  await updateJson<Record<string, KbIndexEntry>>(INDEX, {}, idx => ({ ...idx, [full.uri]: entry }));
+  return full;
+}
+
+export async function listProfiles(filter: { tenant_id?: string } = {}) {
+  const idx = await readJson<Record<string, KbIndexEntry>>(INDEX, {});
+  return Object.values(idx)
+    .filter(e => !filter.tenant_id || e.tenant_id === filter.tenant_id)
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+}
+
+export async function getProfile(tenant_id: string, domain: string) {
+  return readJson<KbProfileRecord | undefined>(profileFile(tenant_id, domain), undefined);
+}
@@ -0,0 +1,174 @@
+import type { Activity, Lead } from './adapters/types.js';
+import { PIPELINE_STAGES } from './catalog.js';
+
+/**
+ * Lead matching and the sales pipeline state machine.
+ *
+ * Dedupe (first rule that hits wins):
+ *  1. same email (case-insensitive)
+ *  2. same company email domain (free-mail domains excluded) + similar name   ≥ 0.85
+ *  3. very similar name (≥ 0.92) with no conflicting email domain or company
+ * Near misses (≥ 0.75) are reported as possible duplicates, never merged.
+ *
+ * Pipeline: context.capabilities.sales.pipeline
+ *   { initial: 'prospecting', transitions: { prospecting: ['qualification', 'closed_lost'], ... } }
+ * Stages are the keys plus every target; a move not listed is rejected.
+ */
+
+export type LeadQuery = { email?: string; name?: string; company?: string };
+
+export type LeadMatch = { lead: Lead; by: 'email' | 'domain_name' | 'name'; score: number };
+
+export type PipelineGraph = { initial: string; stages: string[]; transitions: Record<string, string[]> };
+
+export type TransitionCheck =
+  | { ok: true; noop: boolean }
+  | { ok: false; code: 'not_found' | 'invalid_state'; message: string };
+
+const DOMAIN_NAME_THRESHOLD = 0.85;
+const NAME_THRESHOLD = 0.92;
+const POSSIBLE_THRESHOLD = 0.75;
+
+const FREE_MAIL = new Set([
+  'gmail.com', 'googlemail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'live.com', 'msn.com', 'icloud.com',
+  'me.com', 'aol.com', 'proton.me', 'protonmail.com', 'gmx.com', 'gmx.de', 'mail.com', 'yandex.ru', 'zoho.com'
+]);
+
+const DEFAULT_TRANSITIONS: Record<string, string[]> = {
+  prospecting: ['qualification', 'closed_lost'],
+  qualification: ['prospecting', 'proposal', 'closed_lost'],
+  proposal: ['qualification', 'negotiation', 'closed_won', 'closed_lost'],
+  negotiation: ['proposal', 'closed_won', 'closed_lost'],
+  closed_won: [],
+  closed_lost: ['prospecting']
+};
+
+// --- MATCHING -------------------------------------------------------------------
+/** Lowercase, strip accents, punctuation and honorifics; "Doe, Jane" → "jane doe". */
+export function normalizeName(name: string) {
+  let s = name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+  const comma = s.match(/^([^,]+),\s*([^,]+)$/);
+  if (comma) s = `${comma[2]} ${comma[1]}`;
+  return s
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(w => w && !['mr', 'mrs', 'ms', 'dr', 'prof', 'jr', 'sr'].includes(w))
+    .join(' ');
+}
+
+export function normalizeCompany(company: string) {
+  return normalizeName(company).replace(/\b(inc|llc|ltd|gmbh|corp|co|plc|sa|ag|bv)\b/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/** Company domain of an email, or undefined for free-mail providers. */
+export function companyDomain(email?: string) {
+  const domain = email?.split('@')[1]?.toLowerCase().trim();
+  return domain && !FREE_MAIL.has(domain) ? domain : undefined;
+}
+
+function jaroWinkler(a: string, b: string) {
+  if (a === b) return 1;
+  if (!a.length || !b.length) return 0;
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aHit = new Array(a.length).fill(false);
+  const bHit = new Array(b.length).fill(false);
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    for (let j = Math.max(0, i - window); j < Math.min(b.length, i + window + 1); j++) {
+      if (bHit[j] || a[i] !== b[j]) continue;
+      aHit[i] = bHit[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (!matches) return 0;
+  let k = 0;
+  let transpositions = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aHit[i]) continue;
+    while (!bHit[k]) k++;
+    if (a[i] !== b[k++]) transpositions++;
+  }
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < 4 && a[prefix] && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+/** 0..1 similarity of two person names, order-insensitive. */
+export function nameSimilarity(a: string, b: string) {
+  const [x, y] = [normalizeName(a), normalizeName(b)];
+  if (!x || !y) return 0;
+  const sorted = (s: string) => s.split(' ').sort().join(' ');
+  return Math.round(Math.max(jaroWinkler(x, y), jaroWinkler(sorted(x), sorted(y))) * 1000) / 1000;
+}
+
+/** Best existing lead for `q` plus near misses worth a human look. */
+export function matchLead(leads: Lead[], q: LeadQuery): { match?: LeadMatch; possible: LeadMatch[] } {
+  const email = q.email?.toLowerCase();
+  const byEmail = email && leads.find(l => l.email?.toLowerCase() === email);
+  if (byEmail) return { match: { lead: byEmail, by: 'email', score: 1 }, possible: [] };
+  if (!q.name) return { possible: [] };
+
+  const domain = companyDomain(q.email);
+  const company = q.company ? normalizeCompany(q.company) : undefined;
+  const scored = leads
+    .map(lead => ({ lead, score: nameSimilarity(q.name!, lead.name) }))
+    .filter(s => s.score >= POSSIBLE_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  for (const { lead, score } of scored) {
+    const leadDomain = companyDomain(lead.email);
+    if (domain && leadDomain === domain && score >= DOMAIN_NAME_THRESHOLD) {
+      return { match: { lead, by: 'domain_name', score }, possible: [] };
+    }
+    const emailConflict = !!(q.email && lead.email) && (!domain || !leadDomain || domain !== leadDomain);
+    const companyConflict = !!(company && lead.company) && normalizeCompany(String(lead.company)) !== company;
+    if (score >= NAME_THRESHOLD && !emailConflict && !companyConflict) {
+      return { match: { lead, by: 'name', score }, possible: [] };
+    }
+  }
+  return { possible: scored.slice(0, 5).map(s => ({ ...s, by: 'name' as const })) };
+}
+
+// --- PIPELINE -------------------------------------------------------------------
+export function pipelineFor(capabilities: Record<string, unknown> = {}): PipelineGraph {
+  const cfg = (capabilities as any)?.sales?.pipeline;
+  const transitions: Record<string, string[]> = cfg?.transitions && typeof cfg.transitions === 'object'
+    ? Object.fromEntries(Object.entries(cfg.transitions).map(([k, v]) => [k, Array.isArray(v) ? v.map(String) : []]))
+    : DEFAULT_TRANSITIONS;
+  const stages = Array.from(new Set([...Object.keys(transitions), ...Object.values(transitions).flat()]));
+  const initial = typeof cfg?.initial === 'string' && stages.includes(cfg.initial)
+    ? cfg.initial
+    : stages.includes(PIPELINE_STAGES[0]) ? PIPELINE_STAGES[0] : stages[0];
+  return { initial, stages, transitions };
+}
+
+export function checkTransition(graph: PipelineGraph, from: string | undefined, to: string): TransitionCheck {
+  if (!graph.stages.includes(to)) {
+    return { ok: false, code: 'not_found', message: `unknown stage "${to}" (stages: ${graph.stages.join(', ')})` };
+  }
+  const current = from || graph.initial;
+  if (current === to) return { ok: true, noop: true };
+  // stages outside the graph (e.g. set before the tenant changed it) may move anywhere
+  if (!graph.stages.includes(current)) return { ok: true, noop: false };
+  const allowed = graph.transitions[current] || [];
+  if (!allowed.includes(to)) {
+    return {
+      ok: false,
+      code: 'invalid_state',
+      message: `cannot move from ${current} to ${to} (allowed: ${allowed.length ? allowed.join(', ') : 'none, stage is final'})`
+    };
+  }
+  return { ok: true, noop: false };
+}
+
+// --- TIMELINE -------------------------------------------------------------------
+/** Activities oldest → newest, optionally filtered; `limit` keeps the most recent. */
+export function timeline(activities: Activity[], q: { type?: string; since?: string; limit?: number } = {}) {
+  const rows = activities
+    .filter(a => !q.type || a.type === q.type)
+    .filter(a => !q.since || a.at >= q.since)
+    .sort((a, b) => a.at.localeCompare(b.at));
+  return q.limit && q.limit > 0 ? rows.slice(-q.limit) : rows;
+}
@@ -0,0 +1,469 @@
+import { formatMoney } from './billing.js';
+
+/**
+ * LEGAL template library: MSA, mutual and one-way NDA, DPA.
+ *
+ * Clause bodies hold {{variable}} placeholders; every template declares its
+ * variables with a type, and generation refuses to render while a required
+ * one is missing or malformed.
+ *
+ * Tenant settings (context.capabilities.legal):
+ *  - entity     { name, address }   our side of every agreement (else capabilities.company)
+ *  - defaults   { governing_law: 'New York', liability_cap: 500000, ... }   for any template
+ *  - templates  { msa: { title?, defaults?, clauses?: { <clause_id>: 'body' | null }, extra_clauses?: [...] }, ... }
+ *               the tenant's standard wording: replaced/dropped/added clauses
+ */
+
+export const TEMPLATE_IDS = ['msa', 'nda_mutual', 'nda_one_way', 'dpa'] as const;
+export type TemplateId = typeof TEMPLATE_IDS[number];
+
+export type VarType = 'party' | 'text' | 'date' | 'integer' | 'money' | 'list';
+export type TemplateVar = { type: VarType; description: string; required?: boolean; default?: unknown };
+
+export type Party = { name: string; address?: string };
+export type Money = { amount: number; currency: string };
+
+export type Clause = {
+  id: string;
+  heading: string;
+  body: string;
+  /** Deviations here are flagged high in contract review. */
+  critical?: boolean;
+  /** Other headings the same clause goes by in third-party paper. */
+  aliases?: string[];
+};
+
+export type LegalTemplate = {
+  id: TemplateId;
+  doc_type: string;
+  title: string;
+  preamble: string;
+  variables: Record<string, TemplateVar>;
+  clauses: Clause[];
+};
+
+export type VariableCheck = {
+  values: Record<string, unknown>;
+  missing: string[];
+  invalid: Array<{ variable: string; message: string }>;
+};
+
+export type RenderedDocument = {
+  template: TemplateId;
+  doc_type: string;
+  title: string;
+  preamble: string;
+  clauses: Array<{ id: string; heading: string; text: string }>;
+  text: string;
+  html: string;
+};
+
+// --- TEMPLATES ------------------------------------------------------------------
+const party = (description: string): TemplateVar => ({ type: 'party', description, required: true });
+const EFFECTIVE_DATE: TemplateVar = { type: 'date', description: 'Effective date', required: true };
+const GOVERNING_LAW: TemplateVar = { type: 'text', description: 'Governing law (state or country)', required: true };
+
+const governingLaw = (what: string): Clause => ({
+  id: 'governing_law',
+  heading: 'Governing Law',
+  body: `${what} is governed by the laws of {{governing_law}}, without regard to its conflict of laws rules. The courts of {{governing_law}} have exclusive jurisdiction over any dispute arising from it.`,
+  critical: true,
+  aliases: ['governing law and jurisdiction', 'jurisdiction', 'applicable law', 'choice of law']
+});
+
+const NDA_TAIL: Clause[] = [
+  {
+    id: 'exclusions',
+    heading: 'Exclusions',
+    body: 'These obligations do not apply to information that is or becomes public through no fault of the Recipient, was known to the Recipient before disclosure, is independently developed, or is rightfully received from a third party without restriction. The Recipient may disclose information when required by law after giving the Discloser prompt notice where permitted.',
+    aliases: ['exceptions']
+  },
+  {
+    id: 'term',
+    heading: 'Term',
+    body: 'This Agreement covers disclosures made within {{term_months}} months of the Effective Date. Obligations for each disclosure last {{confidentiality_years}} years from the date of disclosure.',
+    critical: true,
+    aliases: ['term and termination', 'duration']
+  },
+  {
+    id: 'return',
+    heading: 'Return of Information',
+    body: "On request, the Recipient will promptly return or destroy the Discloser's Confidential Information, except copies kept under routine backup or legal retention obligations.",
+    aliases: ['return or destruction', 'return of materials']
+  },
+  {
+    id: 'no_license',
+    heading: 'No License',
+    body: 'No license or other rights are granted except as expressly stated. All Confidential Information is provided "as is".',
+    aliases: ['no rights granted', 'no warranty']
+  },
+  {
+    id: 'remedies',
+    heading: 'Remedies',
+    body: 'Unauthorized disclosure may cause irreparable harm, so the Discloser may seek injunctive relief in addition to any other remedies.',
+    aliases: ['injunctive relief']
+  },
+  governingLaw('This Agreement')
+];
+
+const NDA_VARIABLES: Record<string, TemplateVar> = {
+  effective_date: EFFECTIVE_DATE,
+  governing_law: GOVERNING_LAW,
+  purpose: { type: 'text', description: 'Why information is shared', required: true, default: 'evaluating a potential business relationship' },
+  term_months: { type: 'integer', description: 'Months during which disclosures are covered', required: true, default: 24 },
+  confidentiality_years: { type: 'integer', description: 'Years each disclosure stays confidential', required: true, default: 3 }
+};
+
+const TEMPLATES: Record<TemplateId, LegalTemplate> = {
+  msa: {
+    id: 'msa',
+    doc_type: 'MSA',
+    title: 'MASTER SERVICES AGREEMENT',
+    preamble: 'This Master Services Agreement (the "Agreement") is entered into as of {{effective_date}} (the "Effective Date") between {{our_party}} ("Provider") and {{counterparty}} ("Customer").',
+    variables: {
+      our_party: party('Our contracting entity'),
+      counterparty: party('Customer'),
+      effective_date: EFFECTIVE_DATE,
+      governing_law: GOVERNING_LAW,
+      term_months: { type: 'integer', description: 'Initial term in months', required: true, default: 12 },
+      liability_cap: { type: 'money', description: 'Cap on each party\'s total liability', required: true },
+      payment_terms: { type: 'text', description: 'Invoice payment terms', required: true, default: 'NET 30' },
+      notice_days: { type: 'integer', description: 'Termination notice in days', required: true, default: 30 }
+    },
+    clauses: [
+      {
+        id: 'services',
+        heading: 'Services',
+        body: 'Provider will perform the services described in one or more statements of work signed by both parties (each an "SOW"). Each SOW is governed by this Agreement; if an SOW conflicts with this Agreement, this Agreement prevails unless the SOW expressly states otherwise.',
+        aliases: ['scope of services', 'statements of work']
+      },
+      {
+        id: 'fees',
+        heading: 'Fees and Payment',
+        body: 'Customer will pay the fees set out in each SOW. Invoices are payable {{payment_terms}} from the invoice date. Late amounts bear interest at the lesser of 1% per month or the maximum rate permitted by law.',
+        aliases: ['fees', 'payment', 'payment terms', 'fees and expenses']
+      },
+      {
+        id: 'term',
+        heading: 'Term and Termination',
+        body: 'This Agreement starts on the Effective Date and continues for {{term_months}} months. Either party may terminate this Agreement on {{notice_days}} days\' written notice, or immediately if the other party materially breaches it and fails to cure the breach within 30 days of notice.',
+        critical: true,
+        aliases: ['term', 'termination']
+      },
+      {
+        id: 'confidentiality',
+        heading: 'Confidentiality',
+        body: "Each party will keep the other party's Confidential Information confidential, use it only to perform this Agreement and disclose it only to personnel and advisers who need to know it and are bound by similar obligations.",
+        critical: true,
+        aliases: ['confidential information', 'non-disclosure']
+      },
+      {
+        id: 'ip',
+        heading: 'Intellectual Property',
+        body: 'Each party keeps all rights in its pre-existing intellectual property. Upon full payment, Customer owns the deliverables specifically created for it under an SOW; Provider keeps its tools, know-how and general skills.',
+        aliases: ['ownership', 'intellectual property rights', 'ip']
+      },
+      {
+        id: 'warranties',
+        heading: 'Warranties',
+        body: 'Provider warrants that the services will be performed in a professional and workmanlike manner. Except as stated in this Agreement, neither party gives any other warranty, express or implied.',
+        aliases: ['warranty', 'representations and warranties', 'disclaimer']
+      },
+      {
+        id: 'indemnification',
+        heading: 'Indemnification',
+        body: 'Each party will defend and indemnify the other against third-party claims arising from its gross negligence, wilful misconduct or infringement of third-party intellectual property rights.',
+        critical: true,
+        aliases: ['indemnity', 'indemnities']
+      },
+      {
+        id: 'liability',
+        heading: 'Limitation of Liability',
+        body: "Except for breach of confidentiality or indemnification obligations, each party's total liability under this Agreement is limited to {{liability_cap}}. Neither party is liable for indirect, consequential or punitive damages or lost profits.",
+        critical: true,
+        aliases: ['liability', 'limitations of liability', 'liability cap']
+      },
+      governingLaw('This Agreement'),
+      {
+        id: 'general',
+        heading: 'General',
+        body: "This Agreement, together with all SOWs, is the entire agreement between the parties regarding its subject matter. Amendments must be in writing and signed by both parties. Neither party may assign this Agreement without the other party's prior written consent, except to a successor of its business.",
+        aliases: ['miscellaneous', 'general provisions', 'entire agreement']
+      }
+    ]
+  },
+
+  nda_mutual: {
+    id: 'nda_mutual',
+    doc_type: 'NDA',
+    title: 'MUTUAL NON-DISCLOSURE AGREEMENT',
+    preamble: 'This Mutual Non-Disclosure Agreement (the "Agreement") is entered into as of {{effective_date}} (the "Effective Date") between {{our_party}} and {{counterparty}} (each a "Party") so that they may share confidential information for the purpose of {{purpose}} (the "Purpose").',
+    variables: { our_party: party('Our contracting entity'), counterparty: party('Other party'), ...NDA_VARIABLES },
+    clauses: [
+      {
+        id: 'definition',
+        heading: 'Confidential Information',
+        body: '"Confidential Information" means any non-public information disclosed by one Party (the "Discloser") to the other (the "Recipient") that is marked confidential or that a reasonable person would understand to be confidential.',
+        critical: true,
+        aliases: ['definition of confidential information', 'definition', 'definitions']
+      },
+      {
+        id: 'obligations',
+        heading: 'Obligations',
+        body: 'The Recipient will use Confidential Information only for the Purpose, protect it with at least reasonable care and disclose it only to its employees and advisers who need to know it for the Purpose and are bound by confidentiality obligations no less protective than these.',
+        critical: true,
+        aliases: ['obligations of the recipient', 'confidentiality obligations', 'non-use and non-disclosure']
+      },
+      ...NDA_TAIL
+    ]
+  },
+
+  nda_one_way: {
+    id: 'nda_one_way',
+    doc_type: 'NDA',
+    title: 'NON-DISCLOSURE AGREEMENT',
+    preamble: 'This Non-Disclosure Agreement (the "Agreement") is entered into as of {{effective_date}} (the "Effective Date") between {{discloser}} (the "Discloser") and {{recipient}} (the "Recipient") so that the Discloser may share confidential information for the purpose of {{purpose}} (the "Purpose").',
+    variables: { discloser: party('Party sharing information'), recipient: party('Party receiving information'), ...NDA_VARIABLES },
+    clauses: [
+      {
+        id: 'definition',
+        heading: 'Confidential Information',
+        body: '"Confidential Information" means any non-public information the Discloser discloses to the Recipient that is marked confidential or that a reasonable person would understand to be confidential.',
+        critical: true,
+        aliases: ['definition of confidential information', 'definition', 'definitions']
+      },
+      {
+        id: 'obligations',
+        heading: 'Obligations',
+        body: 'The Recipient will use Confidential Information only for the Purpose, protect it with at least reasonable care and disclose it only to its employees and advisers who need to know it for the Purpose and are bound by confidentiality obligations no less protective than these.',
+        critical: true,
+        aliases: ['obligations of the recipient', 'confidentiality obligations', 'non-use and non-disclosure']
+      },
+      ...NDA_TAIL
+    ]
+  },
+
+  dpa: {
+    id: 'dpa',
+    doc_type: 'DPA',
+    title: 'DATA PROCESSING AGREEMENT',
+    preamble: 'This Data Processing Agreement (the "Agreement") is entered into as of {{effective_date}} (the "Effective Date") between {{controller}} (the "Controller") and {{processor}} (the "Processor") and forms part of the agreement under which the Processor provides services to the Controller.',
+    variables: {
+      controller: party('Controller'),
+      processor: party('Processor'),
+      effective_date: EFFECTIVE_DATE,
+      governing_law: GOVERNING_LAW,
+      processing_purpose: { type: 'text', description: 'Purpose of the processing', required: true },
+      data_categories: { type: 'list', description: 'Categories of personal data', required: true },
+      data_subjects: { type: 'list', description: 'Categories of data subjects', required: true },
+      subprocessors: { type: 'list', description: 'Sub-processors authorised at signature', required: true, default: ['none'] },
+      breach_notice_hours: { type: 'integer', description: 'Hours to notify a personal data breach', required: true, default: 72 }
+    },
+    clauses: [
+      {
+        id: 'scope',
+        heading: 'Subject Matter and Details of Processing',
+        body: 'The Processor processes personal data on behalf of the Controller for the purpose of {{processing_purpose}}. Categories of personal data: {{data_categories}}. Categories of data subjects: {{data_subjects}}.',
+        critical: true,
+        aliases: ['scope', 'details of processing', 'subject matter']
+      },
+      {
+        id: 'instructions',
+        heading: 'Processing on Instructions',
+        body: 'The Processor processes personal data only on documented instructions from the Controller, unless required otherwise by law, and informs the Controller if an instruction infringes data protection law.',
+        critical: true,
+        aliases: ['instructions', "controller's instructions"]
+      },
+      {
+        id: 'confidentiality',
+        heading: 'Confidentiality',
+        body: 'The Processor ensures that persons authorised to process personal data have committed themselves to confidentiality or are under an appropriate statutory obligation of confidentiality.',
+        aliases: ['personnel']
+      },
+      {
+        id: 'security',
+        heading: 'Security',
+        body: 'The Processor implements appropriate technical and organisational measures to protect personal data, taking into account the state of the art, the costs of implementation and the risks to data subjects.',
+        critical: true,
+        aliases: ['security of processing', 'technical and organisational measures']
+      },
+      {
+        id: 'subprocessors',
+        heading: 'Sub-processors',
+        body: "The Processor engages sub-processors only with the Controller's prior written authorisation and imposes on them the same data protection obligations. Authorised sub-processors at the Effective Date: {{subprocessors}}.",
+        critical: true,
+        aliases: ['subprocessors', 'sub-processing', 'subcontracting']
+      },
+      {
+        id: 'breach',
+        heading: 'Personal Data Breach',
+        body: 'The Processor notifies the Controller without undue delay, and in any case within {{breach_notice_hours}} hours, after becoming aware of a personal data breach.',
+        critical: true,
+        aliases: ['data breach', 'breach notification', 'security incidents']
+      },
+      {
+        id: 'assistance',
+        heading: 'Assistance',
+        body: 'The Processor assists the Controller with data subject requests, data protection impact assessments and consultations with supervisory authorities.',
+        aliases: ['data subject rights', 'cooperation']
+      },
+      {
+        id: 'deletion',
+        heading: 'Return and Deletion',
+        body: "At the end of the services, the Processor deletes or returns all personal data at the Controller's choice and deletes existing copies unless law requires their storage.",
+        aliases: ['deletion', 'return or deletion of data']
+      },
+      {
+        id: 'audits',
+        heading: 'Audits',
+        body: 'The Processor makes available all information necessary to demonstrate compliance and allows for audits, including inspections, by the Controller or an auditor it mandates.',
+        aliases: ['audit rights', 'audit']
+      },
+      governingLaw('This Agreement')
+    ]
+  }
+};
+
+function legalOf(capabilities: Record<string, unknown> = {}) {
+  return ((capabilities as any)?.legal || {}) as Record<string, any>;
+}
+
+/** The tenant's standard version of a template (clause overrides applied). */
+export function templateFor(id: TemplateId, capabilities?: Record<string, unknown>): LegalTemplate {
+  const base = TEMPLATES[id];
+  const own = legalOf(capabilities).templates?.[id] || {};
+  const bodies = (own.clauses || {}) as Record<string, string | null>;
+  const extra = Array.isArray(own.extra_clauses)
+    ? own.extra_clauses.filter((c: any) => c && typeof c.id === 'string' && typeof c.heading === 'string' && typeof c.body === 'string')
+    : [];
+  return {
+    ...base,
+    title: typeof own.title === 'string' ? own.title : base.title,
+    clauses: [
+      ...base.clauses
+        .filter(c => bodies[c.id] !== null)
+        .map(c => (typeof bodies[c.id] === 'string' ? { ...c, body: bodies[c.id] as string } : c)),
+      ...extra
+    ]
+  };
+}
+
+export function isTemplateId(v: unknown): v is TemplateId {
+  return (TEMPLATE_IDS as readonly string[]).includes(String(v));
+}
+
+/** Our contracting entity: capabilities.legal.entity, else capabilities.company. */
+export function ourParty(capabilities?: Record<string, unknown>): Party | undefined {
+  const e = legalOf(capabilities).entity || (capabilities as any)?.company;
+  return e && typeof e.name === 'string' && e.name.trim() ? { name: e.name.trim(), ...(e.address ? { address: String(e.address) } : {}) } : undefined;
+}
+
+// --- VARIABLES ------------------------------------------------------------------
+function coerce(spec: TemplateVar, v: unknown): { value?: unknown; error?: string } {
+  switch (spec.type) {
+    case 'party': {
+      const p = typeof v === 'string' ? { name: v } : v as Partial<Party>;
+      return p && typeof p.name === 'string' && p.name.trim()
+        ? { value: { name: p.name.trim(), ...(p.address ? { address: String(p.address) } : {}) } }
+        : { error: 'expected a party name' };
+    }
+    case 'date':
+      return typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v) ? { value: v } : { error: 'expected YYYY-MM-DD' };
+    case 'integer':
+      return Number.isInteger(Number(v)) && Number(v) > 0 ? { value: Number(v) } : { error: 'expected a positive whole number' };
+    case 'money': {
+      const m = typeof v === 'number' ? { amount: v, currency: 'USD' } : v as Partial<Money>;
+      return m && typeof m.amount === 'number' && m.amount > 0
+        ? { value: { amount: m.amount, currency: String(m.currency || 'USD').toUpperCase() } }
+        : { error: 'expected a positive amount' };
+    }
+    case 'list': {
+      const items = (Array.isArray(v) ? v : String(v ?? '').split(',')).map(s => String(s).trim()).filter(Boolean);
+      return items.length ? { value: items } : { error: 'expected at least one item' };
+    }
+    default:
+      return typeof v === 'string' && v.trim() ? { value: v.trim() } : { error: 'expected text' };
+  }
+}
+
+/**
+ * Resolve every template variable from `provided`, then the tenant's per-template
+ * and global legal defaults, then the template default. Reports what is missing
+ * or malformed instead of rendering a half-filled agreement.
+ */
+export function resolveVariables(tpl: LegalTemplate, provided: Record<string, unknown>, capabilities?: Record<string, unknown>): VariableCheck {
+  const legal = legalOf(capabilities);
+  const sources = [provided, legal.templates?.[tpl.id]?.defaults || {}, legal.defaults || {}];
+  const out: VariableCheck = { values: {}, missing: [], invalid: [] };
+  for (const [name, spec] of Object.entries(tpl.variables)) {
+    const raw = sources.map(s => s[name]).find(v => v !== undefined && v !== null && v !== '') ?? spec.default;
+    if (raw === undefined) {
+      if (spec.required) out.missing.push(name);
+      continue;
+    }
+    const { value, error } = coerce(spec, raw);
+    if (error) out.invalid.push({ variable: name, message: `${name}: ${error}` });
+    else out.values[name] = value;
+  }
+  return out;
+}
+
+export function formatValue(spec: TemplateVar | undefined, v: unknown) {
+  switch (spec?.type) {
+    case 'party': return (v as Party).name;
+    case 'money': return formatMoney((v as Money).amount, (v as Money).currency);
+    case 'list': return (v as string[]).join(', ');
+    default: return String(v);
+  }
+}
+
+/** Fill placeholders; unknown ones stay as {{name}} (contract review matches them as wildcards). */
+export function fill(text: string, tpl: LegalTemplate, values: Record<string, unknown>) {
+  return text.replace(/\{\{(\w+)\}\}/g, (m, name) => (values[name] === undefined ? m : formatValue(tpl.variables[name], values[name])));
+}
+
+// --- RENDERING ------------------------------------------------------------------
+function esc(v: unknown) {
+  return String(v ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
+
+/** Render with fully resolved variables (see resolveVariables). */
+export function renderDocument(tpl: LegalTemplate, values: Record<string, unknown>): RenderedDocument {
+  const preamble = fill(tpl.preamble, tpl, values);
+  const clauses = tpl.clauses.map(c => ({ id: c.id, heading: c.heading, text: fill(c.body, tpl, values) }));
+  const parties = Object.entries(tpl.variables).filter(([, s]) => s.type === 'party').map(([k]) => values[k] as Party);
+
+  const text = [
+    tpl.title,
+    '',
+    preamble,
+    '',
+    ...clauses.flatMap((c, n) => [`${n + 1}. ${c.heading}`, c.text, '']),
+    'Signed by the parties on the dates below.',
+    '',
+    ...parties.flatMap(p => [`Signed for ${p.name}${p.address ? `, ${p.address}` : ''}`, 'Name: ____________  Title: ____________  Date: ____________', ''])
+  ].join('\n');
+
+  const html = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${esc(tpl.title)}</title>
+<style>
+  body { font: 15px/1.6 Georgia, serif; color: #111; margin: 48px auto; max-width: 760px; }
+  h1 { font-size: 20px; text-align: center; letter-spacing: .05em; }
+  h2 { font-size: 15px; margin: 20px 0 4px; }
+  .sig { display: flex; gap: 48px; margin-top: 40px; } .sig div { flex: 1; border-top: 1px solid #111; padding-top: 6px; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+  <h1>${esc(tpl.title)}</h1>
+  <p>${esc(preamble)}</p>
+${clauses.map((c, n) => `  <h2>${n + 1}. ${esc(c.heading)}</h2>\n  <p>${esc(c.text)}</p>`).join('\n')}
+  <div class="sig">${parties.map(p => `<div>${esc(p.name)}${p.address ? `<br>${esc(p.address)}` : ''}<br>Name / Title / Date</div>`).join('')}</div>
+</body>
+</html>
+`;
+  return { template: tpl.id, doc_type: tpl.doc_type, title: tpl.title, preamble, clauses, text, html };
+}
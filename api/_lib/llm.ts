@@ -0,0 +1,293 @@
+import { createHash } from 'node:crypto';
+import { promises as fs, readFileSync } from 'node:fs';
+import path from 'node:path';
+import OpenAI from 'openai';
+import { classifyUtterance } from './intent.js';
+import { safeSegment, withFileLock } from './store.js';
+
+/**
+ * Chat-completion providers for the tool loop in /api/agent/chat.
+ *
+ * AGENT_MODE picks one (anything else runs the local spine, no model at all):
+ * - openai    live API (OPENAI_API_KEY, AGENT_MODEL)
+ * - record    live API, and every request/response pair is written to the cassette
+ * - replay    answers from the cassette only: no network, no key, and an
+ *             unrecorded request is an error instead of a live call
+ * - scripted  a fake model; follows AGENT_SCRIPT (JSON file, see Script) or, without
+ *             one, the canonical schema_guard → build_tickets → department tools → summary run
+ *
+ * Env:
+ * - AGENT_FIXTURES_DIR  where cassettes live (default: fixtures/llm)
+ * - AGENT_CASSETTE      cassette name (default: agent)
+ * - AGENT_SCRIPT        script for `scripted`, e.g. fixtures/llm/agent.script.json
+ *                       (the run fixtures/llm/agent.json was recorded from)
+ *
+ * Requests are matched on what the user said and what the model answered, not
+ * on tool result payloads or the memory note (those carry fresh ids and
+ * timestamps), so a replay takes the same path as the recording did.
+ */
+
+// --- TYPES --------------------------------------------------------------------
+export type ChatRequest = {
+  model: string;
+  messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[];
+  tools: OpenAI.Chat.Completions.ChatCompletionTool[];
+};
+
+export type TokenUsage = { prompt_tokens: number; completion_tokens: number; total_tokens: number };
+
+/** `usage` is what the API billed; the scripted model and older cassettes have none. */
+export type ModelTurn = {
+  content: string | null;
+  tool_calls?: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[];
+  usage?: TokenUsage;
+};
+
+export interface ModelProvider {
+  name: 'openai' | 'record' | 'replay' | 'scripted';
+  /** One model turn; `onDelta` gets the reply text as it is produced (streaming callers). */
+  complete(req: ChatRequest, onDelta?: (text: string) => void): Promise<ModelTurn>;
+}
+
+/** Provider set up wrong (no key, no cassette, unreadable script); the endpoint answers 500 with the message. */
+export class ProviderConfigError extends Error {}
+
+/** Replay met a request the cassette does not have. */
+export class FixtureMissError extends Error {
+  constructor(public key: string, public cassette: string) {
+    super(`no recorded response for request ${key} in cassette ${cassette}; re-record with AGENT_MODE=record`);
+  }
+}
+
+export const MODEL_MODES = ['openai', 'record', 'replay', 'scripted'] as const;
+
+export function isModelMode(mode: string): mode is ModelProvider['name'] {
+  return (MODEL_MODES as readonly string[]).includes(mode);
+}
+
+export function modelProvider(mode: ModelProvider['name']): ModelProvider {
+  switch (mode) {
+    case 'openai': return openaiProvider();
+    case 'record': return recordingProvider(openaiProvider(), cassettePath());
+    case 'replay': return replayProvider(cassettePath());
+    case 'scripted': return scriptedProvider(process.env.AGENT_SCRIPT ? readScript(process.env.AGENT_SCRIPT) : undefined);
+  }
+}
+
+// --- OPENAI -------------------------------------------------------------------
+export function openaiProvider(): ModelProvider {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) throw new ProviderConfigError('Missing OPENAI_API_KEY');
+  const client = new OpenAI({ apiKey });
+
+  return {
+    name: 'openai',
+    async complete(req, onDelta) {
+      if (!onDelta) {
+        const completion = await client.chat.completions.create(req);
+        const msg = completion.choices[0].message;
+        return {
+          content: msg.content,
+          ...(msg.tool_calls?.length ? { tool_calls: msg.tool_calls } : {}),
+          ...(completion.usage ? { usage: usageOf(completion.usage) } : {})
+        };
+      }
+
+      // stream:true; text deltas go out as they arrive, tool calls are reassembled by index,
+      // and the usage comes in a last chunk without choices
+      const stream = await client.chat.completions.create({ ...req, stream: true, stream_options: { include_usage: true } });
+      let content = '';
+      let usage: TokenUsage | undefined;
+      const calls: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[] = [];
+      for await (const chunk of stream) {
+        if (chunk.usage) usage = usageOf(chunk.usage);
+        const delta = chunk.choices[0]?.delta;
+        if (!delta) continue;
+        if (delta.content) {
+          content += delta.content;
+          onDelta(delta.content);
+        }
+        for (const tc of delta.tool_calls || []) {
+          const call = calls[tc.index] ||= { id: '', type: 'function', function: { name: '', arguments: '' } };
+          if (tc.id) call.id = tc.id;
+          if (tc.function?.name) call.function.name += tc.function.name;
+          if (tc.function?.arguments) call.function.arguments += tc.function.arguments;
+        }
+      }
+      const tool_calls = calls.filter(Boolean);
+      return { content: content || null, ...(tool_calls.length ? { tool_calls } : {}), ...(usage ? { usage } : {}) };
+    }
+  };
+}
+
+function usageOf(u: OpenAI.Completions.CompletionUsage): TokenUsage {
+  return { prompt_tokens: u.prompt_tokens, completion_tokens: u.completion_tokens, total_tokens: u.total_tokens };
+}
+
+// --- CASSETTES ----------------------------------------------------------------
+type Interaction = {
+  key: string;
+  recorded_at: string;
+  model: string;
+  /** What the key was computed from, kept for reading diffs. */
+  request: unknown[];
+  response: ModelTurn;
+};
+
+type Cassette = { version: 1; interactions: Interaction[] };
+
+function cassettePath() {
+  const dir = process.env.AGENT_FIXTURES_DIR || path.join('fixtures', 'llm');
+  return path.resolve(dir, `${safeSegment(process.env.AGENT_CASSETTE || 'agent')}.json`);
+}
+
+async function readCassette(file: string): Promise<Cassette> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as Cassette;
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return { version: 1, interactions: [] };
+    throw e;
+  }
+}
+
+/** The part of a request a recording is matched on (see the header). */
+export function requestShape(req: ChatRequest): unknown[] {
+  return req.messages.map((m: any, i) => {
+    switch (m.role) {
+      case 'system': return i === 0 ? ['system', m.content] : ['system'];
+      case 'user': return ['user', m.content];
+      case 'assistant':
+        return ['assistant', m.content ?? null, (m.tool_calls || []).map((c: any) => [c.function?.name, c.function?.arguments])];
+      case 'tool': return ['tool', m.name ?? ''];
+      default: return [m.role];
+    }
+  });
+}
+
+export function requestKey(req: ChatRequest) {
+  return createHash('sha256').update(JSON.stringify([req.model, requestShape(req)])).digest('hex').slice(0, 16);
+}
+
+export function recordingProvider(live: ModelProvider, file: string): ModelProvider {
+  return {
+    name: 'record',
+    async complete(req, onDelta) {
+      const response = await live.complete(req, onDelta);
+      const key = requestKey(req);
+      await withFileLock(file, async () => {
+        const c = await readCassette(file);
+        // re-recording the same request replaces it
+        c.interactions = c.interactions.filter(x => x.key !== key);
+        c.interactions.push({ key, recorded_at: new Date().toISOString(), model: req.model, request: requestShape(req), response });
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, JSON.stringify(c, null, 2) + '\n');
+      });
+      return response;
+    }
+  };
+}
+
+export function replayProvider(file: string): ModelProvider {
+  let cached: Promise<Map<string, ModelTurn>> | undefined;
+  const load = () => cached ||= readCassette(file).then(c => {
+    if (!c.interactions.length) throw new ProviderConfigError(`cassette ${file} is empty or missing; record it with AGENT_MODE=record`);
+    return new Map(c.interactions.map(x => [x.key, x.response]));
+  });
+
+  return {
+    name: 'replay',
+    async complete(req, onDelta) {
+      const key = requestKey(req);
+      const response = (await load()).get(key);
+      if (!response) throw new FixtureMissError(key, path.basename(file, '.json'));
+      if (response.content && onDelta) onDelta(response.content);
+      return response;
+    }
+  };
+}
+
+// --- SCRIPTED -----------------------------------------------------------------
+export type ScriptStep = {
+  content?: string;
+  tool_calls?: Array<{ name: string; arguments?: Record<string, unknown> }>;
+};
+
+/**
+ * Scenarios, first match wins: `when` is a case-insensitive regex on the
+ * latest user message (absent = always). Step n answers the n-th model call
+ * after that message; past the last step the model says "Done.".
+ */
+export type Script = Array<{ when?: string; steps: ScriptStep[] }>;
+
+function readScript(file: string): Script {
+  try {
+    const raw = JSON.parse(readFileSync(path.resolve(file), 'utf8'));
+    return Array.isArray(raw) ? raw : [raw];
+  } catch (e: any) {
+    throw new ProviderConfigError(`unreadable AGENT_SCRIPT ${file}: ${e?.message || e}`);
+  }
+}
+
+export function scriptedProvider(script?: Script): ModelProvider {
+  return {
+    name: 'scripted',
+    async complete(req, onDelta) {
+      const lastUser = req.messages.map(m => m.role).lastIndexOf('user');
+      const since = req.messages.slice(lastUser + 1);
+      const n = since.filter(m => m.role === 'assistant').length;
+      const said = String(req.messages[lastUser]?.content ?? '');
+
+      const scenario = script?.find(s => !s.when || new RegExp(s.when, 'i').test(said));
+      const step = scenario ? scenario.steps[n] || { content: 'Done.' } : canonicalStep(utteranceOf(said), n, since);
+      const turn: ModelTurn = step.tool_calls?.length
+        ? {
+            content: step.content ?? null,
+            tool_calls: step.tool_calls.map((c, i) => ({
+              id: `call_${n}_${i}`,
+              type: 'function',
+              function: { name: c.name, arguments: JSON.stringify(c.arguments || {}) }
+            }))
+          }
+        : { content: step.content ?? 'Done.' };
+      if (turn.content && !turn.tool_calls && onDelta) onDelta(turn.content);
+      return turn;
+    }
+  };
+}
+
+/** /api/agent/chat sends "Utterance: …\nContext: …". */
+function utteranceOf(userContent: string) {
+  const m = userContent.match(/^Utterance: ([\s\S]*?)(?:\nContext: [\s\S]*)?$/);
+  return m ? m[1] : userContent;
+}
+
+function toolResults(messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[], name?: string) {
+  return messages
+    .filter((m: any) => m.role === 'tool' && (!name || m.name === name))
+    .map((m: any) => { try { return JSON.parse(String(m.content)); } catch { return {}; } });
+}
+
+/** What the system prompt asks for, played straight: guard, plan, run each ticket's tool, summarize. */
+function canonicalStep(utterance: string, n: number, since: OpenAI.Chat.Completions.ChatCompletionMessageParam[]): ScriptStep {
+  switch (n) {
+    case 0:
+      return { tool_calls: [{ name: 'schema_guard', arguments: { utterance } }] };
+    case 1: {
+      const guard = toolResults(since, 'schema_guard').pop();
+      if (!guard?.ok) return { content: `I could not start: ${guard?.error || 'schema_guard failed'}.` };
+      const plan = Array.from(new Set(classifyUtterance(utterance).steps.map(s => s.dept)));
+      return { tool_calls: [{ name: 'build_tickets', arguments: { plan, tenant_id: guard.tenant_id, session_id: '', utterance } }] };
+    }
+    case 2: {
+      const built = toolResults(since, 'build_tickets').pop();
+      const tickets = Object.values<any>(built?.tickets || {});
+      if (!tickets.length) return { content: 'There was nothing for the departments to do.' };
+      return { tool_calls: tickets.map(t => ({ name: t.tool, arguments: t.inputs })) };
+    }
+    default: {
+      const done = toolResults(since).filter(r => r?.summary || r?.result?.summary);
+      if (!done.length) return { content: 'Done.' };
+      return { content: done.map(r => (r.result || r).summary).join('\n') };
+    }
+  }
+}
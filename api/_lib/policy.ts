@@ -0,0 +1,226 @@
+import { validateInputs } from './catalog.js';
+import type { DeptTicket } from './departments.js';
+import { businessHours, toMinutes, zonedParts, zonedToUtc, type BusinessHours } from './time.js';
+
+/**
+ * Policy gates evaluated for every ticket before it reaches a department handler.
+ *
+ * Inputs:
+ *  - ticket.context.capabilities.policies   { after_hours_outreach, pii, phi, ... }
+ *  - ticket.context.capabilities.business_hours
+ *      { timezone: 'America/New_York', days: [1,2,3,4,5], start: '09:00', end: '17:00' }
+ *  - ticket.context.constraints.sensitivity NONE | INTERNAL | PII | PHI | RESTRICTED
+ *
+ * Each gate returns allow / deny / defer; deny beats defer beats allow.
+ * Gates may also rewrite the ticket (e.g. masking PII) before it runs.
+ */
+
+export type PolicyDecision = 'allow' | 'deny' | 'defer';
+
+export type GateResult = {
+  gate: 'sensitivity' | 'after_hours_outreach';
+  decision: PolicyDecision;
+  reason: string;
+};
+
+export type PolicyVerdict = {
+  decision: PolicyDecision;
+  gates: GateResult[];
+  ticket: DeptTicket;
+  not_before?: string;
+};
+
+type Policies = {
+  after_hours_outreach?: boolean;
+  after_hours_mode?: 'defer' | 'deny';
+  outreach_actions?: string[];
+  pii?: 'allow' | 'mask' | 'drop' | 'deny';
+  phi?: 'allow' | 'mask' | 'drop' | 'deny';
+};
+
+export const SENSITIVITY_LEVELS = ['NONE', 'INTERNAL', 'PII', 'PHI', 'RESTRICTED'] as const;
+
+// Actions that contact people outside the company.
+const DEFAULT_OUTREACH_ACTIONS = ['MARKETING.send_newsletter', 'MARKETING.publish_post', 'CS.auto_reply', 'CS.csat_request'];
+
+// RESTRICTED requests may only be worked by these departments.
+const RESTRICTED_DEPTS = ['SECURITY', 'LEGAL'];
+
+// Fields that name or reach a person; everything inside them (attendees[].email, ...) is personal.
+const PII_FIELD = /(^|_)(emails?|phones?|lead_name|employees?|attendees?|customers?|contacts?|manager|assignee|reported_by|accepted_by|counterparty)$/;
+
+// Free text that may quote an address or a number (the utterance clause lands in notes).
+const FREE_TEXT_FIELD = /(^|_)(notes?|description|body|comment|message|reply|feedback|problem|issue|request|reason|subject|title|text)$/;
+
+const EMAIL_IN_TEXT = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+// 7+ digits with optional separators, but not an ISO date or time
+const PHONE_IN_TEXT = /\+?\(?\d[\d\s().-]{5,}\d/g;
+
+// --- HELPERS ------------------------------------------------------------------
+function policiesOf(ticket: DeptTicket): Policies {
+  return ((ticket.context?.capabilities as any)?.policies || {}) as Policies;
+}
+
+function hoursOf(ticket: DeptTicket): BusinessHours {
+  return businessHours(ticket.context?.capabilities);
+}
+
+function maskValue(field: string, v: unknown) {
+  const s = String(v);
+  if ((/email/.test(field) || /^[^\s@]+@[^\s@]+$/.test(s)) && s.includes('@')) {
+    const [local, domain] = s.split('@');
+    return `${local.slice(0, 1)}***@${domain}`;
+  }
+  if (/phone/.test(field)) return s.replace(/\d(?=(?:\D*\d){4})/g, '*');
+  return s.split(/\s+/).map(w => (w ? `${w[0]}.` : w)).join(' ');
+}
+
+function isPhoneLike(m: string) {
+  return (m.match(/\d/g) || []).length >= 7 && !/\d{4}-\d{2}-\d{2}|\d{1,2}:\d{2}/.test(m);
+}
+
+/** Emails and phone numbers inside free text, masked or replaced by a marker. */
+function scrubText(s: string, mode: 'mask' | 'drop') {
+  return s
+    .replace(EMAIL_IN_TEXT, m => (mode === 'mask' ? maskValue('email', m) : '[email removed]'))
+    .replace(PHONE_IN_TEXT, m => (!isPhoneLike(m) ? m : mode === 'mask' ? maskValue('phone', m) : '[phone removed]'));
+}
+
+/** Masks every leaf of a personal field (strings by content, nested keys by name). */
+function maskDeep(field: string, v: unknown): unknown {
+  if (v === undefined || v === null || v === '') return v;
+  if (Array.isArray(v)) return v.map(x => maskDeep(field, x));
+  if (typeof v === 'object') return Object.fromEntries(Object.entries(v as Record<string, unknown>).map(([k, x]) => [k, maskDeep(k, x)]));
+  return typeof v === 'string' ? maskValue(field, v) : v;
+}
+
+/** undefined = the value is dropped. */
+function scrubValue(field: string, v: unknown, mode: 'mask' | 'drop', touched: Set<string>, top: string): unknown {
+  if (v === undefined || v === null || v === '') return v;
+  if (PII_FIELD.test(field)) {
+    touched.add(top);
+    return mode === 'mask' ? maskDeep(field, v) : undefined;
+  }
+  if (typeof v === 'string') {
+    if (!FREE_TEXT_FIELD.test(field)) return v;
+    const out = scrubText(v, mode);
+    if (out !== v) touched.add(top);
+    return out;
+  }
+  if (Array.isArray(v)) return v.map(x => scrubValue(field, x, mode, touched, top)).filter(x => x !== undefined);
+  if (typeof v === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const [k, x] of Object.entries(v as Record<string, unknown>)) {
+      const y = scrubValue(k, x, mode, touched, top);
+      if (y !== undefined) out[k] = y;
+    }
+    return out;
+  }
+  return v;
+}
+
+function scrubPii(ticket: DeptTicket, mode: 'mask' | 'drop') {
+  const touched = new Set<string>();
+  const inputs: Record<string, unknown> = {};
+  for (const [k, v] of Object.entries(ticket.inputs || {})) {
+    const out = scrubValue(k, v, mode, touched, k);
+    if (out !== undefined) inputs[k] = out;
+  }
+  return { ticket: { ...ticket, inputs }, touched: [...touched] };
+}
+
+/** null when `now` is inside business hours, else the next opening instant. */
+export function nextBusinessOpening(now: Date, hours: BusinessHours): Date | null {
+  const p = zonedParts(now, hours.timezone);
+  const mins = p.hour * 60 + p.minute;
+  const [open, close] = [toMinutes(hours.start), toMinutes(hours.end)];
+  if (hours.days.includes(p.weekday) && mins >= open && mins < close) return null;
+
+  for (let d = 0; d <= 7; d++) {
+    const weekday = (p.weekday + d) % 7;
+    if (!hours.days.includes(weekday) || (d === 0 && mins >= open)) continue;
+    const base = new Date(Date.UTC(p.year, p.month - 1, p.day + d));
+    return zonedToUtc(base.getUTCFullYear(), base.getUTCMonth() + 1, base.getUTCDate(), Math.floor(open / 60), open % 60, hours.timezone);
+  }
+  return null;
+}
+
+// --- GATES --------------------------------------------------------------------
+function sensitivityGate(ticket: DeptTicket, level: string, outreach: boolean): { gate: GateResult; ticket: DeptTicket } {
+  const policies = policiesOf(ticket);
+  const result = (decision: PolicyDecision, reason: string, t = ticket) => ({ gate: { gate: 'sensitivity' as const, decision, reason }, ticket: t });
+
+  switch (level) {
+    case 'NONE':
+      return result('allow', 'sensitivity=NONE');
+    case 'INTERNAL':
+      return outreach
+        ? result('deny', 'sensitivity=INTERNAL forbids external outreach')
+        : result('allow', 'sensitivity=INTERNAL, internal action');
+    case 'PII':
+    case 'PHI': {
+      const mode = (level === 'PII' ? policies.pii : policies.phi) || 'deny';
+      const key = level.toLowerCase();
+      if (mode === 'allow') return result('allow', `sensitivity=${level}, policies.${key}=allow`);
+      if (mode === 'deny' || (level === 'PHI' && mode === 'drop')) {
+        return result('deny', `sensitivity=${level}, policies.${key}=${mode}: request must not be processed`);
+      }
+      const scrubbed = scrubPii(ticket, mode);
+      const what = scrubbed.touched.length ? scrubbed.touched.join(', ') : 'no personal fields present';
+      if (mode === 'drop') {
+        // the handler would run without a field it needs
+        const checked = validateInputs(ticket.dept, ticket.action, scrubbed.ticket.inputs);
+        if (!checked.ok) {
+          return result('deny', `sensitivity=${level}, policies.${key}=drop removes what the action needs (${checked.errors.map(e => e.message).join('; ')})`);
+        }
+      }
+      return result('allow', `sensitivity=${level}, policies.${key}=${mode} (${what})`, scrubbed.ticket);
+    }
+    case 'RESTRICTED':
+      return RESTRICTED_DEPTS.includes(ticket.dept) && !outreach
+        ? result('allow', `sensitivity=RESTRICTED, ${ticket.dept} is cleared`)
+        : result('deny', `sensitivity=RESTRICTED limits work to ${RESTRICTED_DEPTS.join('/')}`);
+    default:
+      return result('deny', `unknown sensitivity level "${level}" (fail closed)`);
+  }
+}
+
+function afterHoursGate(ticket: DeptTicket, outreach: boolean, now: Date): { gate: GateResult; not_before?: string } {
+  const policies = policiesOf(ticket);
+  if (!outreach) return { gate: { gate: 'after_hours_outreach', decision: 'allow', reason: 'not an outreach action' } };
+  if (policies.after_hours_outreach === true) {
+    return { gate: { gate: 'after_hours_outreach', decision: 'allow', reason: 'policies.after_hours_outreach=true' } };
+  }
+
+  const hours = hoursOf(ticket);
+  const next = nextBusinessOpening(now, hours);
+  if (!next) return { gate: { gate: 'after_hours_outreach', decision: 'allow', reason: `inside business hours (${hours.timezone})` } };
+
+  const window = `${hours.start}-${hours.end} ${hours.timezone}`;
+  if (policies.after_hours_mode === 'deny') {
+    return { gate: { gate: 'after_hours_outreach', decision: 'deny', reason: `outside business hours ${window}` } };
+  }
+  return {
+    gate: { gate: 'after_hours_outreach', decision: 'defer', reason: `outside business hours ${window}; deferred to ${next.toISOString()}` },
+    not_before: next.toISOString()
+  };
+}
+
+// --- PUBLIC -------------------------------------------------------------------
+export function evaluatePolicies(ticket: DeptTicket, now = new Date()): PolicyVerdict {
+  const policies = policiesOf(ticket);
+  const outreachActions = Array.isArray(policies.outreach_actions) ? policies.outreach_actions : DEFAULT_OUTREACH_ACTIONS;
+  const outreach = outreachActions.includes(`${ticket.dept}.${ticket.action}`);
+  const level = String(ticket.context?.constraints?.sensitivity || 'NONE').toUpperCase();
+
+  const sens = sensitivityGate(ticket, level, outreach);
+  const hours = afterHoursGate(sens.ticket, outreach, now);
+  const gates = [sens.gate, hours.gate];
+
+  const decision: PolicyDecision =
+    gates.some(g => g.decision === 'deny') ? 'deny'
+    : gates.some(g => g.decision === 'defer') ? 'defer'
+    : 'allow';
+
+  return { decision, gates, ticket: sens.ticket, ...(decision === 'defer' ? { not_before: hours.not_before } : {}) };
+}
@@ -0,0 +1,400 @@
+import { addDays, parseTerms, type PricedLine, type Totals } from './billing.js';
+import { normalizeCompany } from './leads.js';
+import { readJson, tenantFile, updateJson } from './store.js';
+
+/**
+ * Vendor registry, quote scoring, purchase orders and contract renewals.
+ *
+ * Vendors go through an intake questionnaire; answers drive a risk level and
+ * the lifecycle  onboarding (required answers missing) → review (high risk)
+ * → approved | rejected. Only approved vendors get purchase orders.
+ *
+ * Tenant settings (context.capabilities.procurement):
+ *  - questionnaire         [{ id, question, type: 'text'|'boolean'|'select', options?, required?, risk_if?: { value, level, reason } }]
+ *  - criteria              { price: 0.5, lead_time: 0.2, terms: 0.15, risk: 0.15 }   default compare_quotes weights
+ *  - renewal_window_days   60   how early renew_contract starts flagging
+ *
+ * Everything is kept in the tenant store under procurement/.
+ */
+
+export type Question = {
+  id: string;
+  question: string;
+  type: 'text' | 'boolean' | 'select';
+  options?: string[];
+  required?: boolean;
+  /** Answering `value` raises the vendor's risk to `level`. */
+  risk_if?: { value: unknown; level: RiskLevel; reason: string };
+};
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+export type VendorStatus = 'onboarding' | 'review' | 'approved' | 'rejected';
+
+export type Vendor = {
+  id: string;
+  name: string;
+  key: string;
+  status: VendorStatus;
+  contact_email?: string;
+  contact_phone?: string;
+  category?: string;
+  website?: string;
+  answers: Record<string, unknown>;
+  missing: string[];
+  risk: RiskLevel;
+  risk_reasons: string[];
+  decision?: { at: string; by: string; status: 'approved' | 'rejected'; note?: string };
+  created_at: string;
+  updated_at: string;
+};
+
+export type Criterion = 'price' | 'lead_time' | 'terms' | 'risk';
+export const CRITERIA: Criterion[] = ['price', 'lead_time', 'terms', 'risk'];
+
+export type QuoteInput = {
+  vendor: string;
+  amount: number;
+  currency?: string;
+  lead_time_days?: number;
+  payment_terms?: string;
+  reference?: string;
+  notes?: string;
+};
+
+export type RankedQuote = QuoteInput & {
+  quote_id: string;
+  vendor_id?: string;
+  vendor_status?: VendorStatus | 'unregistered';
+  scores: Record<Criterion, number>;
+  total: number;
+  rank: number;
+  eligible: boolean;
+  rationale: string;
+};
+
+export type Comparison = {
+  id: string;
+  created_at: string;
+  subject?: string;
+  currency: string;
+  weights: Record<Criterion, number>;
+  ranking: RankedQuote[];
+  recommended_quote_id?: string;
+  recommendation: string;
+  awarded?: { quote_id: string; po_number: string };
+};
+
+export type PurchaseOrder = {
+  id: string;
+  number: string;
+  vendor_id: string;
+  vendor: string;
+  status: 'issued';
+  issue_date: string;
+  delivery_date?: string;
+  terms: string;
+  lines: PricedLine[];
+  totals: Totals;
+  quote_id?: string;
+  comparison_id?: string;
+  notes?: string;
+  created_at: string;
+};
+
+export type VendorContract = {
+  id: string;
+  vendor_id: string;
+  vendor: string;
+  renewal_date: string;
+  amount?: number;
+  currency?: string;
+  auto_renew: boolean;
+  notice_days: number;
+  term_months: number;
+  status: 'active' | 'ended';
+  renewals: Array<{ at: string; from: string; to: string; amount?: number }>;
+  created_at: string;
+  updated_at: string;
+};
+
+export type RenewalFlag = {
+  contract_id: string;
+  vendor: string;
+  renewal_date: string;
+  days_left: number;
+  notice_by: string;
+  level: 'overdue' | 'notice_due' | 'upcoming';
+  message: string;
+};
+
+const DEFAULT_QUESTIONNAIRE: Question[] = [
+  { id: 'legal_name', question: 'Registered legal name', type: 'text', required: true },
+  { id: 'tax_id', question: 'Tax / VAT ID', type: 'text', required: true },
+  { id: 'country', question: 'Country of incorporation', type: 'text', required: true },
+  {
+    id: 'sanctions_screened', question: 'Screened against sanctions lists?', type: 'boolean', required: true,
+    risk_if: { value: false, level: 'high', reason: 'not screened against sanctions lists' }
+  },
+  {
+    id: 'handles_personal_data', question: 'Will the vendor process our personal data?', type: 'boolean', required: true,
+    risk_if: { value: true, level: 'medium', reason: 'processes personal data (DPA needed)' }
+  },
+  {
+    id: 'security_certification', question: 'Security certification', type: 'select', options: ['none', 'soc2', 'iso27001'], required: true,
+    risk_if: { value: 'none', level: 'medium', reason: 'no security certification' }
+  },
+  {
+    id: 'insurance', question: 'Carries liability insurance?', type: 'boolean',
+    risk_if: { value: false, level: 'medium', reason: 'no liability insurance' }
+  }
+];
+
+const DEFAULT_WEIGHTS: Record<Criterion, number> = { price: 0.5, lead_time: 0.2, terms: 0.15, risk: 0.15 };
+
+/** Risk criterion score by vendor standing; unknown vendors sit below onboarding ones. */
+const RISK_SCORE: Record<string, number> = { 'approved:low': 100, 'approved:medium': 75, 'approved:high': 50, onboarding: 40, review: 20, unregistered: 30, rejected: 0 };
+
+const RISK_ORDER: RiskLevel[] = ['low', 'medium', 'high'];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+function procurementOf(capabilities: Record<string, unknown> = {}) {
+  return ((capabilities as any)?.procurement || {}) as Record<string, any>;
+}
+
+const file = (tenant_id: string, name: string) => tenantFile(tenant_id, `procurement/${name}.json`);
+
+// --- VENDORS ------------------------------------------------------------------
+export function questionnaireFor(capabilities?: Record<string, unknown>): Question[] {
+  const own = procurementOf(capabilities).questionnaire;
+  return Array.isArray(own) && own.length ? own.filter((q: any) => q && typeof q.id === 'string') : DEFAULT_QUESTIONNAIRE;
+}
+
+/** Missing required answers, risk level and lifecycle status for a set of answers. */
+export function assessVendor(questions: Question[], answers: Record<string, unknown>) {
+  const missing = questions.filter(q => q.required && (answers[q.id] === undefined || answers[q.id] === '')).map(q => q.id);
+  const hits = questions.filter(q => q.risk_if && answers[q.id] !== undefined && answers[q.id] === q.risk_if.value).map(q => q.risk_if!);
+  if (answers.handles_personal_data === true && answers.security_certification === 'none') {
+    hits.push({ value: true, level: 'high', reason: 'processes personal data without a security certification' });
+  }
+  const risk = hits.reduce<RiskLevel>((r, h) => (RISK_ORDER.indexOf(h.level) > RISK_ORDER.indexOf(r) ? h.level : r), 'low');
+  const status: VendorStatus = missing.length ? 'onboarding' : risk === 'high' ? 'review' : 'approved';
+  return { missing, risk, risk_reasons: hits.map(h => h.reason), status };
+}
+
+/** Answers that fit their question: booleans from yes/no, select values from options. */
+export function coerceAnswers(questions: Question[], answers: Record<string, unknown>) {
+  const out: Record<string, unknown> = {};
+  const invalid: string[] = [];
+  for (const q of questions) {
+    const v = answers[q.id];
+    if (v === undefined || v === null || v === '') continue;
+    if (q.type === 'boolean') {
+      const b = typeof v === 'boolean' ? v : /^(yes|y|true)$/i.test(String(v)) ? true : /^(no|n|false)$/i.test(String(v)) ? false : undefined;
+      if (b === undefined) invalid.push(`${q.id}: expected yes/no`);
+      else out[q.id] = b;
+    } else if (q.type === 'select') {
+      const s = String(v).toLowerCase();
+      if (q.options && !q.options.includes(s)) invalid.push(`${q.id}: expected one of ${q.options.join(', ')}`);
+      else out[q.id] = s;
+    } else {
+      out[q.id] = String(v).trim();
+    }
+  }
+  return { answers: out, invalid };
+}
+
+export async function listVendors(tenant_id: string) {
+  return Object.values(await readJson<Record<string, Vendor>>(file(tenant_id, 'vendors'), {}))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** By id, else by normalized company name ("Acme, Inc." = "ACME"). */
+export async function findVendor(tenant_id: string, ref: string) {
+  const key = vendorKey(ref);
+  return (await listVendors(tenant_id)).find(v => v.id === ref || v.key === key);
+}
+
+export async function saveVendor(tenant_id: string, v: Vendor) {
+  await updateJson<Record<string, Vendor>>(file(tenant_id, 'vendors'), {}, book => ({ ...book, [v.id]: v }));
+  return v;
+}
+
+export function vendorKey(name: string) {
+  return normalizeCompany(name);
+}
+
+// --- QUOTE SCORING ------------------------------------------------------------
+/** Weights from the request, else tenant defaults, else 50/20/15/15; normalized to sum 1. */
+export function weightsFor(capabilities: Record<string, unknown> | undefined, requested?: Record<string, unknown>) {
+  const base = { ...DEFAULT_WEIGHTS, ...(procurementOf(capabilities).criteria || {}) };
+  const raw = requested && Object.keys(requested).length
+    ? Object.fromEntries(CRITERIA.map(c => [c, Number(requested[c] ?? 0)]))
+    : base;
+  const w = (c: Criterion) => Math.max(0, Number(raw[c]) || 0);
+  const sum = CRITERIA.reduce((s, c) => s + w(c), 0);
+  return Object.fromEntries(CRITERIA.map(c => [c, sum ? Math.round((w(c) / sum) * 1000) / 1000 : 0.25])) as Record<Criterion, number>;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+function ordinal(n: number) {
+  return `${n}${n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th'}`;
+}
+
+/**
+ * Score each quote 0–100 per criterion and rank by weighted total:
+ *  - price       cheapest / this price
+ *  - lead_time   fastest / this lead time (quotes without one score 50)
+ *  - terms       this NET days / longest NET days (unrecognized terms score 50)
+ *  - risk        vendor standing in the registry (RISK_SCORE)
+ * Ties go to the cheaper quote; rejected vendors are never recommended.
+ */
+export function scoreQuotes(
+  quotes: Array<QuoteInput & { quote_id: string }>,
+  vendors: Array<Vendor | undefined>,
+  weights: Record<Criterion, number>
+): RankedQuote[] {
+  const minPrice = Math.min(...quotes.map(q => q.amount));
+  const leads = quotes.map(q => q.lead_time_days).filter((d): d is number => typeof d === 'number');
+  const minLead = leads.length ? Math.min(...leads) : 0;
+  const nets = quotes.map(q => parseTerms(q.payment_terms));
+  const maxNet = Math.max(0, ...nets.filter(t => t.recognized).map(t => t.net_days));
+
+  const scored = quotes.map((q, n) => {
+    const v = vendors[n];
+    const standing = !v ? 'unregistered' : v.status === 'approved' ? `approved:${v.risk}` : v.status;
+    const scores: Record<Criterion, number> = {
+      price: q.amount > 0 ? round1((minPrice / q.amount) * 100) : 100,
+      lead_time: typeof q.lead_time_days !== 'number' ? 50 : q.lead_time_days <= 0 ? 100 : round1((Math.max(minLead, 0.5) / q.lead_time_days) * 100),
+      terms: !nets[n].recognized ? 50 : maxNet ? round1((nets[n].net_days / maxNet) * 100) : 100,
+      risk: RISK_SCORE[standing] ?? 30
+    };
+    return {
+      ...q,
+      ...(v ? { vendor_id: v.id } : {}),
+      vendor_status: v ? v.status : 'unregistered' as const,
+      scores,
+      total: round1(CRITERIA.reduce((s, c) => s + weights[c] * scores[c], 0)),
+      rank: 0,
+      eligible: v?.status !== 'rejected',
+      rationale: ''
+    };
+  });
+
+  scored.sort((a, b) => Number(b.eligible) - Number(a.eligible) || b.total - a.total || a.amount - b.amount);
+  scored.forEach((q, n) => {
+    q.rank = n + 1;
+    q.rationale = rationaleFor(q, scored, weights);
+  });
+  return scored;
+}
+
+function rationaleFor(q: RankedQuote, all: RankedQuote[], weights: Record<Criterion, number>) {
+  const facts = [
+    `${q.currency || ''} ${q.amount}`.trim() + (q.scores.price === 100 ? ' (lowest price)' : ` (${round1((q.amount / Math.min(...all.map(x => x.amount)) - 1) * 100)}% above lowest)`),
+    typeof q.lead_time_days === 'number' ? `${q.lead_time_days}-day lead time` : 'no lead time given',
+    q.payment_terms ? `terms ${q.payment_terms}` : 'no payment terms given',
+    q.vendor_status === 'unregistered' ? 'vendor not in registry'
+      : q.vendor_status === 'approved' ? 'approved vendor'
+      : `vendor ${q.vendor_status}`
+  ];
+  const other = q.rank === 1 ? all[1] : all[0];
+  const vs = other
+    ? CRITERIA.filter(c => weights[c] > 0)
+      .map(c => ({ c, d: q.scores[c] - other.scores[c] }))
+      .filter(x => Math.abs(x.d) >= 1)
+    : [];
+  const wins = vs.filter(x => x.d > 0).map(x => x.c.replace('_', ' '));
+  const loses = vs.filter(x => x.d < 0).map(x => x.c.replace('_', ' '));
+  const against = other && (wins.length || loses.length)
+    ? `; vs ${other.vendor}: ` + [wins.length ? `better on ${wins.join(', ')}` : '', loses.length ? `worse on ${loses.join(', ')}` : ''].filter(Boolean).join(', ')
+    : '';
+  return `${q.vendor} ranks ${ordinal(q.rank)} with ${q.total}/100: ${facts.join(', ')}${against}` + (q.eligible ? '' : ' (rejected vendor, not eligible)');
+}
+
+export async function saveComparison(tenant_id: string, c: Comparison) {
+  await updateJson<Record<string, Comparison>>(file(tenant_id, 'comparisons'), {}, book => ({ ...book, [c.id]: c }));
+  return c;
+}
+
+export async function getComparison(tenant_id: string, id: string) {
+  return (await readJson<Record<string, Comparison>>(file(tenant_id, 'comparisons'), {}))[id];
+}
+
+/** A scored quote by its id, with the comparison it belongs to. */
+export async function findQuote(tenant_id: string, quote_id: string) {
+  const book = await readJson<Record<string, Comparison>>(file(tenant_id, 'comparisons'), {});
+  for (const c of Object.values(book)) {
+    const quote = c.ranking.find(q => q.quote_id === quote_id);
+    if (quote) return { comparison: c, quote };
+  }
+  return undefined;
+}
+
+// --- PURCHASE ORDERS ----------------------------------------------------------
+export async function savePurchaseOrder(tenant_id: string, po: PurchaseOrder) {
+  await updateJson<Record<string, PurchaseOrder>>(file(tenant_id, 'purchase_orders'), {}, book => ({ ...book, [po.id]: po }));
+  return po;
+}
+
+export async function listPurchaseOrders(tenant_id: string) {
+  return Object.values(await readJson<Record<string, PurchaseOrder>>(file(tenant_id, 'purchase_orders'), {}));
+}
+
+// --- CONTRACTS & RENEWALS -----------------------------------------------------
+export function renewalWindow(capabilities?: Record<string, unknown>) {
+  const d = Number(procurementOf(capabilities).renewal_window_days);
+  return d > 0 ? d : 60;
+}
+
+export async function listContracts(tenant_id: string) {
+  return Object.values(await readJson<Record<string, VendorContract>>(file(tenant_id, 'contracts'), {}))
+    .sort((a, b) => a.renewal_date.localeCompare(b.renewal_date));
+}
+
+export async function saveContract(tenant_id: string, c: VendorContract) {
+  await updateJson<Record<string, VendorContract>>(file(tenant_id, 'contracts'), {}, book => ({ ...book, [c.id]: c }));
+  return c;
+}
+
+/** Renewal date pushed out by the contract term. */
+export function nextRenewalDate(c: VendorContract) {
+  const [y, m, d] = c.renewal_date.split('-').map(Number);
+  const next = new Date(Date.UTC(y, m - 1 + c.term_months, 1));
+  const last = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(d, last));
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * Active contracts that need attention by `today` (YYYY-MM-DD):
+ *  - overdue      renewal date passed without a renewal
+ *  - notice_due   the cancellation notice deadline is within the window (or passed) on an auto-renewing contract
+ *  - upcoming     renewal date within `within_days`
+ */
+export function renewalFlags(contracts: VendorContract[], today: string, within_days: number): RenewalFlag[] {
+  const days = (a: string, b: string) => Math.round((Date.parse(b) - Date.parse(a)) / DAY);
+  const flags: RenewalFlag[] = [];
+  for (const c of contracts) {
+    if (c.status !== 'active') continue;
+    const days_left = days(today, c.renewal_date);
+    const notice_by = addDays(c.renewal_date, -c.notice_days);
+    const to_notice = days(today, notice_by);
+    const base = { contract_id: c.id, vendor: c.vendor, renewal_date: c.renewal_date, days_left, notice_by };
+    if (days_left < 0) {
+      flags.push({ ...base, level: 'overdue', message: `${c.vendor} contract renewal date ${c.renewal_date} passed ${-days_left} day(s) ago` });
+    } else if (c.auto_renew && to_notice <= within_days) {
+      flags.push({
+        ...base,
+        level: 'notice_due',
+        message: to_notice >= 0
+          ? `${c.vendor} renews automatically on ${c.renewal_date}; cancel by ${notice_by} (${to_notice} day(s) left)`
+          : `${c.vendor} renews automatically on ${c.renewal_date}; the notice deadline ${notice_by} has passed`
+      });
+    } else if (days_left <= within_days) {
+      flags.push({ ...base, level: 'upcoming', message: `${c.vendor} contract is up for renewal on ${c.renewal_date} (${days_left} day(s) left)` });
+    }
+  }
+  return flags.sort((a, b) => a.days_left - b.days_left);
+}
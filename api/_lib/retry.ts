@@ -0,0 +1,111 @@
+/**
+ * SLA timeouts and retries for department handlers.
+ *
+ * A ticket gets `sla_sec` seconds in total. Each attempt runs against what is
+ * left of that budget; transient failures are retried up to `retries` times
+ * with exponential backoff and full jitter, as long as budget remains.
+ *
+ * JS cannot cancel a running promise, so a timed-out attempt is abandoned, not
+ * stopped, and may still finish its write; a dropped connection or a 504 leaves
+ * the same doubt. Such failures (mayHaveLanded) are only retried with
+ * `retryTimeouts`, which callers set for read-only actions. Other transient
+ * failures (refused, 429, 503, ...) happened before anything was written.
+ *
+ * Env:
+ * - RETRY_BASE_MS   first backoff ceiling (default 500; doubles per attempt)
+ * - RETRY_MAX_MS    backoff cap (default 8000)
+ */
+
+export type AttemptInfo = {
+  attempt: number;
+  started_at: string;
+  duration_ms: number;
+  outcome: 'ok' | 'error' | 'timeout';
+  error?: string;
+  transient?: boolean;
+  backoff_ms?: number;
+};
+
+/** Throw from an adapter to mark a failure worth retrying. */
+export class TransientError extends Error {
+  transient = true as const;
+}
+
+export class SlaTimeoutError extends TransientError {
+  constructor(public ms: number) {
+    super(`attempt timed out after ${ms}ms (sla budget)`);
+  }
+}
+
+const TRANSIENT_CODES = new Set(['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE', 'UND_ERR_SOCKET', 'UND_ERR_CONNECT_TIMEOUT']);
+
+const AMBIGUOUS_CODES = new Set(['ETIMEDOUT', 'ECONNRESET', 'EPIPE', 'UND_ERR_SOCKET']);
+
+/** The failed attempt may have done its work anyway: it timed out or lost the connection mid-request. */
+export function mayHaveLanded(e: any) {
+  if (e instanceof SlaTimeoutError) return true;
+  if (AMBIGUOUS_CODES.has(e?.code) || AMBIGUOUS_CODES.has(e?.cause?.code)) return true;
+  return Number(e?.status ?? e?.statusCode) === 504;
+}
+
+export function isTransient(e: any) {
+  if (!e) return false;
+  if (e.transient === true) return true;
+  if (TRANSIENT_CODES.has(e.code) || TRANSIENT_CODES.has(e.cause?.code)) return true;
+  const status = Number(e.status ?? e.statusCode);
+  if (status === 429 || (status >= 500 && status < 600)) return true;
+  return e instanceof TypeError && /fetch failed/i.test(e.message);
+}
+
+function envMs(name: string, fallback: number) {
+  const v = Number(process.env[name]);
+  return Number.isFinite(v) && v >= 0 ? v : fallback;
+}
+
+/** Full-jitter exponential backoff for retry `n` (1-based). */
+export function backoffMs(n: number) {
+  const ceiling = Math.min(envMs('RETRY_MAX_MS', 8000), envMs('RETRY_BASE_MS', 500) * 2 ** (n - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+function withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => { timer = setTimeout(() => reject(new SlaTimeoutError(ms)), ms); });
+  return Promise.race([p, timeout]).finally(() => clearTimeout(timer));
+}
+
+export type RetryOutcome<T> =
+  | { ok: true; value: T; attempts: AttemptInfo[] }
+  | { ok: false; error: any; attempts: AttemptInfo[] };
+
+export async function runWithRetries<T>(
+  fn: () => Promise<T>,
+  opts: { sla_sec?: number; retries?: number; retryTimeouts?: boolean }
+): Promise<RetryOutcome<T>> {
+  const budgetMs = Math.max(1, Number(opts.sla_sec) || 120) * 1000;
+  const maxRetries = Math.max(0, Math.floor(Number(opts.retries) || 0));
+  const deadline = Date.now() + budgetMs;
+  const attempts: AttemptInfo[] = [];
+
+  for (let n = 0; ; n++) {
+    const started = Date.now();
+    const info: AttemptInfo = { attempt: n + 1, started_at: new Date(started).toISOString(), duration_ms: 0, outcome: 'ok' };
+    attempts.push(info);
+    try {
+      const value = await withTimeout(Promise.resolve().then(fn), Math.max(1, deadline - started));
+      info.duration_ms = Date.now() - started;
+      return { ok: true, value, attempts };
+    } catch (e: any) {
+      info.duration_ms = Date.now() - started;
+      info.outcome = e instanceof SlaTimeoutError ? 'timeout' : 'error';
+      info.error = e?.message || String(e);
+      info.transient = isTransient(e);
+
+      const retryable = info.transient && (!!opts.retryTimeouts || !mayHaveLanded(e));
+      const wait = n < maxRetries && retryable ? backoffMs(n + 1) : -1;
+      if (wait < 0 || Date.now() + wait >= deadline) return { ok: false, error: e, attempts };
+      info.backoff_ms = wait;
+      await new Promise(r => setTimeout(r, wait));
+    }
+  }
+}
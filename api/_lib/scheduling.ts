@@ -0,0 +1,181 @@
+import type { CalendarEvent } from './adapters/types.js';
+import { toMinutes, zonedParts, zonedToUtc, type BusinessHours } from './time.js';
+
+/**
+ * Free-slot search and RFC 5545 invites for OPS scheduling.
+ *
+ * Tenant settings (context.capabilities):
+ *  - business_hours  { timezone, days, start, end }   working hours slots must fit in
+ *  - scheduling      { buffer_min, step_min, organizer: { name, email } }
+ *
+ * An event blocks a slot when it is confirmed and either sits on the same
+ * calendar or shares an attendee email. Buffers keep `buffer_min` free on
+ * both sides of every meeting.
+ */
+
+export type Attendee = { name?: string; email?: string };
+
+export type Slot = { start: string; end: string };
+
+export type SlotQuery = {
+  from: Date;
+  length_min: number;
+  hours: BusinessHours;
+  buffer_min?: number;
+  step_min?: number;
+  within_days?: number;
+  limit?: number;
+};
+
+export type SchedulingSettings = { buffer_min: number; step_min: number; organizer?: Attendee };
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+export function schedulingSettings(capabilities: Record<string, unknown> = {}): SchedulingSettings {
+  const s = (capabilities as any)?.scheduling || {};
+  const organizer = s.organizer && typeof s.organizer === 'object' ? s.organizer as Attendee : undefined;
+  return {
+    buffer_min: Number.isFinite(Number(s.buffer_min)) ? Math.max(0, Number(s.buffer_min)) : 0,
+    step_min: Number(s.step_min) > 0 ? Number(s.step_min) : 15,
+    ...(organizer ? { organizer } : {})
+  };
+}
+
+// --- BUSY / FREE ----------------------------------------------------------------
+/** Events that compete with a meeting on `calendar` with these attendees. */
+export function blockingEvents(events: CalendarEvent[], calendar: string, attendees: Attendee[], ignoreUid?: string) {
+  const emails = new Set(attendees.map(a => a.email?.toLowerCase()).filter(Boolean));
+  return events.filter(e =>
+    e.status === 'confirmed'
+    && e.uid !== ignoreUid
+    && (e.calendar === calendar || e.attendees.some(a => a.email && emails.has(a.email.toLowerCase())))
+  );
+}
+
+/** Events overlapping [start, end) once both sides are padded by the buffer. */
+export function conflictsWith(busy: CalendarEvent[], start: Date, end: Date, buffer_min = 0) {
+  const from = start.getTime() - buffer_min * MINUTE;
+  const to = end.getTime() + buffer_min * MINUTE;
+  return busy.filter(e => Date.parse(e.start) < to && Date.parse(e.end) > from);
+}
+
+/** Working-hours window of the local day containing `at`, or null on a day off. */
+function workingWindow(at: Date, hours: BusinessHours) {
+  const p = zonedParts(at, hours.timezone);
+  if (!hours.days.includes(p.weekday)) return null;
+  const [open, close] = [toMinutes(hours.start), toMinutes(hours.end)];
+  return {
+    open: zonedToUtc(p.year, p.month, p.day, Math.floor(open / 60), open % 60, hours.timezone),
+    close: zonedToUtc(p.year, p.month, p.day, Math.floor(close / 60), close % 60, hours.timezone)
+  };
+}
+
+export function withinWorkingHours(start: Date, end: Date, hours: BusinessHours) {
+  const w = workingWindow(start, hours);
+  return !!w && start >= w.open && end <= w.close;
+}
+
+/** First free slots at or after `q.from`, on the step grid, inside working hours. */
+export function findSlots(busy: CalendarEvent[], q: SlotQuery): Slot[] {
+  const step = (q.step_min || 15) * MINUTE;
+  const length = q.length_min * MINUTE;
+  const limit = q.limit ?? 3;
+  const horizon = q.from.getTime() + (q.within_days ?? 14) * DAY;
+  const out: Slot[] = [];
+
+  // walk local days via noon so DST shifts never skip or repeat a date
+  const p = zonedParts(q.from, q.hours.timezone);
+  let noon = zonedToUtc(p.year, p.month, p.day, 12, 0, q.hours.timezone);
+
+  while (out.length < limit && noon.getTime() - DAY / 2 < horizon) {
+    const w = workingWindow(noon, q.hours);
+    if (w) {
+      const first = Math.max(w.open.getTime(), q.from.getTime());
+      // grid anchored on the opening time: 09:00, 09:15, ...
+      let t = w.open.getTime() + Math.ceil((first - w.open.getTime()) / step) * step;
+      for (; t + length <= w.close.getTime() && t < horizon && out.length < limit; t += step) {
+        const start = new Date(t);
+        const end = new Date(t + length);
+        if (!conflictsWith(busy, start, end, q.buffer_min).length) out.push({ start: start.toISOString(), end: end.toISOString() });
+      }
+    }
+    const n = zonedParts(new Date(noon.getTime() + DAY), q.hours.timezone);
+    noon = zonedToUtc(n.year, n.month, n.day, 12, 0, q.hours.timezone);
+  }
+  return out;
+}
+
+/** 'YYYY-MM-DD HH:MM' in the given zone, for summaries. */
+export function localLabel(iso: string, timeZone: string) {
+  const p = zonedParts(new Date(iso), timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${p.year}-${pad(p.month)}-${pad(p.day)} ${pad(p.hour)}:${pad(p.minute)}`;
+}
+
+// --- ICS (RFC 5545) ---------------------------------------------------------------
+function icsText(v: string) {
+  return v.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+function icsParam(v: string) {
+  return `"${v.replace(/["\r\n]/g, '')}"`;
+}
+
+function icsStamp(iso: string) {
+  return new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/** Fold content lines at 75 octets (continuation lines start with a space). */
+function fold(line: string) {
+  const bytes = Buffer.from(line, 'utf8');
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let cur = '';
+  let size = 0;
+  for (const ch of line) {
+    const n = Buffer.byteLength(ch, 'utf8');
+    if (size + n > (parts.length ? 74 : 75)) { parts.push(cur); cur = ''; size = 0; }
+    cur += ch;
+    size += n;
+  }
+  parts.push(cur);
+  return parts.join('\r\n ');
+}
+
+function person(prop: 'ORGANIZER' | 'ATTENDEE', a: Attendee, extra = '') {
+  const cn = a.name ? `;CN=${icsParam(a.name)}` : '';
+  return `${prop}${cn}${extra}:mailto:${a.email}`;
+}
+
+/**
+ * Single-event VCALENDAR. METHOD:REQUEST for new/updated events, METHOD:CANCEL
+ * once cancelled; UID and SEQUENCE come from the stored event so clients
+ * update the invite they already have.
+ */
+export function toIcs(ev: CalendarEvent, opts: { organizer?: Attendee; prodId?: string } = {}) {
+  const cancelled = ev.status === 'cancelled';
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${opts.prodId || '-//agentkit//ops scheduling//EN'}`,
+    'CALSCALE:GREGORIAN',
+    `METHOD:${cancelled ? 'CANCEL' : 'REQUEST'}`,
+    'BEGIN:VEVENT',
+    `UID:${ev.uid}`,
+    `SEQUENCE:${ev.sequence}`,
+    `DTSTAMP:${icsStamp(ev.updated_at || new Date().toISOString())}`,
+    `DTSTART:${icsStamp(ev.start)}`,
+    `DTEND:${icsStamp(ev.end)}`,
+    `SUMMARY:${icsText(ev.title)}`,
+    ...(typeof ev.location === 'string' && ev.location ? [`LOCATION:${icsText(ev.location)}`] : []),
+    ...(typeof ev.description === 'string' && ev.description ? [`DESCRIPTION:${icsText(ev.description)}`] : []),
+    ...(opts.organizer?.email ? [person('ORGANIZER', opts.organizer)] : []),
+    ...ev.attendees.filter(a => a.email).map(a => person('ATTENDEE', a, ';ROLE=REQ-PARTICIPANT;PARTSTAT=NEEDS-ACTION;RSVP=TRUE')),
+    `STATUS:${cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    'TRANSP:OPAQUE',
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ];
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
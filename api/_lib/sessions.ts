@@ -0,0 +1,275 @@
+import { schemaFor, type Dept } from './catalog.js';
+import type { DeptResult } from './departments.js';
+import type { Entities, EntityName } from './slots.js';
+import { newId, readJson, removeFile, safeSegment, updateJson } from './store.js';
+
+/**
+ * Conversation memory keyed by session_id: the message history, what each
+ * turn's tickets did, and the records they created, so a follow-up like
+ * "make that meeting 45 minutes instead" has something to refer to.
+ *
+ * Env:
+ * - AGENT_MEMORY_TOKENS      history budget in approximate tokens (default 4000)
+ * - AGENT_SESSION_TTL_HOURS  idle sessions start over after this (default 24)
+ *
+ * Over budget, the oldest whole turns (so tool results stay next to the call
+ * that produced them) are dropped from the history and kept as one summary
+ * line each. Created records and contact entities are not budgeted: they are
+ * small and are what references resolve against.
+ */
+
+// --- TYPES --------------------------------------------------------------------
+/** Chat message as sent to the model (OpenAI shape; local turns only use user/assistant). */
+export type MemoryMessage = {
+  role: 'user' | 'assistant' | 'tool';
+  content: string | null;
+  name?: string;
+  tool_call_id?: string;
+  tool_calls?: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>;
+};
+
+export type MemoryTurn = {
+  n: number;
+  at: string;
+  utterance: string;
+  reply: string;
+  messages: MemoryMessage[];
+  results: Array<{ dept: Dept; action: string; status: DeptResult['status']; summary: string }>;
+};
+
+export type RefKind = 'meeting' | 'lead' | 'opportunity' | 'quote' | 'invoice' | 'case' | 'purchase_order' | 'vendor' | 'contract';
+
+/** A record created (or last touched) in this session. */
+export type SessionRef = {
+  kind: RefKind;
+  dept: Dept;
+  action: string;
+  turn: number;
+  at: string;
+  label: string;
+  /** Identifiers by input-field name (event_uid, quote_number, case_id, ...). */
+  ids: Record<string, string>;
+  /** A few descriptive fields (start, status, total, ...). */
+  data: Record<string, unknown>;
+};
+
+export type Session = {
+  id: string;
+  tenant_id?: string;
+  created_at: string;
+  updated_at: string;
+  turn: number;
+  /** One line per turn that no longer fits the history budget. */
+  summary: string[];
+  turns: MemoryTurn[];
+  refs: SessionRef[];
+  /** Who the conversation is about, carried into later turns. */
+  entities: Entities;
+};
+
+const MEMORY_TOKENS = Number(process.env.AGENT_MEMORY_TOKENS || 4000);
+const TTL_MS = Number(process.env.AGENT_SESSION_TTL_HOURS || 24) * 3_600_000;
+const MAX_SUMMARY_LINES = 20;
+const MAX_REFS = 30;
+const TOOL_RESULT_CHARS = 1500;
+
+/** Entities that still mean the same thing a few turns later (dates and amounts do not). */
+const CARRIED: EntityName[] = ['person_name', 'email', 'phone', 'organization', 'vendor', 'currency'];
+
+/** Output id field → record kind, in priority order (an opportunity output also names its lead). */
+const ID_KINDS: Array<[string, RefKind]> = [
+  ['event_uid', 'meeting'],
+  ['opportunity_id', 'opportunity'],
+  ['lead_id', 'lead'],
+  ['invoice_number', 'invoice'],
+  ['quote_number', 'quote'],
+  ['case_id', 'case'],
+  ['po_number', 'purchase_order'],
+  ['contract_id', 'contract'],
+  ['vendor_id', 'vendor']
+];
+
+const DATA_FIELDS = ['start', 'end', 'local_start', 'status', 'stage', 'total', 'currency', 'priority', 'renewal_date'];
+
+const file = (id: string) => `sessions/${safeSegment(id)}.json`;
+const clip = (s: string, n: number) => (s.length > n ? s.slice(0, n - 1) + '…' : s);
+const tokens = (v: unknown) => Math.ceil(JSON.stringify(v).length / 4);
+
+// --- STORE --------------------------------------------------------------------
+export function newSessionId() {
+  return newId('sess');
+}
+
+function fresh(id: string, now = new Date()): Session {
+  const at = now.toISOString();
+  return { id, created_at: at, updated_at: at, turn: 0, summary: [], turns: [], refs: [], entities: {} };
+}
+
+/** The session, or a new empty one when it does not exist or has been idle past the TTL. */
+export async function loadSession(id: string, now = new Date()): Promise<Session> {
+  const s = await readJson<Session | null>(file(id), null);
+  if (!s || now.getTime() - Date.parse(s.updated_at) > TTL_MS) return fresh(id, now);
+  return s;
+}
+
+export async function getSession(id: string): Promise<Session | null> {
+  return readJson<Session | null>(file(id), null);
+}
+
+export async function forgetSession(id: string) {
+  return removeFile(file(id));
+}
+
+export type TurnRecord = {
+  tenant_id: string;
+  utterance: string;
+  reply: string;
+  messages: MemoryMessage[];
+  results: DeptResult[];
+  entities: Entities;
+};
+
+/** Append a finished turn: history, refs for what it created, carried entities; then fit the budget. */
+export async function recordTurn(id: string, rec: TurnRecord, now = new Date()): Promise<Session> {
+  return updateJson<Session | null>(file(id), null, cur => {
+    const s = cur && now.getTime() - Date.parse(cur.updated_at) <= TTL_MS ? cur : fresh(id, now);
+    const n = s.turn + 1;
+    const at = now.toISOString();
+    s.turn = n;
+    s.updated_at = at;
+    s.tenant_id = rec.tenant_id;
+    s.turns.push({
+      n,
+      at,
+      utterance: rec.utterance,
+      reply: rec.reply,
+      messages: rec.messages.map(m => (m.role === 'tool' && m.content ? { ...m, content: clip(m.content, TOOL_RESULT_CHARS) } : m)),
+      results: rec.results.map(r => ({ dept: r.dept, action: r.ticket.action, status: r.status, summary: r.summary }))
+    });
+    for (const ref of refsFrom(rec.results, n, at)) {
+      // a reschedule/update returns the same record: keep one ref, moved to the end
+      const key = Object.values(ref.ids)[0];
+      s.refs = s.refs.filter(r => !(r.kind === ref.kind && Object.values(r.ids)[0] === key));
+      s.refs.push(ref);
+    }
+    s.refs = s.refs.slice(-MAX_REFS);
+    for (const k of CARRIED) if (rec.entities[k] !== undefined) (s.entities as any)[k] = rec.entities[k];
+    return compact(s, MEMORY_TOKENS);
+  }) as Promise<Session>;
+}
+
+// --- BUDGET -------------------------------------------------------------------
+/** Drop oldest turns (keeping at least the last one) until the history fits `budget` tokens. */
+export function compact(s: Session, budget: number): Session {
+  while (s.turns.length > 1 && tokens(s.turns.map(t => t.messages)) > budget) {
+    const t = s.turns.shift()!;
+    const did = t.results.map(r => `${r.dept}.${r.action}:${r.status}`).join(', ');
+    s.summary.push(`#${t.n} user: "${clip(t.utterance, 120)}" → ${clip(t.reply, 160)}${did ? ` [${did}]` : ''}`);
+  }
+  s.summary = s.summary.slice(-MAX_SUMMARY_LINES);
+  return s;
+}
+
+// --- REFS ---------------------------------------------------------------------
+function refsFrom(results: DeptResult[], turn: number, at: string): SessionRef[] {
+  const refs: SessionRef[] = [];
+  for (const r of results) {
+    if (!r.ok || !r.output) continue;
+    const out = r.output;
+    const primary = ID_KINDS.find(([k]) => typeof out[k] === 'string');
+    if (!primary) continue;
+    const ids: Record<string, string> = {};
+    for (const [k] of [primary, ...ID_KINDS]) if (typeof out[k] === 'string') ids[k] = out[k] as string;
+    const data: Record<string, unknown> = {};
+    for (const k of DATA_FIELDS) if (out[k] !== undefined && typeof out[k] !== 'object') data[k] = out[k];
+    refs.push({ kind: primary[1], dept: r.dept, action: r.ticket.action, turn, at, label: r.summary, ids, data });
+  }
+  return refs;
+}
+
+/** How each kind is talked about. */
+const NOUNS: Record<RefKind, string> = {
+  meeting: 'meeting|call|appointment|invite|event|demo',
+  lead: 'lead|contact|prospect',
+  opportunity: 'opportunity|deal',
+  quote: 'quote|estimate|proposal',
+  invoice: 'invoice|bill',
+  case: 'case|ticket|issue',
+  purchase_order: 'po|purchase order|order',
+  contract: 'contract|renewal',
+  vendor: 'vendor|supplier'
+};
+const DETERMINER = '(?:that|this|the|same|previous|last|our|my|his|her|their)';
+
+/**
+ * The earlier record an utterance points at: "that meeting", "the same quote",
+ * or a bare "it"/"instead" for the most recent record. A new record ("a
+ * meeting", "another quote") is not a reference.
+ */
+export function resolveReference(utterance: string, s: Session, kind?: RefKind): SessionRef | undefined {
+  if (!s.refs.length) return undefined;
+  const text = utterance.toLowerCase();
+  const latest = (k?: RefKind) => [...s.refs].reverse().find(r => !k || r.kind === k);
+  const kinds = kind ? [kind] : (Object.keys(NOUNS) as RefKind[]);
+  for (const k of kinds) {
+    if (new RegExp(`\\b${DETERMINER}\\s+(?:\\w+\\s+)?(?:${NOUNS[k]})s?\\b`).test(text)) {
+      const ref = latest(k);
+      if (ref) return ref;
+    }
+  }
+  if (/\b(?:it|its|instead)\b/.test(text)) return latest(kind);
+  return undefined;
+}
+
+/** The kind of record an action works on, by the id field it takes (reschedule_meeting → meeting). */
+export function refKindFor(dept: Dept, action: string): RefKind | undefined {
+  const fields = schemaFor(dept, action)?.fields || {};
+  return ID_KINDS.find(([k]) => fields[k])?.[1];
+}
+
+/**
+ * Fill an action's inputs from a referenced record: identifiers by field name,
+ * and descriptive fields only where a required input is still empty (e.g. the
+ * current start of a meeting that is only being shortened). Returns the fields
+ * it filled.
+ */
+export function inputsFromRef(dept: Dept, action: string, ref: SessionRef, inputs: Record<string, unknown>): string[] {
+  const fields = schemaFor(dept, action)?.fields || {};
+  const filled: string[] = [];
+  for (const [k, v] of Object.entries(ref.ids)) {
+    if (fields[k] && inputs[k] === undefined) { inputs[k] = v; filled.push(k); }
+  }
+  for (const [k, v] of Object.entries(ref.data)) {
+    if (fields[k]?.required && inputs[k] === undefined) { inputs[k] = v; filled.push(k); }
+  }
+  return filled;
+}
+
+/** Plan steps that mean "change the earlier one" when they refer back to a record of this kind. */
+export const FOLLOW_UP_ACTIONS: Record<string, [RefKind, string]> = {
+  'OPS.schedule_meeting': ['meeting', 'reschedule_meeting'],
+  'CS.create_ticket': ['case', 'update_case']
+};
+
+// --- MODEL CONTEXT ------------------------------------------------------------
+/** System note with the summarized past and the records the model may refer to; undefined for a new session. */
+export function memoryNote(s: Session): string | undefined {
+  const lines: string[] = [];
+  if (s.summary.length) lines.push('Earlier in this conversation:', ...s.summary);
+  if (s.refs.length) {
+    lines.push('Records created in this session (most recent last; use these ids when the user refers back):');
+    for (const r of s.refs) {
+      const ids = Object.entries(r.ids).map(([k, v]) => `${k}=${v}`).join(' ');
+      const data = Object.entries(r.data).map(([k, v]) => `${k}=${v}`).join(' ');
+      lines.push(`- ${r.kind} ${ids}${data ? ` (${data})` : ''}: ${r.label}`);
+    }
+  }
+  const who = Object.entries(s.entities).map(([k, v]) => `${k}=${v}`).join(', ');
+  if (who) lines.push(`Known details: ${who}`);
+  return lines.length ? lines.join('\n') : undefined;
+}
+
+/** History messages for the model, oldest first. */
+export function historyMessages(s: Session): MemoryMessage[] {
+  return s.turns.flatMap(t => t.messages);
+}
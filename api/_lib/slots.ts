@@ -0,0 +1,329 @@
+import { missingFromGroups, schemaFor, type Dept } from './catalog.js';
+import { zonedParts } from './time.js';
+
+/**
+ * Entity/slot extraction for department tickets.
+ *
+ * extractEntities() pulls structured values out of free text (+ optional
+ * request context); fillInputs() maps those entities onto a catalog action's
+ * inputs (via each schema field's `slot`) and reports which required slots are
+ * still missing so the caller can ask a follow-up question instead of sending
+ * placeholders downstream.
+ */
+
+export type Entities = Partial<{
+  person_name: string;
+  email: string;
+  phone: string;
+  organization: string;
+  vendor: string;
+  url: string;
+  duration_min: number;
+  date: string;        // YYYY-MM-DD
+  time: string;        // HH:MM (24h)
+  datetime: string;    // YYYY-MM-DDTHH:MM (tenant-local, no offset)
+  amount: number;
+  currency: string;    // ISO 4217
+  payment_terms: string;
+}>;
+
+export type EntityName = keyof Entities;
+
+export type SlotFill = {
+  inputs: Record<string, unknown>;
+  filled: string[];
+  missing: string[];
+};
+
+export type Followup = {
+  ticket_id: string;
+  dept: Dept;
+  action: string;
+  missing: string[];
+  question: string;
+};
+
+// --- LEXICON ------------------------------------------------------------------
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const CURRENCY_SYMBOLS: Record<string, string> = { '$': 'USD', '€': 'EUR', '£': 'GBP', '¥': 'JPY' };
+const CURRENCY_WORDS: Record<string, string> = { dollars: 'USD', euros: 'EUR', pounds: 'GBP', yen: 'JPY' };
+const CURRENCY_CODES = ['USD', 'EUR', 'GBP', 'CAD', 'AUD', 'JPY', 'CHF', 'INR', 'MXN', 'BRL'];
+
+const NOT_A_NAME = new Set([
+  'I', 'A', 'An', 'The', 'My', 'Our', 'Their', 'This', 'That', 'Next', 'Today', 'Tomorrow', 'Tonight',
+  'CRM', 'IT', 'HR', 'PTO', 'MSA', 'NDA', 'DPA', 'PO', 'OKR', 'OKRs', 'KPI', 'SOP',
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'
+]);
+
+const ORG_SUFFIX = /\b(?:Inc|LLC|Ltd|Corp|Corporation|GmbH|Co|Company|Group|Labs|Technologies|Systems|Partners)\.?$/;
+
+// --- LOW-LEVEL EXTRACTORS -----------------------------------------------------
+/** Capitalized word run (1-4 words) right after one of the trigger words. */
+function capitalizedAfter(text: string, triggers: string[], maxWords = 3): string | undefined {
+  const re = new RegExp(`\\b(?:${triggers.join('|')})\\s+`, 'gi');
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(text)) !== null) {
+    const rest = text.slice(m.index + m[0].length);
+    const words: string[] = [];
+    for (const w of rest.split(/\s+/)) {
+      const clean = w.replace(/[),.;:!?'"’”]+$/, '');
+      if (!/^[A-Z][\w&.'’-]*$/.test(clean) || NOT_A_NAME.has(clean)) break;
+      words.push(clean);
+      if (words.length >= maxWords || clean !== w) break; // stop at punctuation
+    }
+    if (words.length) return words.join(' ');
+  }
+  return undefined;
+}
+
+function titleCase(s: string) {
+  return s.replace(/\b\w/g, c => c.toUpperCase());
+}
+
+function extractEmail(text: string) {
+  return text.match(/[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/i)?.[0].toLowerCase();
+}
+
+function extractPhone(text: string) {
+  const re = /(?:\+\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)|\d{2,4})[\s.-]?\d{3,4}[\s.-]?\d{3,4}\b/g;
+  for (const m of text.match(re) || []) {
+    const digits = m.replace(/\D/g, '');
+    if (digits.length >= 7 && digits.length <= 15) return m.trim();
+  }
+  return undefined;
+}
+
+function extractUrl(text: string) {
+  return text.match(/https?:\/\/[^\s<>")'}\]]+/i)?.[0].replace(/[),.;:'"’”]+$/g, '');
+}
+
+function extractDuration(text: string) {
+  if (/\bhalf\s+(?:an\s+)?hour\b/i.test(text)) return 30;
+  const m = text.match(/\b(\d+(?:\.\d+)?)\s*-?\s*(minutes?|mins?|hours?|hrs?)\b/i);
+  if (m) {
+    const n = Number(m[1]);
+    return Math.round(/^h/i.test(m[2]) ? n * 60 : n);
+  }
+  if (/\b(?:an|one)\s+hour\b/i.test(text)) return 60;
+  return undefined;
+}
+
+function extractPaymentTerms(text: string) {
+  const early = text.match(/\b(\d{1,2})\s*\/\s*(\d{1,2})\s+net\s*-?\s*(\d{1,3})\b/i);
+  if (early) return `${early[1]}/${early[2]} NET ${early[3]}`;
+  const net = text.match(/\bnet\s*-?\s*(\d{1,3})\b/i);
+  if (net) return `NET ${net[1]}`;
+  if (/\bdue\s+(?:up)?on\s+receipt\b/i.test(text)) return 'Due on receipt';
+  return undefined;
+}
+
+function toNumber(raw: string, scale?: string) {
+  const n = Number(raw.replace(/,/g, ''));
+  if (!Number.isFinite(n)) return undefined;
+  const mult = !scale ? 1 : /^k$/i.test(scale) ? 1_000 : /^m$/i.test(scale) ? 1_000_000 : 1;
+  return Math.round(n * mult * 100) / 100;
+}
+
+function extractMoney(text: string): { amount?: number; currency?: string } {
+  const num = '(\\d[\\d,]*(?:\\.\\d+)?)\\s*([kKmM](?![a-z]))?';
+  const codes = CURRENCY_CODES.join('|');
+
+  const sym = text.match(new RegExp(`([$€£¥])\\s?${num}`));
+  if (sym) return { amount: toNumber(sym[2], sym[3]), currency: CURRENCY_SYMBOLS[sym[1]] };
+
+  const pre = text.match(new RegExp(`\\b(${codes})\\s?${num}`, 'i'));
+  if (pre) return { amount: toNumber(pre[2], pre[3]), currency: pre[1].toUpperCase() };
+
+  const post = text.match(new RegExp(`${num}\\s*(${codes}|dollars|euros|pounds|yen)\\b`, 'i'));
+  if (post) {
+    const unit = post[3].toLowerCase();
+    return { amount: toNumber(post[1], post[2]), currency: CURRENCY_WORDS[unit] || unit.toUpperCase() };
+  }
+
+  const bare = text.match(new RegExp(`\\b(${codes})\\b`, 'i'));
+  return bare ? { currency: bare[1].toUpperCase() } : {};
+}
+
+// --- DATES --------------------------------------------------------------------
+function ymd(d: Date) {
+  return d.toISOString().slice(0, 10);
+}
+
+function addDays(d: Date, n: number) {
+  const x = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()));
+  x.setUTCDate(x.getUTCDate() + n);
+  return x;
+}
+
+/** The tenant's calendar day at `now`, as UTC midnight (so the UTC getters below read local dates). */
+function localToday(now: Date, timeZone: string) {
+  const p = zonedParts(now, timeZone);
+  return new Date(Date.UTC(p.year, p.month - 1, p.day));
+}
+
+function extractDate(text: string, today: Date): string | undefined {
+  const iso = text.match(/\b(\d{4})-(\d{2})-(\d{2})\b/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  if (/\bday after tomorrow\b/i.test(text)) return ymd(addDays(today, 2));
+  if (/\btomorrow\b/i.test(text)) return ymd(addDays(today, 1));
+  if (/\b(?:today|tonight)\b/i.test(text)) return ymd(today);
+
+  const rel = text.match(/\bin\s+(\d+)\s+(days?|weeks?)\b/i);
+  if (rel) return ymd(addDays(today, Number(rel[1]) * (/^w/i.test(rel[2]) ? 7 : 1)));
+
+  const wd = text.match(/\b(?:(next|this|on)\s+)?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)\b/i);
+  if (wd) {
+    const target = WEEKDAYS.indexOf(wd[2].toLowerCase());
+    let delta = (target - today.getUTCDay() + 7) % 7;
+    if (delta === 0) delta = 7;
+    return ymd(addDays(today, delta));
+  }
+
+  const monthRe = '(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?';
+  const md = text.match(new RegExp(`\\b${monthRe}\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?\\b`, 'i'));
+  const dm = text.match(new RegExp(`\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${monthRe}(?:,?\\s+(\\d{4}))?\\b`, 'i'));
+  const parts = md
+    ? { month: md[1], day: md[2], year: md[3] }
+    : dm ? { month: dm[2], day: dm[1], year: dm[3] } : undefined;
+  if (parts) {
+    const month = MONTHS.indexOf(parts.month.slice(0, 3).toLowerCase());
+    const day = Number(parts.day);
+    let year = parts.year ? Number(parts.year) : today.getUTCFullYear();
+    let d = new Date(Date.UTC(year, month, day));
+    if (!parts.year && d < addDays(today, 0)) d = new Date(Date.UTC(++year, month, day));
+    if (d.getUTCDate() === day) return ymd(d);
+  }
+  return undefined;
+}
+
+function extractTime(text: string): string | undefined {
+  if (/\bnoon\b/i.test(text)) return '12:00';
+  if (/\bmidnight\b/i.test(text)) return '00:00';
+
+  const ampm = text.match(/\b(\d{1,2})(?::([0-5]\d))?\s*([ap])\.?m\.?(?![a-z])/i);
+  if (ampm) {
+    let h = Number(ampm[1]) % 12;
+    if (ampm[3].toLowerCase() === 'p') h += 12;
+    return `${String(h).padStart(2, '0')}:${ampm[2] || '00'}`;
+  }
+  const h24 = text.match(/\b([01]?\d|2[0-3]):([0-5]\d)\b/);
+  if (h24) return `${h24[1].padStart(2, '0')}:${h24[2]}`;
+  return undefined;
+}
+
+// --- NAMES --------------------------------------------------------------------
+function extractOrganization(text: string) {
+  const after = capitalizedAfter(text, ['company', 'customer', 'client', 'counterparty', 'account'], 4);
+  if (after) return after;
+  const m = text.match(/\b([A-Z][\w&'-]*(?:\s+[A-Z][\w&'-]*){0,3}\s+(?:Inc|LLC|Ltd|Corp|Corporation|GmbH|Co|Company|Group|Labs|Technologies|Systems|Partners)\.?)(?=\W|$)/);
+  return m?.[1];
+}
+
+function extractVendor(text: string) {
+  return capitalizedAfter(text, ['vendor', 'supplier', 'from', 'via', 'through'], 4);
+}
+
+function extractPersonName(text: string, email?: string) {
+  const named = capitalizedAfter(text, ['named', 'called', 'name is', 'lead', 'contact', 'employee', 'hire', 'attendee', 'with', 'for', 'for our'], 3);
+  if (named && !ORG_SUFFIX.test(named)) return named;
+
+  // jane.doe@acme.com → Jane Doe
+  const local = email?.split('@')[0];
+  if (local && /^[a-z]+[._][a-z]+$/i.test(local)) return titleCase(local.replace(/[._]/g, ' '));
+  return undefined;
+}
+
+// --- PUBLIC: EXTRACTION -------------------------------------------------------
+/**
+ * Extract entities from free text, falling back to `context.contact` /
+ * `context.customer` for anything the text does not mention. Relative dates
+ * ("tomorrow", "next Tuesday") are resolved in the tenant's `timeZone`.
+ */
+export function extractEntities(text: string, context?: any, now = new Date(), timeZone = 'UTC'): Entities {
+  const s = String(text || '');
+  const out: Entities = {};
+  const today = localToday(now, timeZone);
+
+  const email = extractEmail(s);
+  const money = extractMoney(s);
+  const date = extractDate(s, today);
+  const time = extractTime(s);
+  const organization = extractOrganization(s);
+  const vendor = extractVendor(s);
+  const person = extractPersonName(s, email);
+
+  if (email) out.email = email;
+  const phone = extractPhone(s);
+  if (phone) out.phone = phone;
+  const url = extractUrl(s);
+  if (url) out.url = url;
+  const duration = extractDuration(s);
+  if (duration) out.duration_min = duration;
+  if (date) out.date = date;
+  if (time) out.time = time;
+  if (date || time) out.datetime = `${date || ymd(today)}T${time || '09:00'}`;
+  if (money.amount !== undefined) out.amount = money.amount;
+  if (money.currency) out.currency = money.currency;
+  const terms = extractPaymentTerms(s);
+  if (terms) out.payment_terms = terms;
+  if (organization) out.organization = organization;
+  if (vendor && vendor !== organization) out.vendor = vendor;
+  if (person && person !== organization && person !== vendor) out.person_name = person;
+
+  const who = context?.contact || context?.customer;
+  if (who && typeof who === 'object') {
+    out.person_name ??= who.name || [who.first_name, who.last_name].filter(Boolean).join(' ') || undefined;
+    out.email ??= who.email;
+    out.phone ??= who.phone;
+    out.organization ??= who.company;
+  }
+  for (const k of Object.keys(out) as EntityName[]) if (out[k] === undefined || out[k] === '') delete out[k];
+  return out;
+}
+
+// --- FOLLOW-UPS ---------------------------------------------------------------
+const QUESTIONS: Record<string, string> = {
+  lead_name: 'Who is the lead (name)?',
+  start: 'When should the meeting start?',
+  customer: 'Which customer is this for?',
+  amount: 'What amount should be used?',
+  quote_number: 'Which quote (number) is this for?',
+  event_uid: 'Which meeting (event UID) is this about?',
+  line_items: 'What should be on it (items, quantities, prices)?',
+  vendor: 'Which vendor is this for?',
+  counterparty: 'Who is the counterparty?',
+  contract_text: 'Please paste the contract text to review.',
+  employee: 'Which employee is this for?',
+  customer_email: "What is the customer's email address?",
+  website: 'Which website should be used?'
+};
+
+// --- PUBLIC: FILLING ----------------------------------------------------------
+export function fillInputs(dept: Dept, action: string, entities: Entities, notes?: string): SlotFill {
+  const schema = schemaFor(dept, action);
+  const fields = schema?.fields || {};
+  const inputs: Record<string, unknown> = {};
+  const filled: string[] = [];
+
+  for (const [field, spec] of Object.entries(fields)) {
+    if (!spec.slot) continue;
+    const from = (Array.isArray(spec.slot) ? spec.slot : [spec.slot]).find(e => entities[e] !== undefined);
+    if (from) { inputs[field] = entities[from]; filled.push(field); }
+  }
+  if (notes) inputs.notes = notes;
+
+  const missing = Object.entries(fields)
+    .filter(([f, spec]) => spec.required && spec.default === undefined && inputs[f] === undefined)
+    .map(([f]) => f)
+    .concat(missingFromGroups(schema?.anyOf, f => inputs[f] !== undefined || fields[f]?.default !== undefined));
+  return { inputs, filled, missing };
+}
+
+export function followupFor(ticket: { id: string; dept: Dept; action: string }, missing: string[]): Followup {
+  const asks = missing.map(f => QUESTIONS[f] || `What is the ${f.replace(/_/g, ' ')}?`);
+  return { ticket_id: ticket.id, dept: ticket.dept, action: ticket.action, missing, question: asks.join(' ') };
+}
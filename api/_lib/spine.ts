@@ -0,0 +1,186 @@
+import { executeTicket, type DeptResult, type DeptTicket } from './departments.js';
+import { noEmit, type Emit } from './events.js';
+import { classifyUtterance, type IntentPlan } from './intent.js';
+import { FOLLOW_UP_ACTIONS, inputsFromRef, loadSession, recordTurn, refKindFor, resolveReference } from './sessions.js';
+import { extractEntities, fillInputs, followupFor, type Followup } from './slots.js';
+import { tenantTimeZone, zoneCapabilities } from './time.js';
+
+/**
+ * The master spine: utterance → tenant → intent plan → slot-filled tickets →
+ * departments, in plan order. /api/corp/ingest returns the whole result at
+ * once; /api/agent/chat?stream=1 passes `emit` to watch it happen.
+ *
+ * Turns are remembered per session_id (./sessions.ts): the tenant sticks, the
+ * people involved carry over, and "that meeting" / "it" resolve to records an
+ * earlier turn created.
+ */
+
+export type SpineInput = {
+  user_id: string;
+  session_id: string;
+  utterance: string;
+  context?: any;
+  constraints?: { sensitivity?: string };
+};
+
+export type SpineResult = {
+  ok: boolean;
+  stage: 'FINAL';
+  session_id: string;
+  turn: number;
+  tenant_id: string;
+  summary: string;
+  failed: number;
+  plan: IntentPlan;
+  entities: Record<string, unknown>;
+  followups: Followup[];
+  /** Plan steps that were resolved against an earlier turn. */
+  references: Array<{ ticket_id: string; kind: string; ids: Record<string, string>; filled: string[]; rewritten_from?: string }>;
+  results: DeptResult[];
+  trace: Array<{ at: string; msg: string }>;
+};
+
+const CAPABILITIES = {
+  crm: { provider: 'local' },
+  support_desk: { provider: 'local' },
+  calendar: { provider: 'google_calendar' },
+  payments: { provider: 'stripe' },
+  messaging: { chat: 'slack', sms: 'twilio', email: 'sendgrid' },
+  fallbacks: { generic_ticketing: 'google_sheets', manual_review_channel: 'slack:#ops-review' },
+  policies: { after_hours_outreach: false, pii: 'mask', phi: 'drop' }
+};
+
+/** The one-line chat reply for a spine run. */
+export function replyFor(summary: string) {
+  return summary ? `Done: ${summary.replace(/, /g, ' • ')}` : 'Processed locally.';
+}
+
+const FAILED: Array<DeptResult['status']> = ['error', 'invalid', 'conflict'];
+const HELD: Array<DeptResult['status']> = ['denied', 'deferred', 'pending_approval'];
+
+export async function runSpine(body: SpineInput, emit: Emit = noEmit): Promise<SpineResult> {
+  const trace: Array<{ at: string; msg: string }> = [];
+  const step = (msg: string) => {
+    trace.push({ at: new Date().toISOString(), msg });
+    emit({ type: 'trace', msg });
+  };
+
+  step('received_request');
+  step('schema_guard:ok');
+
+  const session = await loadSession(body.session_id);
+  const turn = session.turn + 1;
+  step(`memory:session ${session.id} turn=${turn} records=${session.refs.length}`);
+
+  // tenant: a session keeps the one it started with
+  const domain =
+    body?.context?.company?.domain ||
+    (body?.context?.company?.name ? String(body.context.company.name).toLowerCase().replace(/\s+/g, '') + '.local' : '') ||
+    'local.dev';
+  const tenant_id = session.tenant_id || `tenant_${domain.replace(/\./g, '_')}_${Date.now().toString(36)}`;
+  step(`tenant_resolver:${tenant_id}${session.tenant_id ? ' (session)' : ''}`);
+
+  // intent → ordered dept/action plan
+  const plan = classifyUtterance(String(body.utterance));
+  step(`intent_classifier:${plan.classifier}${plan.fallback ? ':fallback' : ''} steps=${plan.steps.length} confidence=${plan.confidence}`);
+  for (const s of plan.steps) {
+    step(`intent_classifier:match ${s.dept}.${s.action} confidence=${s.confidence} cues=[${s.cues.join('|')}]`);
+  }
+
+  step('planner:build_tickets');
+
+  // the tenant's zone may come with the request: relative dates are read in it, and the gates use it
+  const capabilities = { ...CAPABILITIES, ...zoneCapabilities(body?.context?.capabilities) };
+  const tz = tenantTimeZone(capabilities);
+
+  // slots: clause-level entities win over whole-utterance / context ones, which win over earlier turns
+  const entities = extractEntities(String(body.utterance), body.context, new Date(), tz);
+  const followups: Followup[] = [];
+  const references: SpineResult['references'] = [];
+
+  const tickets = plan.steps.map(({ dept, action: planned, clause }, i) => {
+    // "make that meeting 45 minutes instead": a new-record step that points back becomes a change to it
+    const rewrite = FOLLOW_UP_ACTIONS[`${dept}.${planned}`];
+    const kind = rewrite?.[0] || refKindFor(dept, planned);
+    const ref = kind ? resolveReference(clause, session, kind) || resolveReference(String(body.utterance), session, kind) : undefined;
+    const action = ref && rewrite ? rewrite[1] : planned;
+    const slots = fillInputs(dept, action, { ...session.entities, ...entities, ...extractEntities(clause, undefined, new Date(), tz) }, clause);
+    const ticket: DeptTicket = {
+      id: `sess_${Date.now()}:${dept}:${action}:${i}`,
+      dept,
+      action,
+      inputs: slots.inputs,
+      context: { tenant_id, capabilities, constraints: { sensitivity: body?.constraints?.sensitivity || 'NONE' } },
+      idempotency_key: `${session.id}:${turn}:${dept}:${action}:${i}`,
+      sla_sec: 120,
+      retries: 2
+    };
+    if (ref) {
+      const filled = inputsFromRef(dept, action, ref, ticket.inputs);
+      slots.filled.push(...filled);
+      slots.missing = slots.missing.filter(f => !filled.includes(f));
+      references.push({ ticket_id: ticket.id, kind: ref.kind, ids: ref.ids, filled, ...(action !== planned ? { rewritten_from: planned } : {}) });
+      step(`memory:resolve ${dept}.${action}${action !== planned ? ` (was ${planned})` : ''} → ${ref.kind} ${Object.values(ref.ids)[0]} from turn ${ref.turn} filled=[${filled.join('|')}]`);
+    }
+    step(`slot_filler:${dept}.${action} filled=[${slots.filled.join('|')}] missing=[${slots.missing.join('|')}]`);
+    if (slots.missing.length) followups.push(followupFor(ticket, slots.missing));
+    return ticket;
+  });
+  emit({
+    type: 'plan',
+    source: 'classifier',
+    steps: tickets.map((t, i) => ({ ticket_id: t.id, dept: t.dept, action: t.action, confidence: plan.steps[i].confidence })),
+    followups
+  });
+
+  // department executor (same path as /api/dept/all), in plan order; policy gates run first
+  step('departments:execute:start');
+  const results: DeptResult[] = [];
+  for (const t of tickets) {
+    emit({ type: 'ticket_started', ticket_id: t.id, dept: t.dept, action: t.action });
+    const r = await executeTicket(t);
+    results.push(r);
+    for (const g of r.diagnostics.policy?.gates || []) {
+      step(`policy_gates:${t.dept}.${t.action}:${g.gate}:${g.decision} ${g.reason}`);
+    }
+    if (r.diagnostics.idempotency?.replayed) step(`idempotency:${t.dept}.${t.action}:replayed ${t.idempotency_key}`);
+    if ((r.diagnostics.attempts?.length || 0) > 1) step(`retry:${t.dept}.${t.action}:attempts=${r.diagnostics.attempts!.length}`);
+    if (r.diagnostics.dead_letter) step(`dead_letter:${t.dept}.${t.action}:${r.diagnostics.dead_letter.id}`);
+    if (r.diagnostics.approval) step(`approval_queue:${t.dept}.${t.action}:parked ${r.diagnostics.approval.id} → ${r.diagnostics.approval.channel}`);
+    step(`departments:execute:${t.dept}.${t.action}:${r.status} ${r.diagnostics.duration_ms ?? 0}ms${r.ok ? '' : ` error=${r.diagnostics.notes || r.summary}`}`);
+    emit({
+      type: 'ticket_finished',
+      ticket_id: t.id,
+      dept: t.dept,
+      action: t.action,
+      ok: r.ok,
+      status: r.status,
+      summary: r.summary,
+      duration_ms: r.diagnostics.duration_ms,
+      ...(r.ok ? {} : { error: r.diagnostics.notes || r.summary })
+    });
+  }
+  const failed = results.filter(r => FAILED.includes(r.status)).length;
+  const held = results.filter(r => HELD.includes(r.status)).length;
+  step(`departments:execute:done ok=${results.length - failed - held} held=${held} failed=${failed}`);
+
+  step('merge:final');
+  const summary = results.map(r => `${r.dept}:${r.status}`).join(', ');
+
+  const reply = replyFor(summary);
+  await recordTurn(session.id, {
+    tenant_id,
+    utterance: String(body.utterance),
+    reply,
+    messages: [{ role: 'user', content: String(body.utterance) }, { role: 'assistant', content: reply }],
+    results,
+    entities
+  });
+  step(`memory:recorded turn=${turn}`);
+
+  step('respond:200');
+  return {
+    ok: failed === 0, stage: 'FINAL', session_id: session.id, turn, tenant_id, summary, failed,
+    plan, entities, followups, references, results, trace
+  };
+}
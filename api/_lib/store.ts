@@ -0,0 +1,157 @@
+import { promises as fs } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+/**
+ * Tiny file-backed JSON store for local state (approvals, adapters, ...).
+ *
+ * Env:
+ * - AGENT_DATA_DIR   where files live (default: <os tmpdir>/agentkit-data)
+ *
+ * On Vercel only /tmp is writable and it is per-instance, so treat this as
+ * "durable enough for a demo"; swap in a real database for production.
+ */
+
+export const DATA_DIR = process.env.AGENT_DATA_DIR || path.join(os.tmpdir(), 'agentkit-data');
+
+// Serialize read-modify-write per file inside this process.
+const locks = new Map<string, Promise<unknown>>();
+
+function resolve(file: string) {
+  return path.join(DATA_DIR, file);
+}
+
+/** Make an id safe to use as a single path segment. */
+export function safeSegment(s: string) {
+  return String(s || '').replace(/[^a-zA-Z0-9._-]+/g, '_').slice(0, 120) || '_';
+}
+
+export function tenantFile(tenant_id: string, name: string) {
+  return path.join('tenants', safeSegment(tenant_id), name);
+}
+
+export function newId(prefix: string) {
+  return `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function withFileLock<T>(file: string, fn: () => Promise<T>): Promise<T> {
+  const prev = locks.get(file) || Promise.resolve();
+  const run = prev.then(fn, fn);
+  const tail = run.catch(() => undefined);
+  locks.set(file, tail);
+  try {
+    return await run;
+  } finally {
+    if (locks.get(file) === tail) locks.delete(file);
+  }
+}
+
+export async function readJson<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(resolve(file), 'utf8')) as T;
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return fallback;
+    throw e;
+  }
+}
+
+/** Atomic write (tmp file + rename). */
+export async function writeJson(file: string, value: unknown) {
+  const full = resolve(file);
+  await fs.mkdir(path.dirname(full), { recursive: true });
+  const tmp = `${full}.${process.pid}.${Date.now().toString(36)}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2));
+  await fs.rename(tmp, full);
+}
+
+/** Locked read-modify-write; returns what `fn` returned as the new value. */
+export async function updateJson<T>(file: string, fallback: T, fn: (current: T) => T | Promise<T>): Promise<T> {
+  return withFileLock(file, async () => {
+    const next = await fn(await readJson(file, fallback));
+    await writeJson(file, next);
+    return next;
+  });
+}
+
+/** Delete a file; false when it did not exist. */
+export async function removeFile(file: string) {
+  return withFileLock(file, async () => {
+    try {
+      await fs.unlink(resolve(file));
+      return true;
+    } catch (e: any) {
+      if (e?.code === 'ENOENT') return false;
+      throw e;
+    }
+  });
+}
+
+export async function appendJsonl(file: string, row: unknown) {
+  const full = resolve(file);
+  await withFileLock(file, async () => {
+    await fs.mkdir(path.dirname(full), { recursive: true });
+    await fs.appendFile(full, JSON.stringify(row) + '\n');
+  });
+}
+
+export async function readJsonl<T>(file: string): Promise<T[]> {
+  let raw = '';
+  try {
+    raw = await fs.readFile(resolve(file), 'utf8');
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return [];
+    throw e;
+  }
+  const rows: T[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try { rows.push(JSON.parse(line) as T); } catch { /* skip torn line */ }
+  }
+  return rows;
+}
+
+/**
+ * Spreadsheet apps run a cell starting with = + - @ (or tab / CR) as a formula,
+ * so such text gets a leading ' to stay text. Plain numbers (-42, +1.5) are left alone.
+ */
+function csvCell(v: string) {
+  const safe = /^[=+\-@\t\r]/.test(v) && !/^[+-]?\d+(?:\.\d+)?$/.test(v) ? `'${v}` : v;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/** Record count, honouring newlines inside quoted cells. */
+function csvRecords(raw: string) {
+  let quoted = false;
+  let n = 0;
+  for (const ch of raw) {
+    if (ch === '"') quoted = !quoted;
+    else if (ch === '\n' && !quoted) n++;
+  }
+  return n;
+}
+
+function csvHeader(raw: string) {
+  // header cells are plain identifiers, so a naive split is enough
+  return raw.split(/\r?\n/, 1)[0].split(',').filter(Boolean);
+}
+
+/**
+ * Append a CSV row. A new file gets `columns` as its header; an existing file
+ * keeps its own header so the layout stays stable. Returns the 1-based data row.
+ */
+export async function appendCsvRow(file: string, columns: string[], row: Record<string, string>) {
+  const full = resolve(file);
+  return withFileLock(file, async () => {
+    let raw = '';
+    try {
+      raw = await fs.readFile(full, 'utf8');
+    } catch (e: any) {
+      if (e?.code !== 'ENOENT') throw e;
+    }
+    const header = raw ? csvHeader(raw) : columns;
+    const line = header.map(c => csvCell(row[c] ?? '')).join(',') + '\n';
+    await fs.mkdir(path.dirname(full), { recursive: true });
+    await fs.appendFile(full, raw ? line : header.join(',') + '\n' + line);
+    return raw ? csvRecords(raw) : 1;
+  });
+}
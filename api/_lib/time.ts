@@ -0,0 +1,89 @@
+/**
+ * Time-zone helpers built on Intl (no tz database dependency).
+ */
+
+/** Wall-clock parts of `at` in a given IANA time zone. */
+export function zonedParts(at: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', weekday: 'short',
+    year: 'numeric', month: '2-digit', day: '2-digit', hour: '2-digit', minute: '2-digit'
+  }).formatToParts(at);
+  const get = (t: string) => parts.find(p => p.type === t)?.value || '';
+  return {
+    year: Number(get('year')), month: Number(get('month')), day: Number(get('day')),
+    hour: Number(get('hour')), minute: Number(get('minute')),
+    weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(get('weekday'))
+  };
+}
+
+/** UTC instant for a wall-clock time in `timeZone` (DST-safe to the minute). */
+export function zonedToUtc(year: number, month: number, day: number, hour: number, minute: number, timeZone: string) {
+  const guess = Date.UTC(year, month - 1, day, hour, minute);
+  const p = zonedParts(new Date(guess), timeZone);
+  const offset = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute) - guess;
+  return new Date(guess - offset);
+}
+
+/**
+ * Parse 'YYYY-MM-DDTHH:MM[:SS][Z|±HH:MM]'. Without an offset the value is read
+ * as wall-clock time in `timeZone`.
+ */
+export function parseLocalDateTime(value: string, timeZone = 'UTC'): Date | undefined {
+  const m = String(value).match(/^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?(Z|[+-]\d{2}:?\d{2})?$/);
+  if (!m) return undefined;
+  if (m[6]) {
+    const d = new Date(value);
+    return Number.isNaN(d.getTime()) ? undefined : d;
+  }
+  return zonedToUtc(Number(m[1]), Number(m[2]), Number(m[3]), Number(m[4] || 0), Number(m[5] || 0), timeZone);
+}
+
+export function toMinutes(hhmm: string) {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + (m || 0);
+}
+
+export type BusinessHours = { timezone: string; days: number[]; start: string; end: string };
+
+const DEFAULT_HOURS: BusinessHours = { timezone: 'UTC', days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' };
+
+/** capabilities.business_hours with defaults (Mon–Fri 09:00–17:00 UTC); days use 0 = Sunday. */
+export function businessHours(capabilities: Record<string, unknown> = {}): BusinessHours {
+  const h = (capabilities as any)?.business_hours || {};
+  return {
+    timezone: typeof h.timezone === 'string' ? h.timezone : DEFAULT_HOURS.timezone,
+    days: Array.isArray(h.days) ? h.days.map(Number) : DEFAULT_HOURS.days,
+    start: typeof h.start === 'string' ? h.start : DEFAULT_HOURS.start,
+    end: typeof h.end === 'string' ? h.end : DEFAULT_HOURS.end
+  };
+}
+
+/** Tenant time zone: capabilities.business_hours.timezone, else capabilities.timezone, else UTC. */
+export function tenantTimeZone(capabilities: Record<string, unknown> = {}) {
+  const c = capabilities as any;
+  return (typeof c?.business_hours?.timezone === 'string' && c.business_hours.timezone)
+    || (typeof c?.timezone === 'string' && c.timezone)
+    || 'UTC';
+}
+
+/** True when Intl knows `timeZone` (an IANA name such as Europe/Berlin, or UTC). */
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Just the zone settings (business_hours, timezone) of request-supplied
+ * capabilities, for entry points that otherwise use fixed capabilities.
+ */
+export function zoneCapabilities(capabilities: unknown): { business_hours?: unknown; timezone?: string } {
+  const c = (capabilities || {}) as any;
+  return {
+    ...(c.business_hours && typeof c.business_hours === 'object' ? { business_hours: c.business_hours } : {}),
+    ...(typeof c.timezone === 'string' ? { timezone: c.timezone } : {})
+  };
+}
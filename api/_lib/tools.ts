@@ -0,0 +1,154 @@
+import { createHash } from 'node:crypto';
+import type OpenAI from 'openai';
+import {
+  DEPTS, describeCatalog, jsonSchemaOf, parseToolName, toolDefinition, validateAgainst, validateInputs,
+  type ActionSchema, type ValidationError
+} from './catalog.js';
+import { appendJsonl, readJsonl, tenantFile } from './store.js';
+
+/**
+ * The model's tools in /api/agent/chat: three built-ins plus one per catalog
+ * action, and the argument check every call goes through before it runs.
+ *
+ * A call that fails the check is not executed; the model gets the errors back
+ * as the tool result and may call again (a "repair"). Repairs are kept per
+ * tenant in tenants/<id>/agent/repairs.jsonl (GET /api/agent/repairs) without
+ * the prompt or argument values, which may carry PII: only a hash and length of
+ * the prompt and the argument field names are stored.
+ */
+
+// --- BUILT-INS ----------------------------------------------------------------
+export const BUILTIN_TOOLS: Record<string, ActionSchema> = {
+  schema_guard: {
+    description: 'Validate minimal shape and produce a tenant_id.',
+    fields: {
+      utterance: { type: 'string', description: 'The user request', required: true },
+      context: { type: 'object', description: 'Request context (company, contact, ...)' }
+    }
+  },
+  build_tickets: {
+    description: 'Create DepartmentTickets for an ordered plan (e.g., SALES→OPS→FIN).',
+    fields: {
+      plan: { type: 'array', description: 'Departments in order', items: { type: 'string', enum: DEPTS }, required: true },
+      session_id: { type: 'string', description: 'Session id (defaults to the current one)' },
+      tenant_id: { type: 'string', description: 'Tenant id from schema_guard' },
+      utterance: { type: 'string', description: 'Original user request; used to fill ticket inputs (names, emails, dates, amounts…).' },
+      context: { type: 'object', description: 'Request context' }
+    }
+  },
+  research_build_kb: {
+    description: 'Build a company profile and crawl plan for a given website URL.',
+    fields: {
+      website: { type: 'string', format: 'url', description: 'Company website', required: true },
+      tenant_id: { type: 'string', description: 'Tenant id' },
+      company_name: { type: 'string', description: 'Company name' }
+    }
+  }
+};
+
+/** Built-ins first, then one typed tool per catalog action (new actions appear automatically). */
+export function agentTools(): OpenAI.Chat.Completions.ChatCompletionTool[] {
+  return [
+    ...Object.entries(BUILTIN_TOOLS).map(([name, s]) => ({
+      type: 'function' as const,
+      function: { name, description: s.description, parameters: jsonSchemaOf(s) }
+    })),
+    ...describeCatalog().map(toolDefinition)
+  ];
+}
+
+// --- ARGUMENT CHECK -----------------------------------------------------------
+export type ToolCheck =
+  | { ok: true; args: Record<string, unknown> }
+  | { ok: false; errors: ValidationError[] };
+
+/** Parse and validate one tool call's arguments; `args` come back with defaults and coercions applied. */
+export function checkToolCall(name: string, raw: string | undefined): ToolCheck {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw || '{}');
+  } catch (e: any) {
+    return { ok: false, errors: [{ field: 'arguments', code: 'invalid_type', message: `arguments are not valid JSON: ${e?.message || e}` }] };
+  }
+
+  const builtin = BUILTIN_TOOLS[name];
+  const target = builtin ? undefined : parseToolName(name);
+  if (!builtin && !target) {
+    return { ok: false, errors: [{ field: 'tool', code: 'unknown_action', message: `Unknown tool: ${name}` }] };
+  }
+  const r = builtin ? validateAgainst(builtin, parsed) : validateInputs(target!.dept, target!.action, parsed);
+  return r.ok ? { ok: true, args: r.inputs } : r;
+}
+
+/** Tool result for a rejected call: what was wrong and whether another try is allowed. */
+export function repairMessage(name: string, errors: ValidationError[], attemptsLeft: number) {
+  return {
+    ok: false,
+    error: 'INVALID_ARGUMENTS',
+    tool: name,
+    errors,
+    attempts_left: attemptsLeft,
+    hint: attemptsLeft > 0
+      ? `Fix the listed fields and call ${name} again.`
+      : `Do not call ${name} again in this turn; tell the user what is missing or wrong.`
+  };
+}
+
+// --- REPAIR LOG ---------------------------------------------------------------
+export type Repair = {
+  at: string;
+  session_id: string;
+  /** The user message that led to the bad call. */
+  prompt: string;
+  tool: string;
+  call_id: string;
+  /** 1 for the first rejected call to this tool in the turn. */
+  attempt: number;
+  errors: ValidationError[];
+  arguments: string;
+  /** A later call to the same tool in the same turn passed the check. */
+  repaired: boolean;
+  /** The per-tool cap was reached; the model was told to stop. */
+  gave_up: boolean;
+};
+
+/** What is kept of a Repair: the same prompt hashes to the same `prompt_sha256`. */
+export type RepairLogEntry = Omit<Repair, 'prompt' | 'arguments'> & {
+  prompt_sha256: string;
+  prompt_chars: number;
+  /** Top-level argument names the model sent; empty when they were not a JSON object. */
+  argument_fields: string[];
+  arguments_chars: number;
+};
+
+const logFile = (tenant_id: string) => tenantFile(tenant_id, 'agent/repairs.jsonl');
+
+function argumentFields(raw: string) {
+  try {
+    const v = JSON.parse(raw);
+    return v && typeof v === 'object' && !Array.isArray(v) ? Object.keys(v) : [];
+  } catch {
+    return [];
+  }
+}
+
+export async function logRepairs(tenant_id: string, repairs: Repair[]) {
+  for (const { prompt, arguments: raw, ...r } of repairs) {
+    const entry: RepairLogEntry = {
+      ...r,
+      // a JSON parse error quotes part of the raw arguments
+      errors: r.errors.map(e => (e.field === 'arguments' ? { ...e, message: 'arguments are not valid JSON' } : e)),
+      prompt_sha256: createHash('sha256').update(prompt).digest('hex').slice(0, 16),
+      prompt_chars: prompt.length,
+      argument_fields: argumentFields(raw),
+      arguments_chars: raw.length
+    };
+    await appendJsonl(logFile(tenant_id), entry);
+  }
+}
+
+/** `since`: an ISO timestamp (entries compare as strings). */
+export async function readRepairs(tenant_id: string, filter: { tool?: string; since?: string } = {}) {
+  const rows = await readJsonl<RepairLogEntry>(logFile(tenant_id));
+  return rows.filter(r => (!filter.tool || r.tool === filter.tool) && (!filter.since || r.at >= filter.since));
+}
@@ -1,30 +1,30 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
 import OpenAI from 'openai';
+import { budgetLimits, openBudget, stoppedReply, type Budget, type BudgetStop } from '../_lib/budget.js';
+import { parseToolName, toolNameFor, type Dept } from '../_lib/catalog.js';
+import { executeTicket, type DeptResult, type DeptTicket } from '../_lib/departments.js';
+import { noEmit, openEventStream, wantsStream, type Emit } from '../_lib/events.js';
+import { fingerprintOf } from '../_lib/idempotency.js';
+import { isModelMode, modelProvider, ProviderConfigError, type ModelProvider } from '../_lib/llm.js';
+import { BadUrlError, buildKb } from '../_lib/research.js';
+import { historyMessages, loadSession, memoryNote, newSessionId, recordTurn } from '../_lib/sessions.js';
+import { extractEntities, fillInputs, followupFor, type Followup } from '../_lib/slots.js';
+import { replyFor, runSpine } from '../_lib/spine.js';
+import { tenantTimeZone, zoneCapabilities } from '../_lib/time.js';
+import { agentTools, checkToolCall, logRepairs, repairMessage, type Repair } from '../_lib/tools.js';
 
-// Toggle spending: "openai" uses the API; anything else stays local + free
+// Toggle spending: "openai"/"record" use the API, "replay"/"scripted" run the model loop offline
+// (see ../_lib/llm.ts); anything else stays on the local spine + free
 const MODE = (process.env.AGENT_MODE || 'local').toLowerCase();
-
-// ==== Types ==================================================================
-type Dept =
-  | 'SALES' | 'MARKETING' | 'ANALYTICS' | 'EXEC' | 'PRODUCT' | 'SECURITY'
-  | 'FACILITIES' | 'PROCUREMENT' | 'LEGAL' | 'IT' | 'HR' | 'FIN' | 'OPS' | 'CS' | 'RESEARCH';
-
-type DeptTicket = {
-  id: string;
-  dept: Dept;
-  action: string;
-  inputs: Record<string, unknown>;
-  context: { tenant_id: string; capabilities: any };
-  idempotency_key: string;
-  sla_sec: number;
-  retries: number;
-};
+// rejected calls to one tool the model may follow with another try in a turn
+const MAX_REPAIRS = Number(process.env.AGENT_MAX_REPAIRS || 2);
 
 // ==== Helpers ================================================================
-function mkCapabilities() {
+function mkCapabilities(context?: any) {
   return {
-    crm: { provider: 'none' },
-    support_desk: { provider: 'none' },
+    ...zoneCapabilities(context?.capabilities),
+    crm: { provider: 'local' },
+    support_desk: { provider: 'local' },
     calendar: { provider: 'google_calendar' },
     payments: { provider: 'stripe' },
     messaging: { chat: 'slack', sms: 'twilio', email: 'sendgrid' },
@@ -33,66 +33,17 @@ function mkCapabilities() {
   };
 }
 
-// Build a safe ticket if the model forgets to pass one
-function synthTicket(funcName: string, args: any): DeptTicket {
-  const caps = mkCapabilities();
-  // Guess dept from function name or args
-  const dept: Dept =
-    (args?.ticket?.dept ||
-      args?.dept ||
-      (funcName.includes('sales') ? 'SALES'
-        : funcName.includes('marketing') ? 'MARKETING'
-        : funcName.includes('analytics') ? 'ANALYTICS'
-        : funcName.includes('exec') ? 'EXEC'
-        : funcName.includes('product') ? 'PRODUCT'
-        : funcName.includes('security') ? 'SECURITY'
-        : funcName.includes('facilities') ? 'FACILITIES'
-        : funcName.includes('procurement') ? 'PROCUREMENT'
-        : funcName.includes('legal') ? 'LEGAL'
-        : funcName.includes('it') ? 'IT'
-        : funcName.includes('hr') ? 'HR'
-        : funcName.includes('fin') ? 'FIN'
-        : funcName.includes('ops') ? 'OPS'
-        : funcName.includes('cs') ? 'CS'
-        : 'RESEARCH')) as Dept;
-
-  const action =
-    args?.ticket?.action ||
-    args?.action ||
-    (dept === 'SALES' ? 'create_or_update_lead'
-      : dept === 'OPS' ? 'schedule_meeting'
-      : dept === 'FIN' ? 'draft_quote'
-      : dept === 'MARKETING' ? 'create_campaign'
-      : dept === 'ANALYTICS' ? 'run_report'
-      : dept === 'EXEC' ? 'daily_digest'
-      : dept === 'PRODUCT' ? 'create_ticket'
-      : dept === 'SECURITY' ? 'incident_intake'
-      : dept === 'FACILITIES' ? 'create_work_order'
-      : dept === 'PROCUREMENT' ? 'create_po'
-      : dept === 'LEGAL' ? 'review_contract'
-      : dept === 'IT' ? 'create_ticket'
-      : dept === 'HR' ? 'new_hire'
-      : dept === 'CS' ? 'create_ticket'
-      : 'build_kb');
-
-  const tenant_id =
-    args?.ticket?.context?.tenant_id ||
-    args?.tenant_id ||
-    `tenant_local_${Date.now().toString(36)}`;
-
-  const session_id = args?.session_id || `sess_${Date.now()}`;
-
-  const base: DeptTicket = {
-    id: `sess_${Date.now()}:${dept}:${action}:0`,
-    dept,
-    action,
-    inputs: args?.ticket?.inputs || { notes: 'N/A' },
-    context: { tenant_id, capabilities: caps },
-    idempotency_key: `${session_id}:${dept}:${action}:0`,
-    sla_sec: 120,
-    retries: 2
-  };
-  return { ...base, ...(args?.ticket || {}) };
+/**
+ * Tenant for a session's first turn, from the company in the request context.
+ * The same company always gets the same tenant, so a new session (or a client
+ * that names its own tenant_id) does not come with a fresh daily budget.
+ */
+function newTenantId(context?: any) {
+  const domain =
+    context?.company?.domain ||
+    (context?.company?.name ? String(context.company.name).toLowerCase().replace(/\s+/g, '') + '.local' : '') ||
+    'local.dev';
+  return `tenant_${String(domain).toLowerCase().replace(/[^a-z0-9]+/g, '_')}`;
 }
 
 // ==== Handler ================================================================
@@ -102,131 +53,109 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(405).json({ ok: false, error: 'Method Not Allowed' });
   }
 
-  const { message, context } = (req.body ?? {}) as any;
+  const { message, context, session_id: sid, budget: requested } = (req.body ?? {}) as any;
   if (!message || typeof message !== 'string') {
     return res.status(400).json({ ok: false, error: 'Missing message' });
   }
+  const stream = wantsStream(req);
+  // pass it back on the next message to continue the conversation
+  const session_id = typeof sid === 'string' && sid ? sid : newSessionId();
 
   // ---------- FREE LOCAL PATH (no OpenAI spend) ----------
-  if (MODE !== 'openai') {
-    const origin = new URL(req.url!, `https://${req.headers.host}`).origin;
-    const spinePayload = {
+  if (!isModelMode(MODE) && stream) {
+    // in-process so every ticket can be reported as it runs
+    const events = openEventStream(res);
+    try {
+      const data = await runSpine({
+        user_id: 'visitor-agent',
+        session_id,
+        utterance: message,
+        context: context || { company: { name: 'Acme', domain: 'acme.com', hq_country: 'US' } },
+        constraints: { sensitivity: 'NONE' }
+      }, events.send);
+      events.send({ type: 'reply', text: replyFor(data.summary) });
+      events.send({ type: 'done', ok: data.ok, mode: 'local', session_id, failed: data.failed, raw: data });
+    } catch (e: any) {
+      events.send({ type: 'error', message: e?.message || String(e), fatal: true });
+      events.send({ type: 'done', ok: false, mode: 'local', session_id, failed: 0 });
+    }
+    return events.close();
+  }
+
+  if (!isModelMode(MODE)) {
+    const data = await runSpine({
       user_id: 'visitor-agent',
-      session_id: 'sess_agent_' + Date.now(),
+      session_id,
       utterance: message,
-      channels: ['chat'],
       context: context || { company: { name: 'Acme', domain: 'acme.com', hq_country: 'US' } },
       constraints: { sensitivity: 'NONE' }
-    };
-    const resp = await fetch(`${origin}/api/corp/ingest`, {
-      method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(spinePayload)
     });
-    const data = await resp.json();
-    const reply = data?.summary ? `Done: ${data.summary.replace(/, /g, ' • ')}` : 'Processed locally.';
-    return res.status(200).json({ ok: true, mode: 'local', reply, raw: data });
+    const reply = data?.summary ? replyFor(data.summary) : 'Processed locally.';
+    return res.status(200).json({ ok: true, mode: 'local', session_id, reply, raw: data });
   }
 
-  // ---------- OPENAI AGENT PATH ----------
+  // ---------- MODEL AGENT PATH (openai / record / replay / scripted) ----------
+  let events: ReturnType<typeof openEventStream> | null = null;
+  let budget: Budget | null = null;
+  let failed = 0;
   try {
-    const apiKey = process.env.OPENAI_API_KEY;
-    if (!apiKey) return res.status(500).json({ ok: false, error: 'Missing OPENAI_API_KEY' });
-    const client = new OpenAI({ apiKey });
-    const origin = new URL(req.url!, `https://${req.headers.host}`).origin;
+    let model: ModelProvider;
+    try {
+      model = modelProvider(MODE);
+    } catch (e: any) {
+      if (e instanceof ProviderConfigError) return res.status(500).json({ ok: false, error: e.message });
+      throw e;
+    }
+    events = stream ? openEventStream(res) : null;
+    const emit: Emit = events ? events.send : noEmit;
 
-    // Tools the model can call
-    const tools: OpenAI.Chat.Completions.ChatCompletionTool[] = [
-      {
-        type: 'function',
-        function: {
-          name: 'schema_guard',
-          description: 'Validate minimal shape and produce a tenant_id.',
-          parameters: {
-            type: 'object',
-            properties: { utterance: { type: 'string' }, context: { type: 'object' } },
-            required: ['utterance']
-          }
-        }
-      },
-      {
-        type: 'function',
-        function: {
-          name: 'build_tickets',
-          description: 'Create DepartmentTickets for an ordered plan (e.g., SALES→OPS→FIN).',
-          parameters: {
-            type: 'object',
-            properties: {
-              plan: { type: 'array', items: { type: 'string' } }, // any of the Dept values
-              session_id: { type: 'string' },
-              tenant_id: { type: 'string' }
-            },
-            required: ['plan','session_id','tenant_id']
-          }
-        }
-      },
-      {
-        type: 'function',
-        function: {
-          name: 'execute_department',
-          description:
-            'Execute a DepartmentTicket by POSTing to /api/dept/all. Use this for any department (SALES, MARKETING, ANALYTICS, EXEC, PRODUCT, SECURITY, FACILITIES, PROCUREMENT, LEGAL, IT, HR, FIN, OPS, CS, RESEARCH).',
-          parameters: {
-            type: 'object',
-            properties: { ticket: { type: 'object' } },
-            required: ['ticket']
-          }
-        }
-      },
-      {
-        type: 'function',
-        function: {
-          name: 'research_build_kb',
-          description: 'Build a company profile and crawl plan for a given website URL.',
-          parameters: {
-            type: 'object',
-            properties: { website: { type:'string' }, tenant_id: { type:'string' }, company_name: { type:'string' } },
-            required: ['website']
-          }
-        }
-      }
-    ];
+    // tenant/session for every tool call, settled before the budget opens so the daily
+    // limit is checked and charged for the tenant the tools actually run for
+    const session = await loadSession(session_id);
+    const turn = session.turn + 1;
+    const current = {
+      tenant_id: String(session.tenant_id || newTenantId(context)),
+      session_id: session.id
+    };
+    const results: DeptResult[] = [];
+    // tickets from build_tickets; the ones without a result are reported if the budget cuts the run short
+    let planned: DeptTicket[] = [];
+    const AGENT_MODEL = process.env.AGENT_MODEL || 'gpt-5-mini';
+    budget = await openBudget(current.tenant_id, AGENT_MODEL, budgetLimits(requested));
+
+    // built-ins + one typed tool per catalog action (GET /api/dept/catalog); see ../_lib/tools.ts
+    const tools = agentTools();
 
     const msgs: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
       {
         role: 'system',
         content:
-          'You are the Master Spine. For business operations, plan department steps and call: schema_guard → build_tickets → execute_department (for each ticket) in order. When a website is provided, call research_build_kb and summarize crawl plan. Keep responses concise and action-focused.'
+          'You are the Master Spine. For business operations, plan department steps and call: schema_guard → build_tickets → the department action tool named in each ticket (e.g. sales__create_or_update_lead), passing the ticket inputs plus anything you can fill from the conversation. When a website is provided, call research_build_kb and summarize crawl plan. Keep responses concise and action-focused.'
       },
+      ...(memoryNote(session) ? [{ role: 'system' as const, content: memoryNote(session)! }] : []),
+      ...(historyMessages(session) as OpenAI.Chat.Completions.ChatCompletionMessageParam[]),
       { role: 'user', content: `Utterance: ${message}\nContext: ${JSON.stringify(context || {})}` }
     ];
+    const turnStart = msgs.length - 1;
 
-    // Tool executor
-    async function runToolCall(call: OpenAI.Chat.Completions.ChatCompletionMessageToolCall) {
+    // Tool executor; `args` have passed checkToolCall (parsed, validated, defaults applied)
+    async function runToolCall(call: OpenAI.Chat.Completions.ChatCompletionMessageToolCall, args: any) {
       const name = call.function?.name;
-      let args: any = {};
-      try { args = JSON.parse(call.function?.arguments || '{}'); } catch {}
 
       switch (name) {
-        case 'schema_guard': {
-          const utter = String(args.utterance || '').trim();
-          if (!utter) return { ok:false, error:'Missing utterance' };
-          const domain =
-            args?.context?.company?.domain ||
-            (args?.context?.company?.name ? String(args.context.company.name).toLowerCase().replace(/\s+/g, '') + '.local' : '') ||
-            'local.dev';
-          const tenant_id = `tenant_${domain.replace(/\./g,'_')}_${Date.now().toString(36)}`;
-          return { ok:true, tenant_id };
-        }
+        case 'schema_guard':
+          return { ok:true, tenant_id: current.tenant_id };
 
         case 'build_tickets': {
-          const plan: string[] = Array.isArray(args.plan) && args.plan.length ? args.plan : ['SALES','OPS','FIN'];
-          const session_id = args.session_id || ('sess_' + Date.now());
-          const tenant_id = args.tenant_id || ('tenant_local_' + Date.now().toString(36));
-          const caps = mkCapabilities();
+          const plan: Dept[] = args.plan;
+          const session_id = current.session_id;
+          const tenant_id = current.tenant_id;
+          const caps = mkCapabilities(context);
+          const entities = extractEntities(String(args.utterance || message), args.context || context, new Date(), tenantTimeZone(caps));
+          const followups: Followup[] = [];
 
           const tickets: Record<string, DeptTicket> = {};
-          plan.forEach((raw, i) => {
-            // cast/paranoia around casing
-            const dept = String(raw).toUpperCase() as Dept;
+          plan.forEach((dept, i) => {
             // default actions by dept (can be overridden later)
             const action =
               dept === 'SALES' ? 'create_or_update_lead'
@@ -245,27 +174,28 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
               : dept === 'CS' ? 'create_ticket'
               : 'build_kb';
 
+            const slots = fillInputs(dept, action, entities);
             tickets[dept] = {
               id: `sess_${Date.now()}:${dept}:${action}:${i}`,
-              dept: dept as Dept,
+              dept,
               action,
-              inputs: { notes: 'N/A' },
+              inputs: slots.inputs,
               context: { tenant_id, capabilities: caps },
-              idempotency_key: `${session_id}:${dept}:${action}:0`,
+              idempotency_key: `${session_id}:${turn}:${dept}:${action}:0`,
               sla_sec: 120,
               retries: 2
             };
+            if (slots.missing.length) followups.push(followupFor(tickets[dept], slots.missing));
           });
-          return { ok:true, tickets, plan };
-        }
-
-        case 'execute_department': {
-          // tolerate missing/partial ticket from model
-          const t = synthTicket('execute_department', args);
-          const r = await fetch(`${new URL(req.url!, `https://${req.headers.host}`).origin}/api/dept/all`, {
-            method:'POST', headers:{'Content-Type':'application/json'}, body: JSON.stringify({ ticket: t })
+          emit({
+            type: 'plan',
+            source: 'model',
+            steps: Object.values(tickets).map(t => ({ ticket_id: t.id, dept: t.dept, action: t.action })),
+            followups
           });
-          return await r.json();
+          const withTools = Object.fromEntries(Object.entries(tickets).map(([d, t]) => [d, { ...t, tool: toolNameFor(t.dept, t.action) }]));
+          planned = Object.values(tickets);
+          return { ok:true, tickets: withTools, plan, followups };
         }
 
         case 'research_build_kb': {
@@ -274,32 +204,109 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             company_name: args.company_name || '',
             website: args.website
           };
-          const resp = await fetch(`${new URL(req.url!, `https://${req.headers.host}`).origin}/api/research/build-kb`, {
-            method: 'POST', headers: {'Content-Type':'application/json'}, body: JSON.stringify(payload)
-          });
-          return await resp.json();
+          try {
+            return await buildKb(payload);
+          } catch (e: any) {
+            if (e instanceof BadUrlError) return { ok: false, error: e.message };
+            throw e;
+          }
         }
 
-        default:
-          return { ok:false, error:`Unknown tool: ${name}` };
+        default: {
+          // catalog action tool: arguments are the action inputs
+          const { dept, action } = parseToolName(name || '')!;
+          const ticket: DeptTicket = {
+            id: `${current.session_id}:${dept}:${action}:${call.id}`,
+            dept,
+            action,
+            inputs: args,
+            context: { tenant_id: current.tenant_id, capabilities: mkCapabilities(context) },
+            idempotency_key: '',
+            sla_sec: 120,
+            retries: 2
+          };
+          // same inputs in the same session → same key, so a repeated call replays instead of duplicating
+          ticket.idempotency_key = `${current.session_id}:${dept}:${action}:${fingerprintOf(ticket).slice(0, 12)}`;
+          emit({ type: 'ticket_started', ticket_id: ticket.id, dept, action });
+          let result: DeptResult;
+          try {
+            result = await executeTicket(ticket);
+          } catch (e: any) {
+            failed++;
+            const error = e?.message || String(e);
+            emit({ type: 'ticket_finished', ticket_id: ticket.id, dept, action, ok: false, status: 'error', summary: `${dept}.${action} did not run`, error });
+            return { ok:false, error };
+          }
+          results.push(result);
+          if (['error', 'invalid', 'conflict'].includes(result.status)) failed++;
+          emit({
+            type: 'ticket_finished',
+            ticket_id: ticket.id,
+            dept,
+            action,
+            ok: result.ok,
+            status: result.status,
+            summary: result.summary,
+            duration_ms: result.diagnostics?.duration_ms,
+            ...(result.ok ? {} : { error: result.diagnostics.validation?.errors.map(x => x.message).join('; ') || result.diagnostics.notes })
+          });
+          return result;
+        }
       }
     }
 
-    // Let the model plan + call tools up to 8 steps
+    // Let the model plan + call tools until it answers or a budget (../_lib/budget.ts) runs out
     let finalText = '';
-    for (let i = 0; i < 8; i++) {
-      const completion = await client.chat.completions.create({
-        model: process.env.AGENT_MODEL || 'gpt-5-mini',
-        messages: msgs,
-        tools
-      });
-
-      const msg = completion.choices[0].message;
+    let stopped: BudgetStop | undefined;
+    // rejected calls this turn, and how many in a row per tool (reset once a call to it passes)
+    const repairs: Repair[] = [];
+    const rejected: Record<string, number> = {};
+    while (!events?.closed) {
+      const request = { model: AGENT_MODEL, messages: msgs, tools };
+      if ((stopped = await budget.check(request))) break;
+      const msg = await model.complete(request, stream ? text => emit({ type: 'delta', text }) : undefined);
+      await budget.add(request, msg);
 
       if (msg.tool_calls && msg.tool_calls.length) {
         msgs.push({ role: 'assistant', tool_calls: msg.tool_calls } as any);
         for (const tc of msg.tool_calls) {
-          const toolResult = await runToolCall(tc);
+          const name = tc.function!.name;
+          const check = checkToolCall(name, tc.function?.arguments);
+          let shown: unknown = tc.function?.arguments;
+          try { shown = JSON.parse(tc.function?.arguments || '{}'); } catch {}
+          emit({ type: 'tool_call', call_id: tc.id, name, arguments: shown });
+
+          if ((rejected[name] || 0) > MAX_REPAIRS) {
+            emit({ type: 'tool_result', call_id: tc.id, name, ok: false, error: 'REPAIR_LIMIT' });
+            msgs.push({ role: 'tool', name, content: JSON.stringify({ ok: false, error: 'REPAIR_LIMIT', hint: `${name} was rejected ${rejected[name]} times; ask the user instead.` }), tool_call_id: tc.id } as any);
+            continue;
+          }
+          if (!check.ok) {
+            // not executed: the errors go back as the tool result and the model gets to fix the call
+            const attempt = (rejected[name] = (rejected[name] || 0) + 1);
+            const attemptsLeft = Math.max(0, MAX_REPAIRS - attempt + 1);
+            repairs.push({
+              at: new Date().toISOString(), session_id, prompt: message, tool: name, call_id: tc.id,
+              attempt, errors: check.errors, arguments: tc.function?.arguments || '', repaired: false, gave_up: attemptsLeft === 0
+            });
+            emit({ type: 'tool_result', call_id: tc.id, name, ok: false, error: 'INVALID_ARGUMENTS', errors: check.errors });
+            msgs.push({ role: 'tool', name, content: JSON.stringify(repairMessage(name, check.errors, attemptsLeft)), tool_call_id: tc.id } as any);
+            continue;
+          }
+          if (rejected[name]) {
+            for (const r of repairs) if (r.tool === name) r.repaired = true;
+            delete rejected[name];
+          }
+
+          // a throwing tool is a failed step, not a failed run: the model sees the error and can carry on
+          let toolResult: any;
+          try {
+            toolResult = await runToolCall(tc, check.args);
+          } catch (e: any) {
+            toolResult = { ok: false, error: e?.message || String(e) };
+            emit({ type: 'error', message: `${tc.function!.name}: ${toolResult.error}`, fatal: false });
+          }
+          emit({ type: 'tool_result', call_id: tc.id, name: tc.function!.name, ok: toolResult?.ok !== false, ...(toolResult?.ok === false && toolResult.error ? { error: String(toolResult.error) } : {}) });
           msgs.push({
             role: 'tool',
             name: tc.function!.name,
@@ -314,8 +321,38 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       break;
     }
 
-    return res.status(200).json({ ok: true, mode: 'openai', reply: finalText });
+    if (stopped) {
+      const pending = planned.filter(t => !results.some(r => r.dept === t.dept && r.ticket.action === t.action));
+      finalText = stoppedReply(stopped, budget, results, pending);
+    }
+    msgs.push({ role: 'assistant', content: finalText });
+    await recordTurn(session.id, {
+      tenant_id: current.tenant_id,
+      utterance: message,
+      reply: finalText,
+      messages: msgs.slice(turnStart) as any,
+      results,
+      entities: extractEntities(message, context, new Date(), tenantTimeZone(mkCapabilities(context)))
+    });
+    if (repairs.length) await logRepairs(current.tenant_id, repairs);
+    await budget.charge();
+    const usage = { ...budget.usage, limits: budget.limits, ...(stopped ? { stopped } : {}) };
+
+    if (events) {
+      events.send({ type: 'reply', text: finalText });
+      events.send({ type: 'done', ok: failed === 0 && !stopped, mode: model.name, session_id, failed, repairs, usage });
+      return events.close();
+    }
+    return res.status(200).json({ ok: true, mode: model.name, session_id, reply: finalText, repairs, usage });
   } catch (e: any) {
+    // what was spent before the failure still counts against the tenant
+    await budget?.charge().catch(() => undefined);
+    if (events) {
+      // headers are gone already; report on the stream
+      events.send({ type: 'error', message: e?.message || String(e), fatal: true });
+      events.send({ type: 'done', ok: false, mode: MODE, session_id, failed });
+      return events.close();
+    }
     return res.status(500).json({ ok: false, error: e?.message || String(e) });
   }
 }
@@ -0,0 +1,45 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { readRepairs } from '../_lib/tools.js';
+
+/**
+ * One tenant's model tool calls that were rejected by the argument check, to
+ * find prompts and tools that routinely produce bad calls.
+ * Route:  GET /api/agent/repairs?tenant_id=...[&tool=...][&since=ISO][&limit=50]
+ *         → per-tool counts (rejected, repaired, gave_up, most common field errors) + latest entries
+ */
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+function bad(res: VercelResponse, msg: string, code = 400) {
+  return json(res, code, { ok: false, error: msg });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return bad(res, 'Method Not Allowed', 405);
+  }
+
+  const tenant_id = typeof req.query.tenant_id === 'string' ? req.query.tenant_id : '';
+  if (!tenant_id) return bad(res, 'tenant_id is required');
+  const tool = typeof req.query.tool === 'string' ? req.query.tool : undefined;
+  const rawSince = typeof req.query.since === 'string' ? req.query.since : undefined;
+  if (rawSince && Number.isNaN(Date.parse(rawSince))) return bad(res, 'since must be an ISO date');
+  // entries are compared as ISO strings, so "2025-01-02" or an offset form must be normalised first
+  const since = rawSince ? new Date(rawSince).toISOString() : undefined;
+  const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 500);
+
+  const rows = await readRepairs(tenant_id, { tool, since });
+  const by_tool: Record<string, { rejected: number; repaired: number; gave_up: number; errors: Record<string, number> }> = {};
+  for (const r of rows) {
+    const t = (by_tool[r.tool] ||= { rejected: 0, repaired: 0, gave_up: 0, errors: {} });
+    t.rejected++;
+    if (r.repaired) t.repaired++;
+    if (r.gave_up) t.gave_up++;
+    for (const e of r.errors) t.errors[`${e.field}:${e.code}`] = (t.errors[`${e.field}:${e.code}`] || 0) + 1;
+  }
+
+  return json(res, 200, { ok: true, tenant_id, total: rows.length, by_tool, latest: rows.slice(-limit).reverse() });
+}
@@ -1,4 +1,6 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { extractEntities, fillInputs, followupFor } from '../_lib/slots.js';
+import { tenantTimeZone } from '../_lib/time.js';
 
 function json(res: VercelResponse, code: number, payload: unknown) {
   res.status(code).setHeader('Content-Type', 'application/json');
@@ -70,12 +72,20 @@ type DeptTicket = {
 type DeptReply = {
   ok: boolean;
   dept: string;
-  status: 'ok' | 'error';
+  status: string;
   summary: string;
+  output?: Record<string, unknown>;
   ticket: DeptTicket;
   diagnostics?: unknown;
 };
 
+type BatchReply = {
+  ok: boolean;
+  order?: string[];
+  nodes?: Record<string, { status: string; reason?: string; result?: DeptReply }>;
+  error?: string;
+};
+
 type ResearchReply = {
   ok: boolean;
   tenant_id?: string;
@@ -95,9 +105,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return bad(res, 'Method Not Allowed', 405);
   }
 
-  const { message = '', user = 'ps_test_user', context = {} } = (req.body ?? {}) as {
+  const { message = '', user = 'ps_test_user', context = {}, session_id = `run_${Date.now().toString(36)}` } = (req.body ?? {}) as {
     message?: string;
     user?: string;
+    session_id?: string;
     context?: { tenant_id?: string; capabilities?: Record<string, unknown> };
   };
 
@@ -121,15 +132,22 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     );
   }
 
-  // 2) Build and execute the default SALES → OPS → FIN plan
+  // 2) Build and execute the default SALES → (OPS, FIN) plan, inputs filled from the message
+  const entities = extractEntities(String(message), context, new Date(), tenantTimeZone(capabilities));
+  const slots = {
+    sales: fillInputs('SALES', 'create_or_update_lead', entities),
+    ops: fillInputs('OPS', 'schedule_meeting', entities),
+    fin: fillInputs('FIN', 'draft_quote', entities),
+  };
+
   const plan: DeptTicket[] = [
     {
       id: `sess:${tenant_id}:SALES:create_or_update_lead:0`,
       dept: 'SALES',
       action: 'create_or_update_lead',
-      inputs: { lead_name: 'Unknown Lead', source: 'agent' },
+      inputs: { source: 'agent', ...slots.sales.inputs },
       context: { tenant_id, capabilities },
-      idempotency_key: `sess:${tenant_id}:SALES:create_or_update_lead:0`,
+      idempotency_key: `${session_id}:SALES:create_or_update_lead:0`,
       sla_sec: 120,
       retries: 2,
     },
@@ -137,9 +155,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       id: `sess:${tenant_id}:OPS:schedule_meeting:0`,
       dept: 'OPS',
       action: 'schedule_meeting',
-      inputs: { length_min: 30, calendar: 'owner' },
+      inputs: { calendar: 'owner', ...slots.ops.inputs, lead_id: '{{SALES.lead_id?}}' },
       context: { tenant_id, capabilities },
-      idempotency_key: `sess:${tenant_id}:OPS:schedule_meeting:0`,
+      idempotency_key: `${session_id}:OPS:schedule_meeting:0`,
       sla_sec: 120,
       retries: 2,
     },
@@ -147,26 +165,36 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       id: `sess:${tenant_id}:FIN:draft_quote:0`,
       dept: 'FIN',
       action: 'draft_quote',
-      inputs: { currency: 'USD', terms: 'NET 30' },
+      inputs: { ...slots.fin.inputs, lead_id: '{{SALES.lead_id?}}' },
       context: { tenant_id, capabilities },
-      idempotency_key: `sess:${tenant_id}:FIN:draft_quote:0`,
+      idempotency_key: `${session_id}:FIN:draft_quote:0`,
       sla_sec: 120,
       retries: 2,
     },
   ];
 
   const base = `${req.headers['x-forwarded-proto'] ?? 'https'}://${req.headers.host}`;
-  const results: Record<string, any> = {};
 
-  async function exec(ticket: DeptTicket) {
-    const out = await postJson<DeptReply>(`${base}/api/dept/all`, { ticket });
-    results[ticket.dept.toLowerCase()] = out;
-    return out;
-  }
-
-  const sales = await exec(plan[0]);
-  const ops = await exec(plan[1]);
-  const fin = await exec(plan[2]);
+  const followups = [slots.sales, slots.ops, slots.fin]
+    .map((s, i) => (s.missing.length ? followupFor(plan[i], s.missing) : null))
+    .filter(Boolean);
+
+  // SALES first, then OPS and FIN in parallel with the lead id it produced;
+  // they only use it optionally, so they still run when SALES did not succeed
+  const batch = await postJson<BatchReply>(`${base}/api/dept/batch`, {
+    batch_id: session_id,
+    nodes: plan.map(ticket => ({
+      key: ticket.dept,
+      ticket,
+      ...(ticket.dept === 'SALES' ? {} : { on_upstream_failure: 'continue' as const }),
+    })),
+  });
+  // per node: the department reply, or why it never ran (or the batch error)
+  const resultOf = (key: string) => {
+    const node = batch?.nodes?.[key];
+    return node?.result ?? node ?? batch;
+  };
+  const did = (key: string) => batch?.nodes?.[key]?.status === 'succeeded';
 
   return json(res, 200, {
     ok: true,
@@ -174,15 +202,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     context: { tenant_id, capabilities },
     summary: {
       did_research,
-      did_sales: sales?.ok === true,
-      did_ops: ops?.ok === true,
-      did_fin: fin?.ok === true,
+      did_sales: did('SALES'),
+      did_ops: did('OPS'),
+      did_fin: did('FIN'),
     },
+    entities,
+    followups,
     results: {
       research: research ?? null,
-      sales,
-      ops,
-      fin,
+      sales: resultOf('SALES'),
+      ops: resultOf('OPS'),
+      fin: resultOf('FIN'),
     },
   });
 }
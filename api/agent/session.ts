@@ -0,0 +1,35 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { forgetSession, getSession } from '../_lib/sessions.js';
+
+/**
+ * Conversation memory of one chat session.
+ * Route:  GET    /api/agent/session?session_id=...   (history, summary, created records)
+ *         DELETE /api/agent/session?session_id=...   (forget it; the next message starts fresh)
+ */
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+function bad(res: VercelResponse, msg: string, code = 400) {
+  return json(res, code, { ok: false, error: msg });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET' && req.method !== 'DELETE') {
+    res.setHeader('Allow', 'GET, DELETE');
+    return bad(res, 'Method Not Allowed', 405);
+  }
+
+  const session_id = typeof req.query.session_id === 'string' ? req.query.session_id : '';
+  if (!session_id) return bad(res, 'session_id is required');
+
+  if (req.method === 'DELETE') {
+    const forgotten = await forgetSession(session_id);
+    return json(res, forgotten ? 200 : 404, { ok: forgotten, session_id, forgotten });
+  }
+
+  const session = await getSession(session_id);
+  if (!session) return bad(res, `Session not found: ${session_id}`, 404);
+  return json(res, 200, { ok: true, session });
+}
@@ -0,0 +1,33 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { budgetLimits, tenantUsage } from '../_lib/budget.js';
+
+/**
+ * Model usage of one tenant by UTC day, next to the configured budgets.
+ * Route:  GET /api/agent/usage?tenant_id=...[&days=7]
+ */
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+function bad(res: VercelResponse, msg: string, code = 400) {
+  return json(res, code, { ok: false, error: msg });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return bad(res, 'Method Not Allowed', 405);
+  }
+
+  const tenant_id = typeof req.query.tenant_id === 'string' ? req.query.tenant_id : '';
+  if (!tenant_id) return bad(res, 'tenant_id is required');
+  const days = Math.min(Math.max(Number(req.query.days) || 7, 1), 90);
+
+  const now = Date.now();
+  const byDay = await Promise.all(
+    Array.from({ length: days }, (_, i) => tenantUsage(tenant_id, new Date(now - i * 86_400_000).toISOString().slice(0, 10)))
+  );
+
+  return json(res, 200, { ok: true, tenant_id, limits: budgetLimits(), today: byDay[0], days: byDay.filter(d => d.requests) });
+}
@@ -0,0 +1,45 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { ApprovalError, recordApprovalResult, releaseApproval, startApproval } from '../_lib/approvals.js';
+import { executeTicket } from '../_lib/departments.js';
+
+/**
+ * Approve a parked ticket and resume it through the department executor.
+ * Route:  POST /api/approvals/approve   { "id": "apr_...", "reviewer": "dana", "note": "ok" }
+ *
+ * The ticket keeps its original id and idempotency_key. Approving again is how
+ * an approval whose run threw (status approved, no result) is retried.
+ */
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+function bad(res: VercelResponse, msg: string, code = 400) {
+  return json(res, code, { ok: false, error: msg });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return bad(res, 'Method Not Allowed', 405);
+  }
+
+  const { id, reviewer, note } = (req.body ?? {}) as any;
+  if (!id || !reviewer) return bad(res, 'BAD_REQUEST: id and reviewer are required');
+
+  try {
+    const approved = await startApproval(String(id), String(reviewer), note ? String(note) : undefined);
+    let result;
+    try {
+      result = await executeTicket(approved.ticket, { approval_id: approved.id });
+    } catch (e: any) {
+      await releaseApproval(approved.id, e?.message || String(e)).catch(() => undefined);
+      throw e;
+    }
+    const approval = await recordApprovalResult(approved.id, result);
+    return json(res, 200, { ok: result.ok, approval, result });
+  } catch (e: any) {
+    if (e instanceof ApprovalError) return bad(res, e.message, e.code);
+    return bad(res, e?.message || String(e), 500);
+  }
+}
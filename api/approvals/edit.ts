@@ -0,0 +1,35 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { ApprovalError, editApproval } from '../_lib/approvals.js';
+
+/**
+ * Edit the inputs of a parked ticket before deciding on it (shallow merge).
+ * Route:  POST /api/approvals/edit   { "id": "apr_...", "reviewer": "dana", "inputs": { "amount": 900 } }
+ */
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+function bad(res: VercelResponse, msg: string, code = 400) {
+  return json(res, code, { ok: false, error: msg });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return bad(res, 'Method Not Allowed', 405);
+  }
+
+  const { id, reviewer, inputs } = (req.body ?? {}) as any;
+  if (!id || !reviewer || !inputs || typeof inputs !== 'object' || Array.isArray(inputs)) {
+    return bad(res, 'BAD_REQUEST: id, reviewer and inputs (object) are required');
+  }
+
+  try {
+    const approval = await editApproval(String(id), String(reviewer), inputs);
+    return json(res, 200, { ok: true, approval });
+  } catch (e: any) {
+    if (e instanceof ApprovalError) return bad(res, e.message, e.code);
+    return bad(res, e?.message || String(e), 500);
+  }
+}
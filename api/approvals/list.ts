@@ -0,0 +1,28 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { listApprovals } from '../_lib/approvals.js';
+
+/**
+ * Reviewer inbox for parked high-risk tickets.
+ * Route:  GET /api/approvals/list?tenant_id=...&status=pending
+ */
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+function bad(res: VercelResponse, msg: string, code = 400) {
+  return json(res, code, { ok: false, error: msg });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return bad(res, 'Method Not Allowed', 405);
+  }
+
+  const tenant_id = typeof req.query.tenant_id === 'string' ? req.query.tenant_id : undefined;
+  const status = typeof req.query.status === 'string' ? req.query.status : 'pending';
+
+  const approvals = await listApprovals({ tenant_id, status: status === 'all' ? undefined : status });
+  return json(res, 200, { ok: true, count: approvals.length, approvals });
+}
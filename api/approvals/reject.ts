@@ -0,0 +1,36 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { ApprovalError, rejectApproval } from '../_lib/approvals.js';
+import { settleApproval } from '../_lib/idempotency.js';
+
+/**
+ * Reject a parked ticket; it will never run.
+ * Route:  POST /api/approvals/reject   { "id": "apr_...", "reviewer": "dana", "note": "over budget" }
+ */
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+function bad(res: VercelResponse, msg: string, code = 400) {
+  return json(res, code, { ok: false, error: msg });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return bad(res, 'Method Not Allowed', 405);
+  }
+
+  const { id, reviewer, note } = (req.body ?? {}) as any;
+  if (!id || !reviewer) return bad(res, 'BAD_REQUEST: id and reviewer are required');
+
+  try {
+    const approval = await rejectApproval(String(id), String(reviewer), note ? String(note) : undefined);
+    // the original idempotency_key stops answering pending_approval; a retry is parked again
+    await settleApproval(approval.ticket, approval.id).catch(() => undefined);
+    return json(res, 200, { ok: true, approval });
+  } catch (e: any) {
+    if (e instanceof ApprovalError) return bad(res, e.message, e.code);
+    return bad(res, e?.message || String(e), 500);
+  }
+}
@@ -1,4 +1,6 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { newSessionId } from './_lib/sessions.js';
+import { replyFor } from './_lib/spine.js';
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   if (req.method !== 'POST') {
@@ -14,10 +16,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return res.status(400).json({ ok: false, error: 'Missing message' });
   }
 
-  // Reuse your existing master-spine logic via the /api/corp/ingest endpoint
+  // Reuse your existing master-spine logic via the /api/corp/ingest endpoint;
+  // the same session_id on the next message continues the conversation
+  const session_id = typeof body.session_id === 'string' && body.session_id ? body.session_id : newSessionId();
   const spinePayload = {
     user_id: 'visitor-chat',
-    session_id: 'sess_chat_' + Date.now(),
+    session_id,
     utterance: message,
     channels: ['chat'],
     context,
@@ -35,8 +39,8 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     // Make a concise natural-language reply for the UI (keep it simple)
     let reply = 'I processed your request.';
-    if (data?.summary) reply = `Done: ${data.summary.replace(/, /g, ' • ')}`;
-    return res.status(200).json({ ok: true, reply, raw: data });
+    if (data?.summary) reply = replyFor(data.summary);
+    return res.status(200).json({ ok: true, session_id, reply, raw: data });
   } catch (e: any) {
     return res.status(500).json({ ok: false, error: e?.message || String(e) });
   }
@@ -0,0 +1,45 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { resolveAdapter } from '../_lib/adapters/registry.js';
+import { clocks } from '../_lib/cases.js';
+
+/**
+ * List support cases with their live SLA clocks.
+ * Route:  GET /api/cs/cases?tenant_id=...&status=open        (status=all for every case)
+ *         GET /api/cs/cases?tenant_id=...&id=case_...
+ *         (&provider=... when the tenant's support desk adapter is not 'local')
+ */
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+function bad(res: VercelResponse, msg: string, code = 400) {
+  return json(res, code, { ok: false, error: msg });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return bad(res, 'Method Not Allowed', 405);
+  }
+
+  const tenant_id = typeof req.query.tenant_id === 'string' ? req.query.tenant_id : '';
+  if (!tenant_id) return bad(res, 'tenant_id is required');
+  const provider = typeof req.query.provider === 'string' ? req.query.provider : 'local';
+  const { adapter: desk, ctx } = resolveAdapter('support_desk', tenant_id, { support_desk: { provider } });
+  if (!desk) return bad(res, 'No support desk adapter');
+
+  const now = new Date();
+  if (typeof req.query.id === 'string') {
+    const c = await desk.getCase(ctx, req.query.id);
+    if (!c) return bad(res, `Case not found: ${req.query.id}`, 404);
+    return json(res, 200, { ok: true, case: { ...c, clocks: clocks(c, now) } });
+  }
+
+  const status = typeof req.query.status === 'string' ? req.query.status : 'all';
+  const cases = (await desk.listCases(ctx))
+    .filter(c => status === 'all' || c.status === status)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .map(c => ({ ...c, clocks: clocks(c, now) }));
+  return json(res, 200, { ok: true, count: cases.length, cases });
+}
@@ -0,0 +1,54 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { resolveAdapter } from '../_lib/adapters/registry.js';
+import { escalationRules, unescalatedBreaches } from '../_lib/cases.js';
+import { executeTicket, type DeptTicket } from '../_lib/departments.js';
+
+/**
+ * Escalate every live case whose SLA clock is overdue. Call it on a schedule.
+ * Route:  POST /api/cs/sla-sweep   { "tenant_id": "...", "capabilities": { ... } }
+ *
+ * Each breach runs CS.escalate_case through the normal executor with the key
+ * sla:<case_id>:<clock>, so overlapping sweeps escalate a breach once.
+ */
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+function bad(res: VercelResponse, msg: string, code = 400) {
+  return json(res, code, { ok: false, error: msg });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return bad(res, 'Method Not Allowed', 405);
+  }
+
+  const { tenant_id, capabilities = {} } = (req.body ?? {}) as any;
+  if (!tenant_id) return bad(res, 'BAD_REQUEST: tenant_id is required');
+
+  const { adapter: desk, ctx } = resolveAdapter('support_desk', String(tenant_id), capabilities);
+  if (!desk) return bad(res, 'No support desk provider configured for this tenant', 409);
+
+  const rules = escalationRules(capabilities);
+  const cases = await desk.listCases(ctx);
+  const escalated = [];
+  for (const c of cases) {
+    for (const k of unescalatedBreaches(c, rules)) {
+      const ticket: DeptTicket = {
+        id: `sla:${c.id}:${k.clock}`,
+        dept: 'CS',
+        action: 'escalate_case',
+        inputs: { case_id: c.id, clock: k.clock, reason: `${k.clock.replace('_', ' ')} SLA breached (due ${k.due})` },
+        context: { tenant_id: String(tenant_id), capabilities },
+        idempotency_key: `sla:${c.id}:${k.clock}`,
+        sla_sec: 30,
+        retries: 2
+      };
+      const result = await executeTicket(ticket);
+      escalated.push({ case_id: c.id, clock: k.clock, due: k.due, ok: result.ok, status: result.status, summary: result.summary });
+    }
+  }
+  return json(res, 200, { ok: escalated.every(e => e.ok), checked: cases.length, escalated });
+}
@@ -0,0 +1,48 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { DeadLetterError, getDeadLetter, recordReplay } from '../_lib/deadletters.js';
+import { executeTicket } from '../_lib/departments.js';
+
+/**
+ * Re-run a dead-lettered ticket through the department executor.
+ * Route:  POST /api/deadletters/replay   { "id": "dlq_...", "sla_sec": 300, "retries": 3 }
+ *
+ * Validation and policy gates run again; sla_sec / retries override the
+ * original ticket's budget for this run only. A repeat failure keeps the
+ * entry open.
+ */
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+function bad(res: VercelResponse, msg: string, code = 400) {
+  return json(res, code, { ok: false, error: msg });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return bad(res, 'Method Not Allowed', 405);
+  }
+
+  const { id, sla_sec, retries } = (req.body ?? {}) as any;
+  if (!id) return bad(res, 'BAD_REQUEST: id is required');
+
+  try {
+    const entry = await getDeadLetter(String(id));
+    if (!entry) throw new DeadLetterError(`Dead letter not found: ${id}`, 404);
+    if (entry.status !== 'open') throw new DeadLetterError(`Dead letter ${id} is ${entry.status}`, 409);
+
+    const ticket = {
+      ...entry.ticket,
+      ...(Number(sla_sec) > 0 ? { sla_sec: Number(sla_sec) } : {}),
+      ...(Number(retries) >= 0 && retries !== undefined ? { retries: Number(retries) } : {})
+    };
+    const result = await executeTicket(ticket, { approval_id: entry.approval_id, dead_letter_id: entry.id });
+    const updated = await recordReplay(entry.id, result);
+    return json(res, 200, { ok: result.ok, entry: updated, result });
+  } catch (e: any) {
+    if (e instanceof DeadLetterError) return bad(res, e.message, e.code);
+    return bad(res, e?.message || String(e), 500);
+  }
+}
@@ -0,0 +1,35 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { getDeferred, listDeferred } from '../_lib/deferred.js';
+
+/**
+ * Inspect tickets held back by the after-hours gate.
+ * Route:  GET /api/deferred/list?tenant_id=...&status=waiting
+ *         GET /api/deferred/list?id=dfr_...
+ */
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+function bad(res: VercelResponse, msg: string, code = 400) {
+  return json(res, code, { ok: false, error: msg });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return bad(res, 'Method Not Allowed', 405);
+  }
+
+  if (typeof req.query.id === 'string') {
+    const entry = await getDeferred(req.query.id);
+    if (!entry) return bad(res, `Deferred ticket not found: ${req.query.id}`, 404);
+    return json(res, 200, { ok: true, entry });
+  }
+
+  const tenant_id = typeof req.query.tenant_id === 'string' ? req.query.tenant_id : undefined;
+  const status = typeof req.query.status === 'string' ? req.query.status : 'waiting';
+
+  const entries = await listDeferred({ tenant_id, status: status === 'all' ? undefined : status });
+  return json(res, 200, { ok: true, count: entries.length, entries });
+}
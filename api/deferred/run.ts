@@ -0,0 +1,44 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { claimDue, recordRun } from '../_lib/deferred.js';
+import { executeTicket } from '../_lib/departments.js';
+
+/**
+ * Run deferred tickets whose not_before has passed (call from a scheduler).
+ * Route:  POST /api/deferred/run   { "tenant_id": "...", "limit": 50 }   (both optional)
+ *
+ * Each ticket goes through the department executor under its own
+ * idempotency_key, so validation and policy gates run again: one that still
+ * falls outside business hours is deferred anew, and a key that already ran
+ * replays instead of sending twice.
+ */
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+function bad(res: VercelResponse, msg: string, code = 400) {
+  return json(res, code, { ok: false, error: msg });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return bad(res, 'Method Not Allowed', 405);
+  }
+
+  const { tenant_id, limit } = (req.body ?? {}) as any;
+  if (limit !== undefined && !(Number(limit) > 0)) return bad(res, 'BAD_REQUEST: limit must be a positive number');
+
+  try {
+    const due = await claimDue(new Date(), { tenant_id: tenant_id ? String(tenant_id) : undefined, limit: Number(limit) || undefined });
+    const runs = [];
+    for (const entry of due) {
+      const result = await executeTicket(entry.ticket, { approval_id: entry.approval_id });
+      const updated = await recordRun(entry.id, result);
+      runs.push({ id: entry.id, status: updated?.status, result });
+    }
+    return json(res, 200, { ok: runs.every(r => r.result.ok || r.result.status === 'deferred'), count: runs.length, runs });
+  } catch (e: any) {
+    return bad(res, e?.message || String(e), 500);
+  }
+}
@@ -0,0 +1,81 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { DagError, runDag, type DagNode, type UpstreamPolicy } from '../_lib/dag.js';
+import type { DeptTicket } from '../_lib/departments.js';
+import { newId } from '../_lib/store.js';
+
+/**
+ * Run a graph of department tickets.
+ * Route:  POST /api/dept/batch
+ *
+ * {
+ *   "context": { "tenant_id": "tenant_...", "capabilities": { ... } },   // default for every ticket
+ *   "nodes": [
+ *     { "key": "SALES", "ticket": { "dept": "SALES", "action": "create_or_update_lead", "inputs": { "lead_name": "Jane" } } },
+ *     { "key": "OPS", "ticket": { "dept": "OPS", "action": "schedule_meeting",
+ *                                 "inputs": { "start": "2026-05-01T15:00", "lead_id": "{{SALES.lead_id}}" } } },
+ *     { "key": "FIN", "depends_on": ["SALES"], "on_upstream_failure": "cancel", "ticket": { ... } }
+ *   ]
+ * }
+ *
+ * key defaults to the ticket's dept; id / idempotency_key / sla_sec / retries
+ * are filled in when missing. See _lib/dag.ts for templates and failure policies.
+ */
+
+const POLICIES: UpstreamPolicy[] = ['skip', 'cancel', 'continue'];
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+
+function bad(res: VercelResponse, msg: string, code = 400) {
+  return json(res, code, { ok: false, error: msg });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return bad(res, 'Method Not Allowed', 405);
+  }
+
+  const body = (req.body ?? {}) as any;
+  if (!Array.isArray(body.nodes) || !body.nodes.length) return bad(res, 'BAD_REQUEST: nodes[] is required');
+
+  const batch_id = typeof body.batch_id === 'string' && body.batch_id ? body.batch_id : newId('batch');
+  const nodes: DagNode[] = [];
+  for (const raw of body.nodes) {
+    const t = (raw?.ticket ?? raw) as Partial<DeptTicket>;
+    const context = t.context ?? body.context;
+    if (!t?.dept || !t.action || !context?.tenant_id) {
+      return bad(res, 'BAD_REQUEST: every node needs ticket.dept, ticket.action and a tenant_id (ticket.context or body.context)');
+    }
+    const key = String(raw.key || t.dept);
+    const policy = raw.on_upstream_failure;
+    if (policy !== undefined && !POLICIES.includes(policy)) {
+      return bad(res, `BAD_REQUEST: ${key}.on_upstream_failure must be one of ${POLICIES.join('|')}`);
+    }
+    nodes.push({
+      key,
+      depends_on: Array.isArray(raw.depends_on) ? raw.depends_on.map(String) : undefined,
+      on_upstream_failure: policy,
+      ticket: {
+        id: t.id || `${batch_id}:${key}`,
+        dept: t.dept,
+        action: t.action,
+        inputs: t.inputs || {},
+        context: { capabilities: {}, ...context },
+        idempotency_key: t.idempotency_key || `${batch_id}:${key}`,
+        sla_sec: t.sla_sec ?? 120,
+        retries: t.retries ?? 2
+      }
+    });
+  }
+
+  try {
+    const run = await runDag(nodes);
+    return json(res, 200, { ok: run.ok, batch_id, order: run.order, nodes: run.nodes });
+  } catch (e: any) {
+    if (e instanceof DagError) return bad(res, `BAD_REQUEST: ${e.message}`);
+    return bad(res, e?.message || String(e), 500);
+  }
+}
@@ -0,0 +1,39 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { describeCatalog, isDept, toolDefinition } from '../_lib/catalog.js';
+
+/**
+ * Self-describing action catalog.
+ * Route:  GET /api/dept/catalog               → every department/action
+ *         GET /api/dept/catalog?dept=SALES    → one department
+ *         GET /api/dept/catalog?format=openai → ready-made function-tool definitions
+ *
+ * Each entry: { dept, action, tool, description, input_schema (JSON Schema) }.
+ */
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+
+function bad(res: VercelResponse, msg: string, code = 400) {
+  return json(res, code, { ok: false, error: msg });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return bad(res, 'Method Not Allowed', 405);
+  }
+
+  const dept = typeof req.query.dept === 'string' ? req.query.dept.toUpperCase() : undefined;
+  if (dept && !isDept(dept)) return bad(res, `Unknown department: ${dept}`, 404);
+
+  const actions = describeCatalog(dept && isDept(dept) ? { dept } : {});
+  res.setHeader('Cache-Control', 'public, max-age=300');
+
+  if (req.query.format === 'openai') {
+    const tools = actions.map(toolDefinition);
+    return json(res, 200, { ok: true, count: tools.length, tools });
+  }
+  return json(res, 200, { ok: true, count: actions.length, actions });
+}
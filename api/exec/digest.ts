@@ -0,0 +1,72 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { buildDigest, digestWindow, renderHtml, renderMarkdown } from '../_lib/digest.js';
+import { executeTicket, type DeptTicket } from '../_lib/departments.js';
+import { tenantTimeZone } from '../_lib/time.js';
+
+/**
+ * Daily digest of a tenant's ticket journal.
+ * Route:  GET  /api/exec/digest?tenant_id=...&date=2026-10-19&window_hours=24&tz=Europe/Berlin&format=json|md|html
+ *         (&provider=... when the tenant's support desk adapter is not 'local')
+ *         POST /api/exec/digest   { "tenant_id": "...", "capabilities": { ... }, "date"?, "window_hours"?, "email_to"? }
+ *
+ * GET renders on demand without touching the journal. POST is the scheduler
+ * entry point: it runs EXEC.daily_digest through the normal executor under the
+ * key digest:<tenant>:<date>:<window>, so a retried cron run sends one email.
+ */
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+function bad(res: VercelResponse, msg: string, code = 400) {
+  return json(res, code, { ok: false, error: msg });
+}
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method === 'GET') {
+    const q = req.query as Record<string, string | undefined>;
+    if (!q.tenant_id) return bad(res, 'tenant_id is required');
+    if (q.date && !DATE.test(q.date)) return bad(res, 'date must be YYYY-MM-DD');
+    const window_hours = Number(q.window_hours || 24);
+    if (!(window_hours > 0)) return bad(res, 'window_hours must be a positive number');
+
+    // GET has no tenant capabilities: time zone and desk provider come from the query
+    const capabilities = { ...(q.tz ? { timezone: q.tz } : {}), support_desk: { provider: q.provider || 'local' } };
+    const digest = await buildDigest(q.tenant_id, capabilities, { date: q.date, window_hours });
+    if (q.format === 'md') {
+      res.status(200).setHeader('Content-Type', 'text/markdown; charset=utf-8');
+      return res.send(renderMarkdown(digest));
+    }
+    if (q.format === 'html') {
+      res.status(200).setHeader('Content-Type', 'text/html; charset=utf-8');
+      return res.send(renderHtml(digest));
+    }
+    return json(res, 200, { ok: true, digest });
+  }
+
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'GET, POST');
+    return bad(res, 'Method Not Allowed', 405);
+  }
+
+  const { tenant_id, capabilities = {}, date, window_hours = 24, email_to } = (req.body ?? {}) as any;
+  if (!tenant_id) return bad(res, 'BAD_REQUEST: tenant_id is required');
+  if (date !== undefined && !DATE.test(String(date))) return bad(res, 'BAD_REQUEST: date must be YYYY-MM-DD');
+
+  const day = digestWindow({ date, timezone: tenantTimeZone(capabilities) }).label;
+  const ticket: DeptTicket = {
+    id: `digest:${tenant_id}:${day}:${window_hours}`,
+    dept: 'EXEC',
+    action: 'daily_digest',
+    inputs: { ...(date ? { date } : {}), window_hours, ...(email_to ? { email_to } : {}) },
+    context: { tenant_id: String(tenant_id), capabilities },
+    idempotency_key: `digest:${tenant_id}:${day}:${window_hours}`,
+    sla_sec: 30,
+    retries: 2
+  };
+  const result = await executeTicket(ticket);
+  const code = result.ok ? 200 : result.status === 'invalid' ? 422 : result.status === 'deferred' || result.status === 'pending_approval' ? 202 : 500;
+  return json(res, code, result);
+}
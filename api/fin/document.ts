@@ -0,0 +1,39 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { resolveAdapter } from '../_lib/adapters/registry.js';
+import { renderHtml } from '../_lib/billing.js';
+import { docView } from '../_lib/depts/fin.js';
+
+/**
+ * Fetch a quote or invoice by number, as printable HTML or JSON.
+ * Route:  GET /api/fin/document?tenant_id=...&number=INV-00001&format=html|json
+ *         (&provider=... when the tenant's payments adapter is not 'local')
+ */
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+function bad(res: VercelResponse, msg: string, code = 400) {
+  return json(res, code, { ok: false, error: msg });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return bad(res, 'Method Not Allowed', 405);
+  }
+
+  const tenant_id = typeof req.query.tenant_id === 'string' ? req.query.tenant_id : '';
+  const number = typeof req.query.number === 'string' ? req.query.number.trim().toUpperCase() : '';
+  if (!tenant_id || !number) return bad(res, 'tenant_id and number are required');
+  const provider = typeof req.query.provider === 'string' ? req.query.provider : 'local';
+
+  const { adapter, ctx } = resolveAdapter('payments', tenant_id, { payments: { provider } });
+  if (!adapter) return bad(res, 'No payments adapter');
+  const doc = (await adapter.listDocuments(ctx)).find(d => String(d.number).toUpperCase() === number);
+  if (!doc) return bad(res, `Document not found: ${number}`, 404);
+
+  if (req.query.format === 'json') return json(res, 200, { ok: true, status: doc.status, document: docView(doc) });
+  res.status(200).setHeader('Content-Type', 'text/html; charset=utf-8');
+  res.send(renderHtml(docView(doc)));
+}
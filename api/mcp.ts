@@ -0,0 +1,208 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { describeCatalog, parseToolName } from './_lib/catalog.js';
+import { executeTicket, type DeptTicket } from './_lib/departments.js';
+import { fingerprintOf } from './_lib/idempotency.js';
+import { getProfile, listProfiles, parseKbUri } from './_lib/kb.js';
+import { newId } from './_lib/store.js';
+
+/**
+ * Model Context Protocol server over JSON-RPC 2.0 (streamable HTTP, JSON responses only).
+ * Route:  POST /api/mcp
+ *
+ * - tools/list       every catalog action (same names as /api/dept/catalog)
+ * - tools/call       runs the action through the department executor
+ * - resources/list   the tenant's saved KB profiles (kb://<tenant_id>/<domain>)
+ * - resources/read   one of the tenant's KB profiles as JSON
+ *
+ * Tenant for tools/call and resources/* (first match wins): params._meta.tenant_id,
+ * header x-tenant-id, env MCP_DEFAULT_TENANT; a request without one is rejected. Capabilities: params._meta.capabilities,
+ * else env MCP_TENANT_CAPABILITIES (JSON). params._meta.idempotency_key is
+ * honoured; otherwise identical calls within one Mcp-Session-Id replay.
+ */
+
+const SERVER_INFO = { name: 'agentkit-departments', version: '0.1.0' };
+const PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+type RpcId = string | number | null;
+type RpcRequest = { jsonrpc: '2.0'; id?: RpcId; method: string; params?: any };
+
+const ERR = {
+  parse: -32700,
+  invalidRequest: -32600,
+  methodNotFound: -32601,
+  invalidParams: -32602,
+  internal: -32603,
+  resourceNotFound: -32002
+} as const;
+
+class RpcError extends Error {
+  constructor(public code: number, message: string, public data?: unknown) {
+    super(message);
+  }
+}
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+
+function header(req: VercelRequest, name: string) {
+  const v = req.headers[name];
+  return Array.isArray(v) ? v[0] : v;
+}
+
+function tenantOf(req: VercelRequest, params: any) {
+  const tenant_id = String(params?._meta?.tenant_id || header(req, 'x-tenant-id') || process.env.MCP_DEFAULT_TENANT || '');
+  if (!tenant_id) throw new RpcError(ERR.invalidParams, 'No tenant: pass _meta.tenant_id or the x-tenant-id header');
+  return tenant_id;
+}
+
+function envCapabilities(): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(process.env.MCP_TENANT_CAPABILITIES || '{}');
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// --- METHODS ------------------------------------------------------------------
+function initialize(params: any) {
+  const requested = String(params?.protocolVersion || '');
+  return {
+    protocolVersion: PROTOCOL_VERSIONS.includes(requested) ? requested : PROTOCOL_VERSIONS[0],
+    capabilities: { tools: { listChanged: false }, resources: { listChanged: false } },
+    serverInfo: SERVER_INFO,
+    instructions: 'Department actions (SALES, OPS, FIN, ...) as tools; company KB profiles as resources.'
+  };
+}
+
+function listTools() {
+  return {
+    tools: describeCatalog().map(a => ({
+      name: a.tool,
+      title: `${a.dept} ${a.action.replace(/_/g, ' ')}`,
+      description: a.description,
+      inputSchema: a.input_schema
+    }))
+  };
+}
+
+async function callTool(req: VercelRequest, params: any) {
+  const target = parseToolName(String(params?.name || ''));
+  if (!target) throw new RpcError(ERR.invalidParams, `Unknown tool: ${params?.name}`);
+  const args = params?.arguments ?? {};
+  if (typeof args !== 'object' || Array.isArray(args)) throw new RpcError(ERR.invalidParams, 'arguments must be an object');
+
+  const meta = params?._meta || {};
+  const tenant_id = tenantOf(req, params);
+
+  const session = header(req, 'mcp-session-id');
+  const ticket: DeptTicket = {
+    id: newId('mcp'),
+    dept: target.dept,
+    action: target.action,
+    inputs: args,
+    context: { tenant_id, capabilities: meta.capabilities || envCapabilities() },
+    idempotency_key: '',
+    sla_sec: 120,
+    retries: 2
+  };
+  ticket.idempotency_key = String(meta.idempotency_key || (session
+    ? `mcp:${session}:${target.dept}:${target.action}:${fingerprintOf(ticket).slice(0, 12)}`
+    : ticket.id));
+
+  const result = await executeTicket(ticket);
+  // tool-level failures are results, not protocol errors, so the model can react
+  return {
+    content: [{ type: 'text', text: `${result.status}: ${result.summary}` }],
+    structuredContent: result,
+    isError: !result.ok
+  };
+}
+
+async function listResources(req: VercelRequest, params: any) {
+  const tenant_id = tenantOf(req, params);
+  const profiles = await listProfiles({ tenant_id });
+  return {
+    resources: profiles.map(p => ({
+      uri: p.uri,
+      name: p.domain,
+      title: `${p.company_name} KB profile`,
+      description: `Company profile and crawl plan for ${p.company_url} (tenant ${p.tenant_id}, updated ${p.updated_at})`,
+      mimeType: 'application/json'
+    }))
+  };
+}
+
+async function readResource(req: VercelRequest, params: any) {
+  const tenant_id = tenantOf(req, params);
+  const uri = String(params?.uri || '');
+  const ref = parseKbUri(uri);
+  // another tenant's profile reads as missing rather than forbidden
+  const rec = ref?.tenant_id === tenant_id ? await getProfile(ref.tenant_id, ref.domain) : undefined;
+  if (!rec) throw new RpcError(ERR.resourceNotFound, 'Resource not found', { uri });
+  return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(rec, null, 2) }] };
+}
+
+async function dispatch(req: VercelRequest, msg: RpcRequest) {
+  switch (msg.method) {
+    case 'initialize': return initialize(msg.params);
+    case 'ping': return {};
+    case 'tools/list': return listTools();
+    case 'tools/call': return callTool(req, msg.params);
+    case 'resources/list': return listResources(req, msg.params);
+    case 'resources/read': return readResource(req, msg.params);
+    case 'resources/templates/list': return { resourceTemplates: [{ uriTemplate: 'kb://{tenant_id}/{domain}', name: 'kb-profile', mimeType: 'application/json' }] };
+    default: throw new RpcError(ERR.methodNotFound, `Method not found: ${msg.method}`);
+  }
+}
+
+/** null for notifications (no id → no response). */
+async function handleMessage(req: VercelRequest, msg: any) {
+  if (!msg || msg.jsonrpc !== '2.0' || typeof msg.method !== 'string') {
+    return { jsonrpc: '2.0', id: msg?.id ?? null, error: { code: ERR.invalidRequest, message: 'Invalid Request' } };
+  }
+  const isNotification = msg.id === undefined;
+  try {
+    const result = await dispatch(req, msg);
+    return isNotification ? null : { jsonrpc: '2.0', id: msg.id, result };
+  } catch (e: any) {
+    if (isNotification) return null;
+    const error = e instanceof RpcError
+      ? { code: e.code, message: e.message, ...(e.data !== undefined ? { data: e.data } : {}) }
+      : { code: ERR.internal, message: e?.message || String(e) };
+    return { jsonrpc: '2.0', id: msg.id, error };
+  }
+}
+
+// --- HTTP HANDLER ------------------------------------------------------------
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'POST') {
+    // no server-initiated stream
+    res.setHeader('Allow', 'POST');
+    return json(res, 405, { jsonrpc: '2.0', id: null, error: { code: ERR.invalidRequest, message: 'Method Not Allowed' } });
+  }
+
+  let body: any = req.body;
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch {
+      return json(res, 400, { jsonrpc: '2.0', id: null, error: { code: ERR.parse, message: 'Parse error' } });
+    }
+  }
+
+  if (Array.isArray(body)) {
+    const replies = (await Promise.all(body.map(m => handleMessage(req, m)))).filter(Boolean);
+    if (!replies.length) return res.status(202).end();
+    return json(res, 200, replies);
+  }
+
+  const reply = await handleMessage(req, body);
+  if (!reply) return res.status(202).end();
+  if (body?.method === 'initialize' && !header(req, 'mcp-session-id')) {
+    res.setHeader('Mcp-Session-Id', newId('mcps'));
+  }
+  return json(res, 200, reply);
+}
@@ -0,0 +1,38 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { resolveAdapter } from '../_lib/adapters/registry.js';
+import { toIcs } from '../_lib/scheduling.js';
+
+/**
+ * Download the current .ics for a booked (or cancelled) meeting.
+ * Route:  GET /api/ops/invite?tenant_id=...&uid=evt_...@tenant.agentkit
+ *         (&provider=... when the tenant's calendar adapter is not 'local')
+ */
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+function bad(res: VercelResponse, msg: string, code = 400) {
+  return json(res, code, { ok: false, error: msg });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return bad(res, 'Method Not Allowed', 405);
+  }
+
+  const tenant_id = typeof req.query.tenant_id === 'string' ? req.query.tenant_id : '';
+  const uid = typeof req.query.uid === 'string' ? req.query.uid : '';
+  if (!tenant_id || !uid) return bad(res, 'tenant_id and uid are required');
+  const provider = typeof req.query.provider === 'string' ? req.query.provider : 'local';
+
+  const { adapter, ctx } = resolveAdapter('calendar', tenant_id, { calendar: { provider } });
+  if (!adapter) return bad(res, 'No calendar adapter');
+  const ev = await adapter.getEvent(ctx, uid);
+  if (!ev) return bad(res, `Event not found: ${uid}`, 404);
+
+  res.status(200).setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="invite.ics"`);
+  res.send(toIcs(ev));
+}
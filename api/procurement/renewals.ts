@@ -0,0 +1,33 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { todayIn } from '../_lib/billing.js';
+import { listContracts, renewalFlags } from '../_lib/procurement.js';
+
+/**
+ * Vendor contracts approaching renewal. Cheap enough to poll from a scheduler.
+ * Route:  GET /api/procurement/renewals?tenant_id=...&within_days=60&tz=Europe/Berlin
+ */
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+function bad(res: VercelResponse, msg: string, code = 400) {
+  return json(res, code, { ok: false, error: msg });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return bad(res, 'Method Not Allowed', 405);
+  }
+
+  const tenant_id = typeof req.query.tenant_id === 'string' ? req.query.tenant_id : '';
+  if (!tenant_id) return bad(res, 'tenant_id is required');
+  const within_days = Number(req.query.within_days || 60);
+  if (!(within_days > 0)) return bad(res, 'within_days must be a positive number');
+  const tz = typeof req.query.tz === 'string' ? req.query.tz : 'UTC';
+
+  const contracts = await listContracts(tenant_id);
+  const flags = renewalFlags(contracts, todayIn(tz), within_days);
+  return json(res, 200, { ok: true, within_days, checked: contracts.filter(c => c.status === 'active').length, flags });
+}
@@ -0,0 +1,39 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { findVendor, listContracts, listPurchaseOrders, listVendors } from '../_lib/procurement.js';
+
+/**
+ * Vendor registry.
+ * Route:  GET /api/procurement/vendors?tenant_id=...&status=approved     (status=all for every vendor)
+ *         GET /api/procurement/vendors?tenant_id=...&id=ven_...         (or &name=Acme; with contracts and POs)
+ */
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+function bad(res: VercelResponse, msg: string, code = 400) {
+  return json(res, code, { ok: false, error: msg });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return bad(res, 'Method Not Allowed', 405);
+  }
+
+  const tenant_id = typeof req.query.tenant_id === 'string' ? req.query.tenant_id : '';
+  if (!tenant_id) return bad(res, 'tenant_id is required');
+
+  const ref = typeof req.query.id === 'string' ? req.query.id : typeof req.query.name === 'string' ? req.query.name : '';
+  if (ref) {
+    const v = await findVendor(tenant_id, ref);
+    if (!v) return bad(res, `Vendor not found: ${ref}`, 404);
+    const contracts = (await listContracts(tenant_id)).filter(c => c.vendor_id === v.id);
+    const purchase_orders = (await listPurchaseOrders(tenant_id)).filter(p => p.vendor_id === v.id);
+    return json(res, 200, { ok: true, vendor: v, contracts, purchase_orders });
+  }
+
+  const status = typeof req.query.status === 'string' ? req.query.status : 'all';
+  const vendors = (await listVendors(tenant_id)).filter(v => status === 'all' || v.status === status);
+  return json(res, 200, { ok: true, count: vendors.length, vendors });
+}
@@ -0,0 +1,45 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { resolveAdapter } from '../_lib/adapters/registry.js';
+import { matchLead, timeline } from '../_lib/leads.js';
+
+/**
+ * Read a lead timeline (activities + stage changes), oldest first.
+ * Route:  GET /api/sales/timeline?tenant_id=...&lead_id=lead_...
+ *         GET /api/sales/timeline?tenant_id=...&email=...|name=...&type=call&since=...&limit=50
+ *         (&provider=... when the tenant's CRM adapter is not 'local')
+ */
+
+function json(res: VercelResponse, code: number, payload: unknown) {
+  res.status(code).setHeader('Content-Type', 'application/json');
+  res.send(JSON.stringify(payload));
+}
+function bad(res: VercelResponse, msg: string, code = 400) {
+  return json(res, code, { ok: false, error: msg });
+}
+
+const q = (req: VercelRequest, k: string) => (typeof req.query[k] === 'string' && req.query[k] ? String(req.query[k]) : undefined);
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return bad(res, 'Method Not Allowed', 405);
+  }
+
+  const tenant_id = q(req, 'tenant_id');
+  if (!tenant_id) return bad(res, 'tenant_id is required');
+  if (!q(req, 'lead_id') && !q(req, 'email') && !q(req, 'name')) return bad(res, 'lead_id, email or name is required');
+
+  const { adapter: crm, ctx } = resolveAdapter('crm', tenant_id, { crm: { provider: q(req, 'provider') || 'local' } });
+  if (!crm) return bad(res, 'No CRM adapter');
+  const lead = q(req, 'lead_id')
+    ? await crm.getLead(ctx, q(req, 'lead_id')!)
+    : matchLead(await crm.listLeads(ctx), { email: q(req, 'email'), name: q(req, 'name') }).match?.lead;
+  if (!lead) return bad(res, 'Lead not found', 404);
+
+  const entries = timeline(await crm.listActivities(ctx, lead.id), {
+    type: q(req, 'type'),
+    since: q(req, 'since'),
+    limit: Number(q(req, 'limit') || 0)
+  });
+  return json(res, 200, { ok: true, lead, count: entries.length, timeline: entries });
+}
@@ -0,0 +1,37 @@
+import { mkdtempSync } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+/**
+ * Shared bits for the one-shot checks in this folder (run with `npm run check`).
+ * Each check gets a fresh AGENT_DATA_DIR; set it before importing anything from
+ * api/_lib, which reads it at import time.
+ */
+
+export function freshDataDir(name: string) {
+  const dir = mkdtempSync(path.join(os.tmpdir(), `agentkit-${name}-`));
+  process.env.AGENT_DATA_DIR = dir;
+  return dir;
+}
+
+type Handler = (req: any, res: any) => unknown;
+
+/** Call a Vercel handler in-process; JSON bodies come back parsed. */
+export async function call(handler: Handler, req: { method?: string; body?: unknown; query?: Record<string, string>; headers?: Record<string, string> }) {
+  let code = 200;
+  let body: any;
+  const headers: Record<string, string> = {};
+  const res = {
+    status(c: number) { code = c; return res; },
+    setHeader(k: string, v: string) { headers[k.toLowerCase()] = v; return res; },
+    json(v: unknown) { body = v; return res; },
+    send(v: string) { body = typeof v === 'string' ? JSON.parse(v) : v; return res; },
+    end() { return res; }
+  };
+  await handler({ method: req.method || 'POST', url: '/', headers: { host: 'localhost', ...req.headers }, query: req.query || {}, body: req.body }, res);
+  return { code, body, headers };
+}
+
+export function ok(msg: string) {
+  console.log(`ok - ${msg}`);
+}
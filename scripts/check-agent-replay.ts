@@ -0,0 +1,50 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { call, freshDataDir, ok } from './_harness.js';
+
+/**
+ * The model loop replays the committed cassette (fixtures/llm/agent.json) with
+ * no key and no network: same tool calls, same reply, and the department tools
+ * really ran (a lead and a quote exist for the session's tenant). The cassette
+ * was recorded from fixtures/llm/agent.script.json; to re-record from a live
+ * model run the same request with AGENT_MODE=record.
+ */
+
+const fixtures = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '../fixtures/llm');
+freshDataDir('agent-replay');
+process.env.AGENT_MODE = 'replay';
+process.env.AGENT_FIXTURES_DIR = fixtures;
+process.env.AGENT_CASSETTE = 'agent';
+globalThis.fetch = (async (url: unknown) => { throw new Error(`unexpected network call: ${url}`); }) as typeof fetch;
+
+const chat = (await import('../api/agent/chat.js')).default;
+const { getSession } = await import('../api/_lib/sessions.js');
+const { localCrm, localPayments } = await import('../api/_lib/adapters/local.js');
+
+const script = JSON.parse(readFileSync(path.join(fixtures, 'agent.script.json'), 'utf8'));
+const message = 'New lead Jane Doe jane@acme.com from Acme, draft a quote for 2400 USD';
+const context = { company: { name: 'Acme', domain: 'acme.com' } };
+
+const r = await call(chat, { body: { message, context } });
+assert.equal(r.body.ok, true, JSON.stringify(r.body));
+assert.equal(r.body.mode, 'replay');
+assert.equal(r.body.reply, script[0].steps.at(-1).content);
+assert.equal(r.body.usage.steps, 4);
+assert.deepEqual(r.body.repairs, []);
+ok('replayed the recorded run offline, same reply');
+
+const session = await getSession(r.body.session_id);
+const ctx = { tenant_id: session!.tenant_id!, provider: 'local', capabilities: {} };
+const leads = await localCrm.listLeads(ctx);
+assert.deepEqual(leads.map(l => l.email), ['jane@acme.com']);
+const quotes = await localPayments.listDocuments(ctx, 'quote');
+assert.equal(quotes.length, 1);
+assert.equal(quotes[0].total, 2400);
+ok('the department tools ran in-process for the session tenant');
+
+const miss = await call(chat, { body: { message: 'Something that was never recorded', context } });
+assert.equal(miss.code, 500);
+assert.match(String(miss.body.error), /no recorded response/);
+ok('an unrecorded request fails instead of calling the API');
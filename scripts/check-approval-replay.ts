@@ -0,0 +1,56 @@
+import assert from 'node:assert/strict';
+import { call, freshDataDir, ok } from './_harness.js';
+
+/**
+ * Park → approve → replay: once a reviewer approves a parked ticket, replaying
+ * the original idempotency_key returns what actually ran (with the reviewer's
+ * edit), not the 202 pending_approval. A rejected one is parked again on retry.
+ */
+
+freshDataDir('approvals');
+const { executeTicket } = await import('../api/_lib/departments.js');
+const { editApproval } = await import('../api/_lib/approvals.js');
+const approve = (await import('../api/approvals/approve.js')).default;
+const reject = (await import('../api/approvals/reject.js')).default;
+
+const ticket = (key: string) => ({
+  id: `check:${key}`,
+  dept: 'IT' as const,
+  action: 'provision_access',
+  inputs: { employee: 'Sam Lee', system: 'GitHub', role: 'read' },
+  context: { tenant_id: 'tenant_check', capabilities: {} },
+  idempotency_key: key,
+  sla_sec: 5,
+  retries: 0
+});
+
+const parked = await executeTicket(ticket('approve-me'));
+assert.equal(parked.status, 'pending_approval');
+const approval_id = parked.diagnostics.approval!.id;
+assert.equal((await executeTicket(ticket('approve-me'))).status, 'pending_approval');
+ok('parked, and a replay before the decision is still pending');
+
+await editApproval(approval_id, 'dana', { role: 'admin' });
+const approved = await call(approve, { body: { id: approval_id, reviewer: 'dana' } });
+assert.equal(approved.code, 200);
+assert.equal(approved.body.result.status, 'ok');
+assert.equal(approved.body.approval.status, 'executed');
+ok('approved and executed');
+
+const replay = await executeTicket(ticket('approve-me'));
+assert.equal(replay.status, 'ok');
+assert.equal(replay.diagnostics.idempotency?.replayed, true);
+assert.equal(replay.ticket.inputs.role, 'admin');
+ok('replay returns the executed result, with the reviewer edit');
+
+const again = await call(approve, { body: { id: approval_id, reviewer: 'dana' } });
+assert.equal(again.code, 409);
+ok('an executed approval cannot be approved twice');
+
+const second = await executeTicket(ticket('reject-me'));
+const rejected = await call(reject, { body: { id: second.diagnostics.approval!.id, reviewer: 'dana' } });
+assert.equal(rejected.code, 200);
+const retry = await executeTicket(ticket('reject-me'));
+assert.equal(retry.status, 'pending_approval');
+assert.notEqual(retry.diagnostics.approval!.id, second.diagnostics.approval!.id);
+ok('after a rejection the same key is parked again for a new decision');
@@ -0,0 +1,98 @@
+import assert from 'node:assert/strict';
+import { call, freshDataDir, ok } from './_harness.js';
+
+/**
+ * Outreach held back by the after-hours gate is queued, not lost: a Saturday
+ * newsletter comes back deferred to Monday 09:00, a client retry of the same
+ * key does not queue a second send, the runner leaves it alone until
+ * not_before and then sends it once, and the key replays the sent result.
+ * The CSAT survey a case solved after hours asks for is queued the same way.
+ */
+
+// a clock the check can move (Mon–Fri 09:00–17:00 UTC are the default hours)
+const RealDate = Date;
+let now = RealDate.parse('2030-01-05T12:00:00Z'); // Saturday
+class ClockDate extends RealDate {
+  constructor(...args: unknown[]) {
+    if (args.length) super(...(args as [string]));
+    else super(now);
+  }
+  static now() {
+    return now;
+  }
+}
+globalThis.Date = ClockDate as DateConstructor;
+
+freshDataDir('deferred');
+const run = (await import('../api/deferred/run.js')).default;
+const list = (await import('../api/deferred/list.js')).default;
+const { executeTicket } = await import('../api/_lib/departments.js');
+const { localMessaging, localSupportDesk } = await import('../api/_lib/adapters/local.js');
+
+let sends = 0;
+const send = localMessaging.send;
+localMessaging.send = (...args) => { sends++; return send.apply(localMessaging, args); };
+
+const ticket = {
+  id: 'n1',
+  dept: 'MARKETING' as const,
+  action: 'send_newsletter',
+  inputs: { subject: 'January news' },
+  context: { tenant_id: 't_deferred', capabilities: { messaging: { email: 'local' } } },
+  idempotency_key: 'newsletter-jan',
+  sla_sec: 30,
+  retries: 0
+};
+
+const first = await executeTicket(ticket);
+assert.equal(first.status, 'deferred', first.summary);
+assert.equal(first.diagnostics.deferred?.not_before, '2030-01-07T09:00:00.000Z');
+const again = await executeTicket(ticket);
+assert.equal(again.diagnostics.deferred?.id, first.diagnostics.deferred?.id);
+const queued = await call(list, { method: 'GET', query: { tenant_id: 't_deferred' } });
+assert.equal(queued.body.count, 1);
+assert.equal(sends, 0);
+ok('deferred after hours and queued once, however often the client retries');
+
+const early = await call(run, { body: {} });
+assert.equal(early.body.count, 0);
+ok('the runner leaves it alone before not_before');
+
+now = RealDate.parse('2030-01-07T09:05:00Z');
+const due = await call(run, { body: {} });
+assert.equal(due.code, 200);
+assert.equal(due.body.count, 1);
+assert.equal(due.body.runs[0].result.status, 'ok', due.body.runs[0].result.summary);
+assert.equal(due.body.runs[0].status, 'ran');
+assert.equal(sends, 1);
+assert.equal((await call(run, { body: {} })).body.count, 0);
+ok('sent once at not_before');
+
+const replay = await executeTicket(ticket);
+assert.equal(replay.status, 'ok');
+assert.equal(replay.diagnostics.idempotency?.replayed, true);
+assert.equal(sends, 1);
+ok('the key replays the sent result');
+
+// solving a case after hours: the CSAT survey it asks for waits for the runner too
+now = RealDate.parse('2030-01-12T20:00:00Z'); // Saturday
+const cs = { tenant_id: 't_deferred', capabilities: { support_desk: { provider: 'local' }, messaging: { email: 'local' } } };
+const opened = await executeTicket({ ...ticket, id: 'c1', dept: 'CS', action: 'create_ticket', context: cs, idempotency_key: 'case-1',
+  inputs: { customer: 'Jane Doe', customer_email: 'jane@acme.com', subject: 'Login broken' } });
+assert.equal(opened.status, 'ok', opened.summary);
+const case_id = String(opened.output?.case_id);
+const solved = await executeTicket({ ...ticket, id: 'c2', dept: 'CS', action: 'update_case', context: cs, idempotency_key: 'case-1-solve',
+  inputs: { case_id, status: 'solved' } });
+assert.equal(solved.status, 'ok', solved.summary);
+assert.equal(solved.follow_ups?.[0].action, 'csat_request');
+assert.equal(solved.follow_ups?.[0].result?.status, 'deferred');
+const sendsBefore = sends;
+
+now = RealDate.parse('2030-01-14T09:01:00Z');
+const csat = await call(run, { body: { tenant_id: 't_deferred' } });
+assert.equal(csat.body.count, 1);
+assert.equal(csat.body.runs[0].result.status, 'ok', csat.body.runs[0].result.summary);
+assert.equal(sends, sendsBefore + 1);
+const stored = await localSupportDesk.getCase({ tenant_id: 't_deferred', provider: 'local', capabilities: {} }, case_id);
+assert.ok((stored?.csat as any)?.requested_at);
+ok('a CSAT survey deferred on solve is sent when business opens');
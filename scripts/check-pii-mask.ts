@@ -0,0 +1,87 @@
+import assert from 'node:assert/strict';
+import { call, freshDataDir, ok } from './_harness.js';
+
+/**
+ * A PII-sensitive request never hands a raw email address or phone number to
+ * a provider adapter: not in the person fields (singular, plural, nested
+ * attendee objects, person roles), and not in the free-text notes the slot
+ * filler copies from the utterance. With policies.pii=drop, a ticket that
+ * would lose a field the action needs is denied instead of run.
+ */
+
+freshDataDir('pii-mask');
+const ingest = (await import('../api/corp/ingest.js')).default;
+const { executeTicket } = await import('../api/_lib/departments.js');
+const adapters = await import('../api/_lib/adapters/local.js');
+
+const EMAIL = 'jane.doe@acme.com';
+const PHONE = '+1 415 555 0134';
+const RAW = [EMAIL, PHONE, '4155550134', '555 0134'];
+
+// record every argument any local adapter sees
+const seen: unknown[] = [];
+for (const adapter of [adapters.localCrm, adapters.localCalendar, adapters.localPayments, adapters.localSupportDesk, adapters.localMessaging, adapters.localTicketing]) {
+  for (const [name, fn] of Object.entries(adapter)) {
+    if (typeof fn !== 'function') continue;
+    (adapter as any)[name] = (...args: unknown[]) => { seen.push(args.slice(1)); return fn.apply(adapter, args); };
+  }
+}
+const leaked = (...more: unknown[]) => {
+  const text = JSON.stringify([seen, more]);
+  return RAW.filter(r => text.includes(r));
+};
+
+const r = await call(ingest, {
+  body: {
+    user_id: 'u1',
+    session_id: 'pii-1',
+    utterance: `New lead Jane Doe ${EMAIL}, phone ${PHONE}, from Acme`,
+    context: { company: { name: 'Acme', domain: 'acme.com' } },
+    constraints: { sensitivity: 'PII' }
+  }
+});
+assert.equal(r.code, 200);
+const lead = r.body.results.find((x: any) => x.dept === 'SALES');
+assert.equal(lead?.status, 'ok', JSON.stringify(r.body.results));
+assert.ok(seen.length, 'the CRM adapter was called');
+// the result echoes the ticket as the handler got it
+assert.deepEqual(leaked(lead.ticket), []);
+assert.match(JSON.stringify(seen), /j\*\*\*@acme\.com/);
+ok('spine: person fields and the copied clause reach the CRM masked');
+
+const base = { context: { tenant_id: 't_pii', capabilities: { calendar: { provider: 'local' }, crm: { provider: 'local' }, policies: { pii: 'mask' } }, constraints: { sensitivity: 'PII' } }, sla_sec: 30, retries: 0 };
+seen.length = 0;
+const meeting = await executeTicket({
+  ...base,
+  id: 'm1',
+  dept: 'OPS',
+  action: 'schedule_meeting',
+  inputs: {
+    title: 'Intro',
+    start: '2030-01-07T10:00:00Z',
+    length_min: 30,
+    attendees: [{ name: 'Jane Doe', email: EMAIL }, { name: 'Bob Roe', email: 'bob@acme.com' }],
+    notes: `Call Jane on ${PHONE} or mail ${EMAIL} before 2030-01-07 10:00`
+  },
+  idempotency_key: 'pii-m1'
+} as any);
+assert.equal(meeting.status, 'ok', meeting.summary);
+assert.deepEqual(leaked(meeting.ticket), []);
+assert.ok(!JSON.stringify([seen, meeting.ticket]).includes('bob@acme.com'));
+assert.match(String(meeting.ticket.inputs.notes), /^Call Jane on \+\*.*0134 or mail j\*\*\*@acme\.com before 2030-01-07 10:00$/);
+ok('attendee objects and phone numbers in notes are masked, dates are left alone');
+
+seen.length = 0;
+const dropped = await executeTicket({
+  ...base,
+  context: { ...base.context, capabilities: { ...base.context.capabilities, policies: { pii: 'drop' } } },
+  id: 'l2',
+  dept: 'SALES',
+  action: 'create_or_update_lead',
+  inputs: { lead_name: 'Jane Doe', email: EMAIL, company: 'Acme' },
+  idempotency_key: 'pii-l2'
+} as any);
+assert.equal(dropped.status, 'denied', dropped.summary);
+assert.match(dropped.summary, /policies\.pii=drop removes what the action needs/);
+assert.equal(seen.length, 0);
+ok('drop mode denies a ticket it would strip of a required field');